@@ -0,0 +1,177 @@
+import fs from "fs/promises";
+import path from "path";
+import { DeepReadonly } from "ts-essentials";
+import { OfflineBufferSettings } from "./settings/RecorderSettings";
+import log from "./log";
+
+/**
+ * An upload that could not be delivered to the api.
+ */
+export interface OfflineBufferEntry{
+    /** The api route the payload is sent to. E.g. `/v1/current`. */
+    route: string,
+    /** The payload to send (usually a weather record). */
+    payload: any,
+    /** The unix timestamp (in milliseconds) at which the upload has been buffered. */
+    bufferedAt: number,
+}
+
+/**
+ * Local on-disk queue holding uploads that failed because the api was unreachable. Entries are kept in memory and appended
+ * to a JSONL file (one entry per line). Removed entries are compacted out of the file every {@link OfflineBuffer.compactionThreshold} removals
+ * and whenever the buffer runs empty. If the recorder crashes between two compactions, some entries may be replayed twice.
+ *
+ * To load a buffer (including all entries persisted by a previous run) write:
+ * ```ts
+ * const buffer = await OfflineBuffer.load(settings.offlineBuffer);
+ * ```
+ */
+export default class OfflineBuffer{
+    /** The number of removed entries after which the file gets compacted. */
+    public static readonly compactionThreshold = 100;
+
+    public readonly settings : DeepReadonly<OfflineBufferSettings>;
+
+    private entries : OfflineBufferEntry[] = [];
+    private removedSinceCompaction = 0;
+    private pendingWrite : Promise<void> = Promise.resolve();
+
+    private constructor(settings: DeepReadonly<OfflineBufferSettings>){
+        this.settings = settings;
+    }
+
+    /**
+     * Loads the offline buffer from the configured file. Creates the file (and its directory) if it doesn't exist yet.
+     * Entries exceeding the configured maximum age or count are discarded.
+     * @param settings
+     * @returns the loaded offline buffer
+     */
+    public static load = async(settings: DeepReadonly<OfflineBufferSettings>) => {
+        const buffer = new OfflineBuffer(settings);
+        await fs.mkdir(path.dirname(settings.path), { recursive: true });
+
+        let content = "";
+        try{
+            content = await fs.readFile(settings.path, "utf-8");
+        }catch(err: any){
+            if(err.code !== "ENOENT"){
+                throw err;
+            }
+        }
+
+        for(const line of content.split("\n")){
+            if(!line.trim()){
+                continue;
+            }
+            try{
+                buffer.entries.push(JSON.parse(line));
+            }catch(err){
+                log.warn(`Skipping corrupted line in offline buffer '${settings.path}'!`);
+            }
+        }
+
+        buffer.discardExceedingEntries();
+        buffer.enqueueCompaction();
+        await buffer.pendingWrite;
+
+        if(buffer.entries.length > 0){
+            log.info(`Loaded ${buffer.entries.length} buffered upload(s) from '${settings.path}'.`);
+        }
+        return buffer;
+    }
+
+    /**
+     * Returns the number of buffered uploads.
+     * @returns the number of buffered uploads
+     */
+    public size = () => this.entries.length;
+
+    /**
+     * Returns whether the buffer is empty.
+     * @returns whether the buffer is empty
+     */
+    public isEmpty = () => this.entries.length === 0;
+
+    /**
+     * Appends an upload to the end of the buffer and persists it.
+     * @param route the api route the payload is sent to
+     * @param payload the payload to send
+     */
+    public push = (route: string, payload: any) => {
+        const entry : OfflineBufferEntry = { route, payload, bufferedAt: Date.now() };
+        this.entries.push(entry);
+        this.enqueueWrite(() => fs.appendFile(this.settings.path, JSON.stringify(entry) + "\n"));
+        this.discardExceedingEntries();
+    }
+
+    /**
+     * Returns the oldest buffered upload without removing it. Entries exceeding the maximum age are discarded beforehand.
+     * @returns the oldest buffered upload or `undefined` if the buffer is empty
+     */
+    public peek = () => {
+        this.discardExceedingEntries();
+        return this.entries[0] as OfflineBufferEntry | undefined;
+    }
+
+    /**
+     * Removes the passed upload (returned by {@link peek}) after it has been delivered successfully. Does nothing if it has been discarded
+     * in the meantime (because newer uploads exceeded the buffer's limits), the following uploads haven't been delivered yet.
+     * @param entry the delivered upload
+     */
+    public shift = (entry: OfflineBufferEntry) => {
+        if(this.entries[0] !== entry){
+            return;
+        }
+        this.entries.shift();
+        this.onEntriesRemoved(1);
+    }
+
+    /**
+     * Waits until all pending file operations have finished.
+     */
+    public flush = () => this.pendingWrite;
+
+    private discardExceedingEntries(){
+        const minimumBufferedAt = Date.now() - this.settings.maxAge * 1000;
+        let removed = 0;
+        while(this.entries.length > 0 && (this.entries.length > this.settings.maxRecords || this.entries[0].bufferedAt < minimumBufferedAt)){
+            this.entries.shift();
+            removed++;
+        }
+        if(removed > 0){
+            log.warn(`Discarded ${removed} buffered upload(s) exceeding the offline buffer's limits!`);
+            this.onEntriesRemoved(removed);
+        }
+    }
+
+    private onEntriesRemoved(count: number){
+        this.removedSinceCompaction += count;
+        if(this.entries.length === 0 || this.removedSinceCompaction >= OfflineBuffer.compactionThreshold){
+            this.removedSinceCompaction = 0;
+            this.enqueueCompaction();
+        }
+    }
+
+    /**
+     * Rewrites the file so that it only contains the currently buffered entries. The file is replaced atomically.
+     * The entries are captured now, entries pushed afterwards are appended by their own (later) write operation.
+     */
+    private enqueueCompaction(){
+        const content = this.entries.map(entry => JSON.stringify(entry) + "\n").join("");
+        this.enqueueWrite(async() => {
+            const tmpPath = this.settings.path + ".tmp";
+            await fs.writeFile(tmpPath, content);
+            await fs.rename(tmpPath, this.settings.path);
+        });
+    }
+
+    /**
+     * Serializes all file operations so that appends and compactions never interleave.
+     */
+    private enqueueWrite(operation: () => Promise<void>){
+        this.pendingWrite = this.pendingWrite.then(operation).catch((err) => {
+            log.error(`Failed to write offline buffer '${this.settings.path}'!`);
+            log.error(err);
+        });
+    }
+}
@@ -1,57 +1,198 @@
-import { VantPro2Interface, VantVueInterface } from "vantjs/interfaces";
-import superagent from "superagent";
-import RecorderSettings, { CurrentConditionsTaskSettings, defaultCurrentConditionsTaskSettings, defaultRecorderSettings } from "./settings/RecorderSettings";
+import RecorderSettings, { RecorderModels, DataQualityAction, DataQualityActions, UploadMode, UploadModes, ArchiveTaskSettings, CurrentConditionsTaskSettings, defaultArchiveTaskSettings, defaultCurrentConditionsTaskSettings, defaultHighsAndLowsTaskSettings, defaultRecorderSettings, HighsAndLowsTaskSettings, AggregatesTaskSettings, defaultAggregatesTaskSettings, ArchiveInterval, ArchiveIntervals, MaintenanceTaskSettings, defaultMaintenanceTaskSettings } from "./settings/RecorderSettings";
 import merge from "lodash.merge";
-import MinimumRecorderSettings, { MinimumCurrentConditionsTaskSettings } from "./settings/MinimumRecorderSettings";
+import MinimumRecorderSettings, { MinimumArchiveTaskSettings, MinimumCurrentConditionsTaskSettings, MinimumHighsAndLowsTaskSettings, MinimumAggregatesTaskSettings, MinimumMaintenanceTaskSettings } from "./settings/MinimumRecorderSettings";
 import dotenv from "dotenv";
 import validator from "validator";
 import { configureLogger } from "vant-environment/log";
 import { PressureUnit, RainUnit, SolarRadiationUnit, TemperatureUnit, WindUnit, PressureUnits, RainUnits, SolarRadiationUnits, TemperatureUnits, WindUnits } from "vant-environment/units";
-import { AdvancedModels, BaudRates, RainCollectorSizes } from "vant-environment/structures";
+import { BaudRates, RainCollectorSizes } from "vant-environment/structures";
 import InvalidRecorderConfigurationError from "./InvalidRecorderConfigurationError";
 import { RichRealtimeData } from "vant-environment/structures";
 import { DeepReadonly } from "ts-essentials";
+import SinkSettings from "./settings/SinkSettings";
 import { sleep } from "vant-environment/utils";
 import log from "./log";
+import Sink, { RecordKind } from "./sinks/Sink";
+import createSink from "./sinks/createSink";
+import { defaultSinkSettings, SinkTypes } from "./settings/SinkSettings";
+import StationInterface from "./interfaces/StationInterface";
+import SimulatedStationInterface from "./interfaces/SimulatedStationInterface";
+import WeatherStation from "./interfaces/WeatherStation";
+import fs from "fs/promises";
+import path from "path";
+import RecorderMetrics, { TaskName } from "./status/RecorderMetrics";
+import StatusServer from "./status/StatusServer";
+import { TypedEmitter } from "tiny-typed-emitter";
+import { SerialPort } from "serialport";
+import RecorderEvents, { RecordEventArguments, RecordOfKind } from "./RecorderEvents";
+import RecorderConfiguration, { TaskConfiguration } from "./config/RecorderConfiguration";
+import loadConfigFile from "./config/loadConfigFile";
+import { Stats, unwatchFile, watchFile } from "fs";
+import { isDeepStrictEqual } from "util";
+import withTimeout from "./utils/withTimeout";
+import RollingAggregator from "./aggregates/RollingAggregator";
+import DataQualityFilter from "./quality/DataQualityFilter";
+import AlarmSettings, { AlarmRuleTypes, defaultAlarmRuleSettings, defaultNotifierSettings, NotifierTypes } from "./settings/AlarmSettings";
+import AlarmEvaluator, { AlarmNotification } from "./alarms/AlarmEvaluator";
+import Notifier from "./alarms/Notifier";
+import createNotifier from "./alarms/createNotifier";
+import SqliteSink from "./sinks/SqliteSink";
+
+/** The time (in seconds) downloading the archive memory may take. Downloading the whole memory takes about a minute. */
+const ARCHIVE_DOWNLOAD_TIMEOUT = 600;
+/** The time (in seconds) checking and adjusting the console (maintenance task) may take. */
+const MAINTENANCE_TIMEOUT = 30;
+/** The time (in seconds) uploading the pending batch of current conditions may take when the recorder is closed. */
+const BATCH_UPLOAD_TIMEOUT = 30;
+/** The time (in seconds) sending the pending alarm notifications may take when the recorder is closed. */
+const NOTIFICATION_TIMEOUT = 30;
+/** The interval (in seconds) in which the no-data alarms are checked. */
+const NO_DATA_CHECK_INTERVAL = 10;
+/** The interval (in seconds) in which a watched configuration file is checked for changes. */
+const CONFIG_FILE_POLL_INTERVAL = 2;
+/** The format of the daily reset time (`HH:MM`). */
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+/** The settings that can't be changed by reloading the configuration because they require re-opening the connection to the weather station (or the status server). */
+const RESTART_REQUIRED_SETTINGS = ["model", "path", "address", "units", "baudRate", "rainCollectorSize", "simulator", "statusServer"] as const;
+/** The settings the configured sinks are created from. If one of them changes on reload, the configured sinks are re-created. */
+const SINK_SETTINGS = ["api", "key", "tls", "offlineBuffer", "sinks"] as const;
 
 /**
  * The recorder is the counter-part to the `startVantageAPI()` function.
  * It repeatedly sends weather data to a running vant-api instance via _HTTP requests_.
+ * Alternatively (or additionally) the weather data can be written to other destinations like an MQTT broker, a local file, a local SQLite database
+ * or weather networks (Weather Underground, PWSweather, CWOP), see {@link Sink}.
  * 
- * To get the weather data is utilizes a {@link VantPro2Interface} or a {@link VantVueInterface}. 
+ * To get the weather data is utilizes a {@link StationInterface} (which is built on top of vantjs' `VantPro2Interface`). 
+ * The weather station is connected serially (`path`) or via TCP (`address`), e.g. through a _WeatherLinkIP_ data logger or a ser2net bridge.
  * Only works on Vantage Pro 2 and Vue (having firmware dated after April 24, 2002 / v1.90 or above).
+ * For development and tests without a weather station configure the model `"Simulator"` (see {@link SimulatedStationInterface}).
  * 
  * The recorder is structured in multiple _tasks_ which are responsibly for different kinds of weather data.
  * Currently there are following tasks:
- * - **Current Conditions**: Uploads rich realtime data very often (configurable, default: every `1s`) [route: `api/v1/current`]
+ * - **Current Conditions**: Uploads rich realtime data very often (configurable, default: every `1s`) [route: `api/v1/current`].
+ *   On metered connections the records can be uploaded in gzip-compressed batches instead, see {@link CurrentConditionsTaskSettings.uploadMode}.
+ * - **Archive**: Downloads new records from the station's archive memory and uploads them (configurable, default: every `300s`) [route: `api/v1/archive`].
+ *   The time of the last record written to each sink is stored locally, so gaps (e.g. caused by an outage of the recorder or a sink) are filled using the station's own memory.
+ * - **Highs and Lows**: Uploads the daily, monthly and yearly highs and lows computed by the console (configurable, default: every `60s`) [route: `api/v1/highs-and-lows`]
+ * - **Aggregates**: Uploads rolling aggregates computed by the recorder from the current conditions, e.g. wind averages and gusts, temperature extremes,
+ *   rain totals and the pressure trend (configurable, default: every `60s`) [route: `api/v1/aggregates`]. Requires the current conditions task.
+ * - **Maintenance**: Keeps the console's clock in sync with the host's clock, restores the archive interval and resets the daily counters
+ *   on a schedule (configurable, default: every `3600s`). Doesn't upload anything.
+ * 
+ * The current conditions are validated before they are written to the sinks. Invalid values (e.g. sensor glitches) are nulled or flagged, see {@link DataQualitySettings}.
+ * Afterwards the alarm rules are evaluated, alarms are sent to webhooks or via email, see {@link AlarmSettings}.
+ * 
+ * Uploads that fail because the api is unreachable are persisted to an offline buffer and replayed in order once the api answers again.
+ * 
+ * If the connection to the weather station is lost (e.g. the USB adapter has been unplugged or the console doesn't answer anymore), the interface is closed
+ * and re-created with exponential backoff, see {@link ConnectionSettings}.
+ * 
+ * The recorder is an event emitter. Listen to its events (`record`, `uploaded`, `uploadFailed`, `readFailed`, `connected`, `disconnected`, `started`, `stopped`)
+ * to add your own processing, see {@link RecorderEvents}.
+ * 
+ * Optionally an embedded HTTP server exposes the recorder's health (`/health`) and metrics in the Prometheus text format (`/metrics`), see {@link StatusServerSettings}.
+ * If the records are stored locally (see {@link SqliteSinkSettings}), it serves them as JSON as well (`/records/<kind>`).
  * 
  * To create a recorder write:
  * ```ts
  * const recorder = await Recorder.create(...);
  * ```
  * 
+ * Alternatively load the recorder's and its tasks' settings from a YAML or JSON file (see {@link RecorderConfiguration}). If the file is watched,
+ * changes of the task intervals, sinks and log options are applied without restarting the recorder:
+ * ```ts
+ * const recorder = await Recorder.createFromConfigFile("./recorder.yaml", true);
+ * ```
+ * 
  * To configure the current conditions task write:
  * ```ts
  * recorder.configureCurrentConditionsTask(...);
  * ```
  * 
+ * To configure the archive task write:
+ * ```ts
+ * recorder.configureArchiveTask(...);
+ * ```
+ * 
+ * To configure the highs and lows task write:
+ * ```ts
+ * recorder.configureHighsAndLowsTask(...);
+ * ```
+ * 
+ * To configure the aggregates task write:
+ * ```ts
+ * recorder.configureAggregatesTask(...);
+ * ```
+ * 
+ * To configure the maintenance task write:
+ * ```ts
+ * recorder.configureMaintenanceTask(...);
+ * ```
+ * 
  * To start the recorder write:
  * ```ts
  * recorder.start();
  * ```
  */
-class Recorder {
+class Recorder extends TypedEmitter<RecorderEvents>{
     public readonly settings : DeepReadonly<RecorderSettings>;
-    public readonly interface : VantVueInterface | VantPro2Interface;
+    public readonly sinks : Sink[];
+    public readonly metrics : RecorderMetrics;
 
     private currentConditionsTaskSettings? : CurrentConditionsTaskSettings;
     private realtimeRecorderTimeout? : NodeJS.Timeout;
+    /** The records of the current batch, each with a callback receiving the result of the batch's upload. */
+    private currentConditionsBatch : { record: RichRealtimeData, uploaded: (succeeded: boolean) => void }[] = [];
+    private currentConditionsBatchTimeout? : NodeJS.Timeout;
+    private pendingBatchUpload : Promise<void> = Promise.resolve();
+    private archiveTaskSettings? : ArchiveTaskSettings;
+    private archiveRecorderTimeout? : NodeJS.Timeout;
+    private highsAndLowsTaskSettings? : HighsAndLowsTaskSettings;
+    private highsAndLowsRecorderTimeout? : NodeJS.Timeout;
+    private aggregatesTaskSettings? : AggregatesTaskSettings;
+    private aggregatesRecorderTimeout? : NodeJS.Timeout;
+    private readonly aggregator : RollingAggregator;
+    private maintenanceTaskSettings? : MaintenanceTaskSettings;
+    private maintenanceRecorderTimeout? : NodeJS.Timeout;
+    /** The time of the last successful maintenance run. Daily resets are only done if their time passed since then. */
+    private lastMaintenanceTime? : Date;
+    private pendingInterfaceOperation : Promise<unknown> = Promise.resolve();
+    private statusServer? : StatusServer;
+    private dataQualityFilter? : DataQualityFilter;
+    private alarmEvaluator? : AlarmEvaluator;
+    private notifiers : Notifier[];
+    private noDataCheckInterval? : NodeJS.Timeout;
+    private pendingNotifications : Promise<void> = Promise.resolve();
+    private configuredSinks : Sink[];
+    private configFileWatcher? : { path: string, listener: (current: Stats, previous: Stats) => void };
+    private pendingReload : Promise<void> = Promise.resolve();
+    private device : WeatherStation;
+    private reconnecting? : Promise<void>;
+    private consecutiveReadFailures = 0;
+    private closed = false;
     private running: boolean;
 
-    private constructor(settings: RecorderSettings, device: VantVueInterface | VantPro2Interface){
+    private constructor(settings: RecorderSettings, device: WeatherStation, sinks: Sink[], notifiers: Notifier[]){
+        super();
         this.settings = settings;
-        this.interface = device;
+        this.device = device;
+        this.sinks = sinks;
+        this.configuredSinks = [...sinks];
+        this.metrics = new RecorderMetrics();
+        this.dataQualityFilter = Recorder.createDataQualityFilter(settings);
+        this.alarmEvaluator = Recorder.createAlarmEvaluator(settings);
+        this.notifiers = notifiers;
+        this.aggregator = new RollingAggregator(settings.units);
         this.running = false;
+        device.on("close", this.onInterfaceClose);
+    }
+
+    /**
+     * The interface to the weather station. Is replaced if the connection has to be re-established.
+     */
+    public get interface(){
+        return this.device;
     }
 
     /**
@@ -81,7 +222,73 @@ class Recorder {
      * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
      */
     public static create = async(recorderSettings: MinimumRecorderSettings) => {
-        const settings = (merge(defaultRecorderSettings, recorderSettings)) as RecorderSettings;
+        const settings = Recorder.resolveSettings(recorderSettings);
+        const sinks = await Recorder.createSinks(settings);
+        const notifiers = await Recorder.createNotifiers(settings);
+
+        let device = await this.createDeviceInterface(settings);
+
+        const recorder = new Recorder(settings, device, sinks, notifiers);
+        if(settings.statusServer.enabled){
+            recorder.statusServer = await StatusServer.start(settings.statusServer, recorder);
+        }
+        return recorder;
+    }
+
+    /**
+     * Creates a new recorder using the passed configuration file and configures its tasks. Files ending with `.json` are parsed as JSON,
+     * all other files as YAML. See {@link RecorderConfiguration} for the file's structure.
+     * 
+     * If `watch` is `true`, the file is watched for changes which are applied without restarting the recorder, see {@link reload}.
+     * @param configPath the configuration file
+     * @param watch whether to watch the configuration file for changes
+     * @returns a recorder instance
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration file can't be read or is invalid
+     */
+    public static createFromConfigFile = async(configPath: string, watch = false) => {
+        const recorder = await Recorder.createFromConfiguration(await loadConfigFile(configPath));
+        if(watch){
+            recorder.watchConfigFile(configPath);
+        }
+        return recorder;
+    }
+
+    /**
+     * Creates a new recorder using the passed configuration (the recorder's settings and the settings of its tasks, see {@link RecorderConfiguration})
+     * and configures its tasks.
+     * @param configuration the configuration
+     * @returns a recorder instance
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration is invalid
+     */
+    public static createFromConfiguration = async(configuration: RecorderConfiguration) => {
+        Recorder.checkSingleStation(configuration);
+        const { tasks, ...settings } = configuration;
+        const recorder = await Recorder.create(settings as MinimumRecorderSettings);
+        try{
+            recorder.configureTasks(tasks);
+        }catch(err){
+            await recorder.close();
+            throw err;
+        }
+        return recorder;
+    }
+
+    private static checkSingleStation(configuration: RecorderConfiguration){
+        if(configuration.stations){
+            log.error("The configuration defines multiple stations, use a RecorderGroup to record them!");
+            throw new InvalidRecorderConfigurationError("The configuration defines multiple stations, use a RecorderGroup to record them!");
+        }
+    }
+
+    /**
+     * Merges the passed settings with the default settings (and the environment variables if preferred), configures the logger and validates the result.
+     * Doesn't connect to the weather station, use this to check settings.
+     * @param recorderSettings the settings
+     * @returns the complete settings
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    public static resolveSettings(recorderSettings: MinimumRecorderSettings){
+        const settings = merge({}, defaultRecorderSettings, recorderSettings) as RecorderSettings;
        
         if(settings.preferEnvironmentVariables){
             Recorder.loadEnvironmentVariablesAndConfigureLogger(settings);
@@ -89,33 +296,115 @@ class Recorder {
             configureLogger(log, settings.logOptions, "vant-recorder");
         }
 
+        settings.sinks = settings.sinks.map((sink) => merge({}, defaultSinkSettings[sink.type], sink));
+        settings.alarms.rules = settings.alarms.rules.map((rule) => merge({}, defaultAlarmRuleSettings[rule.type], rule));
+        settings.alarms.notifiers = settings.alarms.notifiers.map((notifier) => merge({}, defaultNotifierSettings[notifier.type], notifier));
+
         Recorder.validateSettings(settings);
+        return settings;
+    }
 
-        let device = await this.createDeviceInterface(settings);
+    /**
+     * Creates the configured sinks. If a sink can't be created, the sinks created before are closed again.
+     */
+    private static async createSinks(settings: DeepReadonly<RecorderSettings>){
+        const sinks : Sink[] = [];
+        try{
+            for(const sinkSettings of settings.sinks){
+                sinks.push(await createSink(sinkSettings, settings));
+            }
+        }catch(err){
+            await Recorder.closeSinks(sinks);
+            throw err;
+        }
+        return sinks;
+    }
+
+    /**
+     * Closes the passed sinks. A sink failing to close is logged, the other sinks are closed anyway.
+     */
+    private static async closeSinks(sinks: Sink[]){
+        for(const sink of sinks){
+            try{
+                await sink.close?.();
+            }catch(err){
+                log.error(`Failed to close sink '${sink.name}'!`);
+                log.error(err);
+            }
+        }
+    }
 
-        return new Recorder(settings, device);
+    private static async createNotifiers(settings: DeepReadonly<RecorderSettings>){
+        const notifiers = [];
+        for(const notifierSettings of settings.alarms.notifiers){
+            notifiers.push(await createNotifier(notifierSettings));
+        }
+        return notifiers;
     }
 
-    private static async createDeviceInterface(settings: RecorderSettings){
-        log.info(`Connecting to device ${settings.path} (${settings.model})...`);
-        let device;
-        if(settings.model === "Pro2"){
-            device = await VantPro2Interface.create({
-                path: settings.path!,
-                rainCollectorSize: settings.rainCollectorSize!,
-            });
-        }else{
-            device = await VantVueInterface.create({
-                path: settings.path!,
+    /**
+     * Creates the interface to the weather station described by the passed settings (a serial or network connection or the simulator) and wakes up the console.
+     * @param settings the complete settings, see {@link resolveSettings}
+     * @returns the interface to the weather station
+     */
+    public static async createDeviceInterface(settings: DeepReadonly<RecorderSettings>) : Promise<WeatherStation>{
+        if(settings.model === "Simulator"){
+            log.info(settings.simulator.replayPath ? `Replaying '${settings.simulator.replayPath}' using the simulator...` : "Using the simulator...");
+            return await SimulatedStationInterface.create(settings.units, settings.simulator);
+        }
+
+        if(settings.address){
+            const { host, port } = parseAddress(settings.address)!;
+            log.info(`Connecting to device at ${host}:${port} (${settings.model})...`);
+            const device = await StationInterface.createNetworkInterface({
                 rainCollectorSize: settings.rainCollectorSize!,
-            });
+                units: settings.units,
+            }, host, port);
+            log.info(`Connected!`);
+            return device;
         }
+
+        const path = await this.findDevicePath(settings);
+        log.info(`Connecting to device ${path} (${settings.model})...`);
+        const device = await StationInterface.create({
+            path,
+            baudRate: settings.baudRate,
+            rainCollectorSize: settings.rainCollectorSize!,
+            units: settings.units,
+        });
         log.info(`Connected!`);
         return device;
     }
 
+    /**
+     * Returns the serial path of the weather station. If the USB vendor and/or product id are configured, the path of the first matching
+     * serial device is returned. Falls back to the configured path if no device matches.
+     * @param settings the recorder's settings
+     * @returns the serial path
+     */
+    private static async findDevicePath(settings: DeepReadonly<RecorderSettings>){
+        const { vendorId, productId } = settings.connection;
+        if(!vendorId && !productId){
+            return settings.path;
+        }
+
+        const ports = await SerialPort.list();
+        const port = ports.find(port =>
+            (!vendorId || port.vendorId?.toLowerCase() === vendorId.toLowerCase()) &&
+            (!productId || port.productId?.toLowerCase() === productId.toLowerCase())
+        );
+        if(port){
+            return port.path;
+        }
+        if(settings.path){
+            log.warn(`Found no serial device with vendor id '${vendorId ?? "any"}' and product id '${productId ?? "any"}', using '${settings.path}'.`);
+            return settings.path;
+        }
+        throw new Error(`Found no serial device with vendor id '${vendorId ?? "any"}' and product id '${productId ?? "any"}'!`);
+    }
+
     private static loadEnvironmentVariablesAndConfigureLogger(settings: RecorderSettings){
-        const invalidEnvironmentVariables = []
+        const invalidEnvironmentVariables : string[] = []
         dotenv.config();
 
         if(process.env.API && validator.isURL(process.env.API, {require_tld: false})){
@@ -130,13 +419,31 @@ class Recorder {
             invalidEnvironmentVariables.push("API_KEY");
         }
 
+        for(const [variable, setting] of [["TLS_CA_PATH", "caPath"], ["TLS_CERT_PATH", "certPath"], ["TLS_KEY_PATH", "keyPath"], ["TLS_KEY_PASSPHRASE", "keyPassphrase"]] as const){
+            if(process.env[variable] !== undefined){
+                if(process.env[variable]){
+                    settings.tls[setting] = process.env[variable];
+                }else{
+                    invalidEnvironmentVariables.push(variable);
+                }
+            }
+        }
+
+        if(process.env.TLS_INSECURE !== undefined){
+            if(validator.isBoolean(process.env.TLS_INSECURE)){
+                settings.tls.insecure = process.env.TLS_INSECURE === "true";
+            }else{
+                invalidEnvironmentVariables.push("TLS_INSECURE");
+            }
+        }
+
         if(process.env.BAUD_RATE && validator.isIn(process.env.BAUD_RATE, BaudRates)){
             settings.baudRate = parseInt(process.env.BAUD_RATE!) as any;
         }else{
             invalidEnvironmentVariables.push("BAUD_RATE");
         }
 
-        if(process.env.MODEL && validator.isIn(process.env.MODEL, AdvancedModels)){
+        if(process.env.MODEL && validator.isIn(process.env.MODEL, RecorderModels)){
             settings.model = process.env.MODEL as any;
         }else{
             invalidEnvironmentVariables.push("MODEL");
@@ -148,6 +455,14 @@ class Recorder {
             invalidEnvironmentVariables.push("SERIAL_PATH");
         }
 
+        if(process.env.STATION_ADDRESS !== undefined){
+            if(parseAddress(process.env.STATION_ADDRESS)){
+                settings.address = process.env.STATION_ADDRESS;
+            }else{
+                invalidEnvironmentVariables.push("STATION_ADDRESS");
+            }
+        }
+
         if(process.env.LOG_LEVEL && validator.isIn(process.env.LOG_LEVEL, ["debug", "info", "warn", "error"])){
             settings.logOptions.logLevel = process.env.LOG_LEVEL as any;
         }else{
@@ -207,176 +522,1779 @@ class Recorder {
             invalidEnvironmentVariables.push("WIND_UNIT");
         }
 
-        configureLogger(log, settings.logOptions, "vant-recorder");
+        if(process.env.OFFLINE_BUFFER !== undefined){
+            if(validator.isBoolean(process.env.OFFLINE_BUFFER)){
+                settings.offlineBuffer.enabled = process.env.OFFLINE_BUFFER === "true";
+            }else{
+                invalidEnvironmentVariables.push("OFFLINE_BUFFER");
+            }
+        }
 
-        for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
-            log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+        if(process.env.OFFLINE_BUFFER_PATH !== undefined){
+            if(process.env.OFFLINE_BUFFER_PATH){
+                settings.offlineBuffer.path = process.env.OFFLINE_BUFFER_PATH;
+            }else{
+                invalidEnvironmentVariables.push("OFFLINE_BUFFER_PATH");
+            }
         }
 
-         log.debug("Loaded environment variables!");
-    }
+        if(process.env.OFFLINE_BUFFER_MAX_RECORDS !== undefined){
+            if(validator.isInt(process.env.OFFLINE_BUFFER_MAX_RECORDS, { min: 1 })){
+                settings.offlineBuffer.maxRecords = parseInt(process.env.OFFLINE_BUFFER_MAX_RECORDS);
+            }else{
+                invalidEnvironmentVariables.push("OFFLINE_BUFFER_MAX_RECORDS");
+            }
+        }
 
-    private static validateSettings(settings: RecorderSettings){
-        if(!settings.path){
-            log.error("No serial path specified!");
-            throw new InvalidRecorderConfigurationError("No serial path specified!");
+        if(process.env.OFFLINE_BUFFER_MAX_AGE !== undefined){
+            if(validator.isInt(process.env.OFFLINE_BUFFER_MAX_AGE, { min: 1 })){
+                settings.offlineBuffer.maxAge = parseInt(process.env.OFFLINE_BUFFER_MAX_AGE);
+            }else{
+                invalidEnvironmentVariables.push("OFFLINE_BUFFER_MAX_AGE");
+            }
         }
 
-        if(!settings.rainCollectorSize){
-            log.error("No rain collector size specified!");
-            throw new InvalidRecorderConfigurationError("No rain collector size specified!");;
+        if(process.env.STATUS_SERVER !== undefined){
+            if(validator.isBoolean(process.env.STATUS_SERVER)){
+                settings.statusServer.enabled = process.env.STATUS_SERVER === "true";
+            }else{
+                invalidEnvironmentVariables.push("STATUS_SERVER");
+            }
         }
 
-        if(!settings.api){
-            log.error("No api url specified!");
-            throw new InvalidRecorderConfigurationError("No api url specified!");;
+        if(process.env.STATUS_SERVER_HOST !== undefined){
+            if(process.env.STATUS_SERVER_HOST){
+                settings.statusServer.host = process.env.STATUS_SERVER_HOST;
+            }else{
+                invalidEnvironmentVariables.push("STATUS_SERVER_HOST");
+            }
         }
 
-        if(!settings.baudRate){
-            log.error("No baud rate specified!");
-            throw new InvalidRecorderConfigurationError("No baud rate specified!");;
+        if(process.env.STATUS_SERVER_PORT !== undefined){
+            if(validator.isPort(process.env.STATUS_SERVER_PORT)){
+                settings.statusServer.port = parseInt(process.env.STATUS_SERVER_PORT);
+            }else{
+                invalidEnvironmentVariables.push("STATUS_SERVER_PORT");
+            }
         }
 
-        if(!settings.model){
-            log.error("No weather station model specified!");
-            throw new InvalidRecorderConfigurationError("No weather station model specified!");;
+        if(process.env.STATUS_SERVER_MAX_READ_AGE !== undefined){
+            if(validator.isInt(process.env.STATUS_SERVER_MAX_READ_AGE, { min: 1 })){
+                settings.statusServer.maxReadAge = parseInt(process.env.STATUS_SERVER_MAX_READ_AGE);
+            }else{
+                invalidEnvironmentVariables.push("STATUS_SERVER_MAX_READ_AGE");
+            }
         }
-    }
 
-    /**
-     * Configures the current conditions task. This is related to the `/api/v1/current` route.
-     * Pass your desired settings to configure and enable the task, pass `false` to disable it.
-     * 
-     * It is also possible to configure your recorder using a `.env` file. To enable this feature pass `useEnvironmentVariables: true`.
-     * 
-     * To start all your configured tasks run `start()`.
-     * @param settings 
-     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
-     */
-    public configureCurrentConditionsTask = (settings : MinimumCurrentConditionsTaskSettings | false) => {
-        if(!settings){
-            this.currentConditionsTaskSettings = undefined;
-        }else{
-            this.currentConditionsTaskSettings = merge(defaultCurrentConditionsTaskSettings, settings);
+        if(process.env.RECONNECT !== undefined){
+            if(validator.isBoolean(process.env.RECONNECT)){
+                settings.connection.reconnect = process.env.RECONNECT === "true";
+            }else{
+                invalidEnvironmentVariables.push("RECONNECT");
+            }
+        }
 
-            const invalidEnvironmentVariables = [];
-            if(settings.preferEnvironmentVariables){
-                const interval = process.env.CURRENT_CONDITIONS_INTERVAL;
-                if(interval && validator.isInt(interval, { min: 1 })){
-                    this.currentConditionsTaskSettings.interval = parseInt(interval);
-                }else{
-                    invalidEnvironmentVariables.push("CURRENT_CONDITIONS_INTERVAL");
-                }
+        if(process.env.RECONNECT_MAX_FAILURES !== undefined){
+            if(validator.isInt(process.env.RECONNECT_MAX_FAILURES, { min: 1 })){
+                settings.connection.maxFailures = parseInt(process.env.RECONNECT_MAX_FAILURES);
+            }else{
+                invalidEnvironmentVariables.push("RECONNECT_MAX_FAILURES");
             }
+        }
 
-            if(settings.preferEnvironmentVariables){
-                for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
-                    log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
-                }
+        if(process.env.RECONNECT_INITIAL_DELAY !== undefined){
+            if(validator.isFloat(process.env.RECONNECT_INITIAL_DELAY, { gt: 0 })){
+                settings.connection.initialDelay = parseFloat(process.env.RECONNECT_INITIAL_DELAY);
+            }else{
+                invalidEnvironmentVariables.push("RECONNECT_INITIAL_DELAY");
             }
+        }
 
-            if(!this.currentConditionsTaskSettings?.interval || this.currentConditionsTaskSettings?.interval < 1){
-                throw new InvalidRecorderConfigurationError("The current conditions interval has to be greater or equal to 1.");
+        if(process.env.RECONNECT_MAX_DELAY !== undefined){
+            if(validator.isFloat(process.env.RECONNECT_MAX_DELAY, { gt: 0 })){
+                settings.connection.maxDelay = parseFloat(process.env.RECONNECT_MAX_DELAY);
+            }else{
+                invalidEnvironmentVariables.push("RECONNECT_MAX_DELAY");
             }
         }
-    }
 
-    /**
-     * Return whether the current conditions task is configured.
-     * @returns whether the current conditions task is configured
-     */
-    public currentConditionsConfigured = () => this.currentConditionsTaskSettings !== undefined;
+        if(process.env.READ_TIMEOUT !== undefined){
+            if(validator.isFloat(process.env.READ_TIMEOUT, { gt: 0 })){
+                settings.connection.readTimeout = parseFloat(process.env.READ_TIMEOUT);
+            }else{
+                invalidEnvironmentVariables.push("READ_TIMEOUT");
+            }
+        }
 
-    /**
-     * Return the set up current conditions task's interval.
-     * @returns the set up current conditions task's interval
-     */
-    public currentConditionsInterval = () => this.currentConditionsTaskSettings?.interval;
+        if(process.env.USB_VENDOR_ID !== undefined){
+            if(isUsbId(process.env.USB_VENDOR_ID)){
+                settings.connection.vendorId = process.env.USB_VENDOR_ID;
+            }else{
+                invalidEnvironmentVariables.push("USB_VENDOR_ID");
+            }
+        }
 
-    /** Starts the recorder. Tasks that have
-     *  been configured using `configure*Task(...)` will be started.
-     *  
-     *  Does nothing if the recorder already has been started. */
-    public start = () => {
-        if(this.running){
-            return;
+        if(process.env.USB_PRODUCT_ID !== undefined){
+            if(isUsbId(process.env.USB_PRODUCT_ID)){
+                settings.connection.productId = process.env.USB_PRODUCT_ID;
+            }else{
+                invalidEnvironmentVariables.push("USB_PRODUCT_ID");
+            }
         }
-        this.running = true;
-        log.info("Started recorder!");
-        if (this.currentConditionsTaskSettings) { 
-            this.updateCurrentConditions();
+
+        if(process.env.SIMULATOR_REPLAY_PATH !== undefined){
+            if(process.env.SIMULATOR_REPLAY_PATH){
+                settings.simulator.replayPath = process.env.SIMULATOR_REPLAY_PATH;
+            }else{
+                invalidEnvironmentVariables.push("SIMULATOR_REPLAY_PATH");
+            }
         }
-    }
 
-    /** Stops the recorder. Clears all currently running recording tasks. 
-     * 
-     *  Does nothing if the recorder already has been stopped.
-    */
-    public stop = () => {
-        if(this.running){
-            log.info("Stopped recorder!")
-            clearTimeout(this.realtimeRecorderTimeout);
-            this.running = false;
+        if(process.env.SIMULATOR_SEED !== undefined){
+            if(validator.isInt(process.env.SIMULATOR_SEED)){
+                settings.simulator.seed = parseInt(process.env.SIMULATOR_SEED);
+            }else{
+                invalidEnvironmentVariables.push("SIMULATOR_SEED");
+            }
         }
-    }
 
-    /**
-     * Restarts the recorder. Useful if you changed the recorder's settings while it was already running.
-     */
-    public restart = () => {
-        log.info("Restarting recorder!");
-        this.stop();
-        this.start();
+        if(process.env.SIMULATOR_CLOCK_OFFSET !== undefined){
+            if(validator.isInt(process.env.SIMULATOR_CLOCK_OFFSET)){
+                settings.simulator.clockOffset = parseInt(process.env.SIMULATOR_CLOCK_OFFSET);
+            }else{
+                invalidEnvironmentVariables.push("SIMULATOR_CLOCK_OFFSET");
+            }
+        }
+
+        if(process.env.DATA_QUALITY !== undefined){
+            if(validator.isBoolean(process.env.DATA_QUALITY)){
+                settings.dataQuality.enabled = process.env.DATA_QUALITY === "true";
+            }else{
+                invalidEnvironmentVariables.push("DATA_QUALITY");
+            }
+        }
+
+        if(process.env.DATA_QUALITY_ACTION !== undefined){
+            if(validator.isIn(process.env.DATA_QUALITY_ACTION, DataQualityActions)){
+                settings.dataQuality.action = process.env.DATA_QUALITY_ACTION as DataQualityAction;
+            }else{
+                invalidEnvironmentVariables.push("DATA_QUALITY_ACTION");
+            }
+        }
+
+        Recorder.loadSinkEnvironmentVariables(settings, invalidEnvironmentVariables);
+
+        configureLogger(log, settings.logOptions, "vant-recorder");
+
+        for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
+            log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+        }
+
+         log.debug("Loaded environment variables!");
     }
 
     /**
-     * Updates the current conditions.
-     * This is done by getting a rich realtime data package using the interface and sending it to the api using a `POST` request.
-     * @hidden
+     * Loads the environment variables configuring the sinks (`SINKS`, `MQTT_*`, `FILE_SINK_*`, ...).
+     * @param settings the settings to modify
+     * @param invalidEnvironmentVariables collects the names of invalid environment variables
      */
-    protected updateCurrentConditions = async() => {
-        // Get rich realtime record
-        let record : RichRealtimeData | undefined;
-        do{
-            try{
-                record = await this.interface.getRichRealtimeData();
-            }catch(err){
-                log.error("Failed to get realtime record from interface.");
-                log.error(err);
-                log.info("Retrying...");
-                await sleep(1000);
+    private static loadSinkEnvironmentVariables(settings: RecorderSettings, invalidEnvironmentVariables: string[]){
+        if(process.env.SINKS !== undefined){
+            const sinkTypes = process.env.SINKS.split(",").map(type => type.trim());
+            if(sinkTypes.length > 0 && sinkTypes.every(type => validator.isIn(type, SinkTypes))){
+                settings.sinks = sinkTypes.map(type => ({ type } as SinkSettings));
+            }else{
+                invalidEnvironmentVariables.push("SINKS");
             }
-        }while(record == undefined);
+        }
 
-        // Send post request
-        log.info("New realtime record (" + record.time + ")");
-        superagent
-            .post(this.settings.api + "/v1/current")
-            .disableTLSCerts()
-            .send(record)
-            .set('accept', 'json')
-            .set('x-api-key', this.settings.key)
-            .end((err, res: superagent.Response) => {
-                if(!res || !res.ok){
-                    log.error(`Failed to send realtime record to '${this.settings.api}'!`);  
-                    if(res && res.body && res.body.message){
-                        log.error("Server message: '" + res.body.message + "'");
+        for(const sink of settings.sinks){
+            if(sink.type === "mqtt"){
+                if(process.env.MQTT_URL !== undefined){
+                    if(validator.isURL(process.env.MQTT_URL, { protocols: ["mqtt", "mqtts", "ws", "wss", "tcp", "tls"], require_tld: false })){
+                        sink.url = process.env.MQTT_URL;
                     }else{
-                        log.error("Is your api running?");
-                        log.error(err);
+                        invalidEnvironmentVariables.push("MQTT_URL");
                     }
-                }else{
-                    log.debug("Sent realtime record (" + record!.time + ") successfully!");
                 }
-            });
-
-        // Calculate next record time
-        const newRecordTime = new Date(record.time);
-        newRecordTime.setSeconds(record.time.getSeconds() + this.currentConditionsTaskSettings?.interval!);
-        newRecordTime.setMilliseconds(0);
-        const timeoutTime = newRecordTime.getTime() - record.time.getTime();
-        this.realtimeRecorderTimeout = setTimeout(this.updateCurrentConditions, timeoutTime);
-    }
+                if(process.env.MQTT_USERNAME){
+                    sink.username = process.env.MQTT_USERNAME;
+                }
+                if(process.env.MQTT_PASSWORD){
+                    sink.password = process.env.MQTT_PASSWORD;
+                }
+                if(process.env.MQTT_TOPIC_PREFIX){
+                    sink.topicPrefix = process.env.MQTT_TOPIC_PREFIX;
+                }
+                if(process.env.MQTT_FIELD_TOPICS !== undefined){
+                    if(validator.isBoolean(process.env.MQTT_FIELD_TOPICS)){
+                        sink.fieldTopics = process.env.MQTT_FIELD_TOPICS === "true";
+                    }else{
+                        invalidEnvironmentVariables.push("MQTT_FIELD_TOPICS");
+                    }
+                }
+                if(process.env.MQTT_HOME_ASSISTANT !== undefined){
+                    if(validator.isBoolean(process.env.MQTT_HOME_ASSISTANT)){
+                        sink.homeAssistant = process.env.MQTT_HOME_ASSISTANT === "true";
+                    }else{
+                        invalidEnvironmentVariables.push("MQTT_HOME_ASSISTANT");
+                    }
+                }
+                if(process.env.MQTT_DISCOVERY_PREFIX){
+                    sink.discoveryPrefix = process.env.MQTT_DISCOVERY_PREFIX;
+                }
+                if(process.env.MQTT_DEVICE_ID){
+                    sink.deviceId = process.env.MQTT_DEVICE_ID;
+                }
+            }else if(sink.type === "file"){
+                if(process.env.FILE_SINK_DIRECTORY){
+                    sink.directory = process.env.FILE_SINK_DIRECTORY;
+                }
+                if(process.env.FILE_SINK_FORMAT !== undefined){
+                    if(validator.isIn(process.env.FILE_SINK_FORMAT, ["jsonl", "csv"])){
+                        sink.format = process.env.FILE_SINK_FORMAT as "jsonl" | "csv";
+                    }else{
+                        invalidEnvironmentVariables.push("FILE_SINK_FORMAT");
+                    }
+                }
+            }else if(sink.type === "wunderground" || sink.type === "pwsweather"){
+                const prefix = sink.type.toUpperCase();
+                if(process.env[`${prefix}_STATION_ID`]){
+                    sink.stationId = process.env[`${prefix}_STATION_ID`]!;
+                }
+                if(process.env[`${prefix}_PASSWORD`]){
+                    sink.password = process.env[`${prefix}_PASSWORD`]!;
+                }
+                const url = process.env[`${prefix}_URL`];
+                if(url !== undefined){
+                    if(validator.isURL(url, { require_tld: false })){
+                        sink.url = url;
+                    }else{
+                        invalidEnvironmentVariables.push(`${prefix}_URL`);
+                    }
+                }
+                const interval = process.env[`${prefix}_INTERVAL`];
+                if(interval !== undefined){
+                    if(validator.isInt(interval, { min: 1 })){
+                        sink.interval = parseInt(interval);
+                    }else{
+                        invalidEnvironmentVariables.push(`${prefix}_INTERVAL`);
+                    }
+                }
+            }else if(sink.type === "sqlite"){
+                if(process.env.SQLITE_SINK_PATH){
+                    sink.path = process.env.SQLITE_SINK_PATH;
+                }
+                if(process.env.SQLITE_SINK_RETENTION !== undefined){
+                    if(validator.isFloat(process.env.SQLITE_SINK_RETENTION, { min: 0 })){
+                        sink.retention = parseFloat(process.env.SQLITE_SINK_RETENTION);
+                    }else{
+                        invalidEnvironmentVariables.push("SQLITE_SINK_RETENTION");
+                    }
+                }
+                if(process.env.SQLITE_SINK_DOWNSAMPLE_AFTER !== undefined){
+                    if(validator.isFloat(process.env.SQLITE_SINK_DOWNSAMPLE_AFTER, { min: 0 })){
+                        sink.downsampleAfter = parseFloat(process.env.SQLITE_SINK_DOWNSAMPLE_AFTER);
+                    }else{
+                        invalidEnvironmentVariables.push("SQLITE_SINK_DOWNSAMPLE_AFTER");
+                    }
+                }
+                if(process.env.SQLITE_SINK_DOWNSAMPLE_INTERVAL !== undefined){
+                    if(validator.isInt(process.env.SQLITE_SINK_DOWNSAMPLE_INTERVAL, { min: 0 })){
+                        sink.downsampleInterval = parseInt(process.env.SQLITE_SINK_DOWNSAMPLE_INTERVAL);
+                    }else{
+                        invalidEnvironmentVariables.push("SQLITE_SINK_DOWNSAMPLE_INTERVAL");
+                    }
+                }
+            }else if(sink.type === "cwop"){
+                if(process.env.CWOP_STATION_ID){
+                    sink.stationId = process.env.CWOP_STATION_ID;
+                }
+                if(process.env.CWOP_PASSCODE){
+                    sink.passcode = process.env.CWOP_PASSCODE;
+                }
+                if(process.env.CWOP_HOST){
+                    sink.host = process.env.CWOP_HOST;
+                }
+                if(process.env.CWOP_PORT !== undefined){
+                    if(validator.isPort(process.env.CWOP_PORT)){
+                        sink.port = parseInt(process.env.CWOP_PORT);
+                    }else{
+                        invalidEnvironmentVariables.push("CWOP_PORT");
+                    }
+                }
+                if(process.env.CWOP_LATITUDE !== undefined){
+                    if(validator.isFloat(process.env.CWOP_LATITUDE, { min: -90, max: 90 })){
+                        sink.latitude = parseFloat(process.env.CWOP_LATITUDE);
+                    }else{
+                        invalidEnvironmentVariables.push("CWOP_LATITUDE");
+                    }
+                }
+                if(process.env.CWOP_LONGITUDE !== undefined){
+                    if(validator.isFloat(process.env.CWOP_LONGITUDE, { min: -180, max: 180 })){
+                        sink.longitude = parseFloat(process.env.CWOP_LONGITUDE);
+                    }else{
+                        invalidEnvironmentVariables.push("CWOP_LONGITUDE");
+                    }
+                }
+                if(process.env.CWOP_INTERVAL !== undefined){
+                    if(validator.isInt(process.env.CWOP_INTERVAL, { min: 1 })){
+                        sink.interval = parseInt(process.env.CWOP_INTERVAL);
+                    }else{
+                        invalidEnvironmentVariables.push("CWOP_INTERVAL");
+                    }
+                }
+            }
+        }
+    }
+
+    private static validateSettings(settings: RecorderSettings){
+        const simulated = settings.model === "Simulator";
+        if(settings.address !== undefined && !parseAddress(settings.address)){
+            log.error(`Invalid network address '${settings.address}' (expected 'host:port')!`);
+            throw new InvalidRecorderConfigurationError(`Invalid network address '${settings.address}' (expected 'host:port')!`);
+        }
+
+        if(!simulated && !settings.path && !settings.address && !settings.connection.vendorId && !settings.connection.productId){
+            log.error("No serial path specified!");
+            throw new InvalidRecorderConfigurationError("No serial path specified!");
+        }
+
+        if(!simulated && !settings.rainCollectorSize){
+            log.error("No rain collector size specified!");
+            throw new InvalidRecorderConfigurationError("No rain collector size specified!");;
+        }
+
+        if(!settings.sinks || settings.sinks.length === 0){
+            log.error("No sinks specified!");
+            throw new InvalidRecorderConfigurationError("No sinks specified!");
+        }
+
+        for(const sink of settings.sinks){
+            if(!SinkTypes.includes(sink.type)){
+                log.error(`Unknown sink type '${sink.type}'!`);
+                throw new InvalidRecorderConfigurationError(`Unknown sink type '${sink.type}'!`);
+            }
+
+            if(sink.type === "api" && !settings.api){
+                log.error("No api url specified!");
+                throw new InvalidRecorderConfigurationError("No api url specified!");;
+            }
+
+            if(sink.type === "mqtt" && (!sink.url || !sink.topicPrefix)){
+                log.error("The mqtt sink requires an url and a topic prefix!");
+                throw new InvalidRecorderConfigurationError("The mqtt sink requires an url and a topic prefix!");
+            }
+
+            if(sink.type === "file" && (!sink.directory || !["jsonl", "csv"].includes(sink.format))){
+                log.error("The file sink requires a directory and a format ('jsonl' or 'csv')!");
+                throw new InvalidRecorderConfigurationError("The file sink requires a directory and a format ('jsonl' or 'csv')!");
+            }
+
+            if((sink.type === "wunderground" || sink.type === "pwsweather") && (!sink.stationId || !sink.password || !sink.url || !(sink.interval >= 1))){
+                log.error(`The ${sink.type} sink requires a station id, a password, an url and an interval greater or equal to 1!`);
+                throw new InvalidRecorderConfigurationError(`The ${sink.type} sink requires a station id, a password, an url and an interval greater or equal to 1!`);
+            }
+
+            if(sink.type === "cwop" && (!sink.stationId || !sink.host || !sink.port || !(sink.interval >= 1))){
+                log.error("The cwop sink requires a station id, a host, a port and an interval greater or equal to 1!");
+                throw new InvalidRecorderConfigurationError("The cwop sink requires a station id, a host, a port and an interval greater or equal to 1!");
+            }
+
+            if(sink.type === "cwop" && !(Math.abs(sink.latitude) <= 90 && Math.abs(sink.longitude) <= 180)){
+                log.error("The cwop sink requires a valid latitude and longitude!");
+                throw new InvalidRecorderConfigurationError("The cwop sink requires a valid latitude and longitude!");
+            }
+
+            if(sink.type === "sqlite" && (!sink.path || !(sink.retention >= 0) || !(sink.downsampleAfter >= 0) || !Number.isInteger(sink.downsampleInterval) || sink.downsampleInterval < 0)){
+                log.error("The sqlite sink requires a path, a retention and a downsampling age greater or equal to 0 and an integer downsampling interval greater or equal to 0!");
+                throw new InvalidRecorderConfigurationError("The sqlite sink requires a path, a retention and a downsampling age greater or equal to 0 and an integer downsampling interval greater or equal to 0!");
+            }
+        }
+
+        if(!settings.tls.certPath !== !settings.tls.keyPath){
+            log.error("A TLS client certificate requires a private key (and vice versa)!");
+            throw new InvalidRecorderConfigurationError("A TLS client certificate requires a private key (and vice versa)!");
+        }
+
+        if(!settings.baudRate){
+            log.error("No baud rate specified!");
+            throw new InvalidRecorderConfigurationError("No baud rate specified!");;
+        }
+
+        if(!settings.model || !RecorderModels.includes(settings.model)){
+            log.error("No weather station model specified!");
+            throw new InvalidRecorderConfigurationError("No weather station model specified!");;
+        }
+
+        if(settings.offlineBuffer.enabled){
+            if(!settings.offlineBuffer.path){
+                log.error("No offline buffer path specified!");
+                throw new InvalidRecorderConfigurationError("No offline buffer path specified!");
+            }
+
+            if(!Number.isInteger(settings.offlineBuffer.maxRecords) || settings.offlineBuffer.maxRecords < 1){
+                log.error("The offline buffer's maximum number of records has to be an integer greater or equal to 1!");
+                throw new InvalidRecorderConfigurationError("The offline buffer's maximum number of records has to be an integer greater or equal to 1!");
+            }
+
+            if(!(settings.offlineBuffer.maxAge >= 1)){
+                log.error("The offline buffer's maximum age has to be greater or equal to 1!");
+                throw new InvalidRecorderConfigurationError("The offline buffer's maximum age has to be greater or equal to 1!");
+            }
+        }
+
+        const connection = settings.connection;
+        if(!Number.isInteger(connection.maxFailures) || connection.maxFailures < 1){
+            log.error("The connection's maximum number of failures has to be an integer greater or equal to 1!");
+            throw new InvalidRecorderConfigurationError("The connection's maximum number of failures has to be an integer greater or equal to 1!");
+        }
+
+        if(!(connection.initialDelay > 0) || !(connection.maxDelay >= connection.initialDelay) || !(connection.readTimeout > 0)){
+            log.error("The connection's delays and read timeout have to be greater than 0 (and the maximum delay not shorter than the initial delay)!");
+            throw new InvalidRecorderConfigurationError("The connection's delays and read timeout have to be greater than 0 (and the maximum delay not shorter than the initial delay)!");
+        }
+
+        if((connection.vendorId !== undefined && !isUsbId(connection.vendorId)) || (connection.productId !== undefined && !isUsbId(connection.productId))){
+            log.error("USB vendor and product ids have to consist of 4 hexadecimal digits!");
+            throw new InvalidRecorderConfigurationError("USB vendor and product ids have to consist of 4 hexadecimal digits!");
+        }
+
+        if(!DataQualityActions.includes(settings.dataQuality.action)){
+            log.error(`Invalid data quality action '${settings.dataQuality.action}' (valid are ${DataQualityActions.join(", ")})!`);
+            throw new InvalidRecorderConfigurationError(`Invalid data quality action '${settings.dataQuality.action}' (valid are ${DataQualityActions.join(", ")})!`);
+        }
+
+        for(const [field, rule] of Object.entries(settings.dataQuality.rules)){
+            if(rule === false){
+                continue;
+            }
+            if(rule.min !== undefined && rule.max !== undefined && rule.min > rule.max){
+                log.error(`The data quality rule of '${field}' has a minimum greater than its maximum!`);
+                throw new InvalidRecorderConfigurationError(`The data quality rule of '${field}' has a minimum greater than its maximum!`);
+            }
+            if((rule.maxChangePerMinute !== undefined && !(rule.maxChangePerMinute > 0)) || (rule.maxUnchangedTime !== undefined && !(rule.maxUnchangedTime > 0))){
+                log.error(`The data quality rule of '${field}' requires a maximum change and unchanged time greater than 0!`);
+                throw new InvalidRecorderConfigurationError(`The data quality rule of '${field}' requires a maximum change and unchanged time greater than 0!`);
+            }
+        }
+
+        if(settings.statusServer.enabled){
+            if(!settings.statusServer.host || !Number.isInteger(settings.statusServer.port) || settings.statusServer.port < 0 || settings.statusServer.port > 65535){
+                log.error("The status server requires a host and a valid port!");
+                throw new InvalidRecorderConfigurationError("The status server requires a host and a valid port!");
+            }
+
+            if(!(settings.statusServer.maxReadAge >= 1)){
+                log.error("The status server's maximum read age has to be greater or equal to 1!");
+                throw new InvalidRecorderConfigurationError("The status server's maximum read age has to be greater or equal to 1!");
+            }
+        }
+
+        Recorder.validateAlarmSettings(settings.alarms);
+    }
+
+    private static validateAlarmSettings(alarms: AlarmSettings){
+        const fail = (message: string) => {
+            log.error(message);
+            throw new InvalidRecorderConfigurationError(message);
+        };
+        const fields = new RichRealtimeData();
+        const names = new Set<string>();
+
+        for(const rule of alarms.rules){
+            if(!AlarmRuleTypes.includes(rule.type)){
+                fail(`Invalid alarm rule type '${rule.type}' (valid are ${AlarmRuleTypes.join(", ")})!`);
+            }
+            if(!rule.name || names.has(rule.name)){
+                fail(`Every alarm rule requires a unique name${rule.name ? ` ('${rule.name}' is used twice)` : ""}!`);
+            }
+            names.add(rule.name);
+            if(!(rule.cooldown >= 0)){
+                fail(`The cooldown of alarm rule '${rule.name}' has to be greater or equal to 0!`);
+            }
+            if(rule.type === "no-data"){
+                if(!(rule.duration > 0)){
+                    fail(`The duration of alarm rule '${rule.name}' has to be greater than 0!`);
+                }
+            }else{
+                if(!(rule.field in fields) || rule.field === "time"){
+                    fail(`Alarm rule '${rule.name}' refers to the unknown field '${rule.field}'!`);
+                }
+                if(typeof rule.value !== "number" || !(rule.hysteresis >= 0)){
+                    fail(`Alarm rule '${rule.name}' requires a numeric value and a hysteresis greater or equal to 0!`);
+                }
+            }
+        }
+
+        for(const notifier of alarms.notifiers){
+            if(!NotifierTypes.includes(notifier.type)){
+                fail(`Invalid notifier type '${notifier.type}' (valid are ${NotifierTypes.join(", ")})!`);
+            }
+            if(notifier.type === "webhook" && !validator.isURL(notifier.url ?? "", { protocols: ["http", "https"], require_tld: false })){
+                fail(`Invalid webhook URL '${notifier.url}'!`);
+            }
+            if(notifier.type === "smtp"){
+                if(!notifier.host || !Number.isInteger(notifier.port) || notifier.port < 1 || notifier.port > 65535){
+                    fail("The SMTP notifier requires a host and a valid port!");
+                }
+                if(!notifier.from || !Array.isArray(notifier.to) || notifier.to.length === 0){
+                    fail("The SMTP notifier requires a sender (from) and at least one recipient (to)!");
+                }
+            }
+        }
+    }
+
+    /**
+     * Configures the current conditions task. This is related to the `/api/v1/current` route.
+     * Pass your desired settings to configure and enable the task, pass `false` to disable it.
+     * 
+     * It is also possible to configure your recorder using a `.env` file. To enable this feature pass `useEnvironmentVariables: true`.
+     * 
+     * To start all your configured tasks run `start()`.
+     * @param settings 
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    public configureCurrentConditionsTask = (settings : MinimumCurrentConditionsTaskSettings | false) => {
+        if(!settings){
+            this.currentConditionsTaskSettings = undefined;
+        }else{
+            this.currentConditionsTaskSettings = merge({}, defaultCurrentConditionsTaskSettings, settings);
+
+            const invalidEnvironmentVariables = [];
+            if(settings.preferEnvironmentVariables){
+                const interval = process.env.CURRENT_CONDITIONS_INTERVAL;
+                if(interval && validator.isInt(interval, { min: 1 })){
+                    this.currentConditionsTaskSettings.interval = parseInt(interval);
+                }else{
+                    invalidEnvironmentVariables.push("CURRENT_CONDITIONS_INTERVAL");
+                }
+
+                const uploadMode = process.env.CURRENT_CONDITIONS_UPLOAD_MODE;
+                if(uploadMode !== undefined){
+                    if(validator.isIn(uploadMode, UploadModes)){
+                        this.currentConditionsTaskSettings.uploadMode = uploadMode as UploadMode;
+                    }else{
+                        invalidEnvironmentVariables.push("CURRENT_CONDITIONS_UPLOAD_MODE");
+                    }
+                }
+
+                const batchWindow = process.env.CURRENT_CONDITIONS_BATCH_WINDOW;
+                if(batchWindow !== undefined){
+                    if(validator.isInt(batchWindow, { min: 1 })){
+                        this.currentConditionsTaskSettings.batchWindow = parseInt(batchWindow);
+                    }else{
+                        invalidEnvironmentVariables.push("CURRENT_CONDITIONS_BATCH_WINDOW");
+                    }
+                }
+
+                const batchMaxSize = process.env.CURRENT_CONDITIONS_BATCH_MAX_SIZE;
+                if(batchMaxSize !== undefined){
+                    if(validator.isInt(batchMaxSize, { min: 1 })){
+                        this.currentConditionsTaskSettings.batchMaxSize = parseInt(batchMaxSize);
+                    }else{
+                        invalidEnvironmentVariables.push("CURRENT_CONDITIONS_BATCH_MAX_SIZE");
+                    }
+                }
+            }
+
+            if(settings.preferEnvironmentVariables){
+                for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
+                    log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+                }
+            }
+
+            if(!this.currentConditionsTaskSettings?.interval || this.currentConditionsTaskSettings?.interval < 1){
+                throw new InvalidRecorderConfigurationError("The current conditions interval has to be greater or equal to 1.");
+            }
+
+            if(!UploadModes.includes(this.currentConditionsTaskSettings.uploadMode)){
+                throw new InvalidRecorderConfigurationError(`Invalid upload mode '${this.currentConditionsTaskSettings.uploadMode}' (valid are ${UploadModes.join(", ")}).`);
+            }
+
+            if(!(this.currentConditionsTaskSettings.batchWindow >= 1) || !Number.isInteger(this.currentConditionsTaskSettings.batchMaxSize) || this.currentConditionsTaskSettings.batchMaxSize < 1){
+                throw new InvalidRecorderConfigurationError("The current conditions batch window and maximum batch size have to be greater or equal to 1.");
+            }
+        }
+
+        // Records collected for a batch are uploaded if batching has been turned off
+        if(this.currentConditionsTaskSettings?.uploadMode !== "batch"){
+            this.uploadCurrentConditionsBatch();
+        }
+    }
+
+    /**
+     * Return whether the current conditions task is configured.
+     * @returns whether the current conditions task is configured
+     */
+    public currentConditionsConfigured = () => this.currentConditionsTaskSettings !== undefined;
+
+    /**
+     * Return the set up current conditions task's interval.
+     * @returns the set up current conditions task's interval
+     */
+    public currentConditionsInterval = () => this.currentConditionsTaskSettings?.interval;
+
+    /**
+     * Configures the archive task. This is related to the `/api/v1/archive` route.
+     * Pass your desired settings to configure and enable the task, pass `false` to disable it.
+     * 
+     * It is also possible to configure your recorder using a `.env` file. To enable this feature pass `useEnvironmentVariables: true`.
+     * 
+     * To start all your configured tasks run `start()`.
+     * @param settings 
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    public configureArchiveTask = (settings : MinimumArchiveTaskSettings | false) => {
+        if(!settings){
+            this.archiveTaskSettings = undefined;
+        }else{
+            this.archiveTaskSettings = merge({}, defaultArchiveTaskSettings, settings);
+
+            const invalidEnvironmentVariables = [];
+            if(settings.preferEnvironmentVariables){
+                const interval = process.env.ARCHIVE_INTERVAL;
+                if(interval && validator.isInt(interval, { min: 1 })){
+                    this.archiveTaskSettings.interval = parseInt(interval);
+                }else{
+                    invalidEnvironmentVariables.push("ARCHIVE_INTERVAL");
+                }
+
+                if(process.env.ARCHIVE_STATE_PATH){
+                    this.archiveTaskSettings.statePath = process.env.ARCHIVE_STATE_PATH;
+                }
+
+                for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
+                    log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+                }
+            }
+
+            if(!this.archiveTaskSettings?.interval || this.archiveTaskSettings?.interval < 1){
+                throw new InvalidRecorderConfigurationError("The archive interval has to be greater or equal to 1.");
+            }
+
+            if(!this.archiveTaskSettings.statePath){
+                throw new InvalidRecorderConfigurationError("No archive state path specified!");
+            }
+        }
+    }
+
+    /**
+     * Return whether the archive task is configured.
+     * @returns whether the archive task is configured
+     */
+    public archiveConfigured = () => this.archiveTaskSettings !== undefined;
+
+    /**
+     * Return the set up archive task's interval.
+     * @returns the set up archive task's interval
+     */
+    public archiveInterval = () => this.archiveTaskSettings?.interval;
+
+    /**
+     * Configures the highs and lows task. This is related to the `/api/v1/highs-and-lows` route.
+     * Pass your desired settings to configure and enable the task, pass `false` to disable it.
+     * 
+     * It is also possible to configure your recorder using a `.env` file. To enable this feature pass `useEnvironmentVariables: true`.
+     * 
+     * To start all your configured tasks run `start()`.
+     * @param settings 
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    public configureHighsAndLowsTask = (settings : MinimumHighsAndLowsTaskSettings | false) => {
+        if(!settings){
+            this.highsAndLowsTaskSettings = undefined;
+        }else{
+            this.highsAndLowsTaskSettings = merge({}, defaultHighsAndLowsTaskSettings, settings);
+
+            const invalidEnvironmentVariables = [];
+            if(settings.preferEnvironmentVariables){
+                const interval = process.env.HIGHS_AND_LOWS_INTERVAL;
+                if(interval && validator.isInt(interval, { min: 1 })){
+                    this.highsAndLowsTaskSettings.interval = parseInt(interval);
+                }else{
+                    invalidEnvironmentVariables.push("HIGHS_AND_LOWS_INTERVAL");
+                }
+
+                for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
+                    log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+                }
+            }
+
+            if(!this.highsAndLowsTaskSettings?.interval || this.highsAndLowsTaskSettings?.interval < 1){
+                throw new InvalidRecorderConfigurationError("The highs and lows interval has to be greater or equal to 1.");
+            }
+        }
+    }
+
+    /**
+     * Return whether the highs and lows task is configured.
+     * @returns whether the highs and lows task is configured
+     */
+    public highsAndLowsConfigured = () => this.highsAndLowsTaskSettings !== undefined;
+
+    /**
+     * Return the set up highs and lows task's interval.
+     * @returns the set up highs and lows task's interval
+     */
+    public highsAndLowsInterval = () => this.highsAndLowsTaskSettings?.interval;
+
+    /**
+     * Configures the aggregates task. This is related to the `/api/v1/aggregates` route.
+     * Pass your desired settings to configure and enable the task, pass `false` to disable it.
+     * 
+     * The aggregates are computed from the current conditions recorded while the task is enabled, so the current conditions task has to be configured too.
+     * 
+     * It is also possible to configure your recorder using a `.env` file. To enable this feature pass `useEnvironmentVariables: true`.
+     * 
+     * To start all your configured tasks run `start()`.
+     * @param settings 
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    public configureAggregatesTask = (settings : MinimumAggregatesTaskSettings | false) => {
+        if(!settings){
+            this.aggregatesTaskSettings = undefined;
+        }else{
+            this.aggregatesTaskSettings = merge({}, defaultAggregatesTaskSettings, settings);
+
+            const invalidEnvironmentVariables = [];
+            if(settings.preferEnvironmentVariables){
+                const interval = process.env.AGGREGATES_INTERVAL;
+                if(interval && validator.isInt(interval, { min: 1 })){
+                    this.aggregatesTaskSettings.interval = parseInt(interval);
+                }else{
+                    invalidEnvironmentVariables.push("AGGREGATES_INTERVAL");
+                }
+
+                for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
+                    log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+                }
+            }
+
+            if(!this.aggregatesTaskSettings?.interval || this.aggregatesTaskSettings?.interval < 1){
+                throw new InvalidRecorderConfigurationError("The aggregates interval has to be greater or equal to 1.");
+            }
+        }
+    }
+
+    /**
+     * Return whether the aggregates task is configured.
+     * @returns whether the aggregates task is configured
+     */
+    public aggregatesConfigured = () => this.aggregatesTaskSettings !== undefined;
+
+    /**
+     * Return the set up aggregates task's interval.
+     * @returns the set up aggregates task's interval
+     */
+    public aggregatesInterval = () => this.aggregatesTaskSettings?.interval;
+
+    /**
+     * Configures the maintenance task. The task checks the console's clock (and optionally its archive interval) and resets its daily counters on a schedule,
+     * see {@link MaintenanceTaskSettings}. Pass your desired settings to configure and enable the task, pass `false` to disable it.
+     * 
+     * It is also possible to configure your recorder using a `.env` file. To enable this feature pass `useEnvironmentVariables: true`.
+     * 
+     * To start all your configured tasks run `start()`.
+     * @param settings 
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    public configureMaintenanceTask = (settings : MinimumMaintenanceTaskSettings | false) => {
+        if(!settings){
+            this.maintenanceTaskSettings = undefined;
+        }else{
+            this.maintenanceTaskSettings = merge({}, defaultMaintenanceTaskSettings, settings);
+
+            const invalidEnvironmentVariables = [];
+            if(settings.preferEnvironmentVariables){
+                const interval = process.env.MAINTENANCE_INTERVAL;
+                if(interval && validator.isInt(interval, { min: 1 })){
+                    this.maintenanceTaskSettings.interval = parseInt(interval);
+                }else{
+                    invalidEnvironmentVariables.push("MAINTENANCE_INTERVAL");
+                }
+
+                if(process.env.MAX_CLOCK_DRIFT !== undefined){
+                    if(validator.isFloat(process.env.MAX_CLOCK_DRIFT, { gt: 0 })){
+                        this.maintenanceTaskSettings.maxClockDrift = parseFloat(process.env.MAX_CLOCK_DRIFT);
+                    }else{
+                        invalidEnvironmentVariables.push("MAX_CLOCK_DRIFT");
+                    }
+                }
+
+                if(process.env.ARCHIVE_PERIOD !== undefined){
+                    if(validator.isIn(process.env.ARCHIVE_PERIOD, ArchiveIntervals.map(String))){
+                        this.maintenanceTaskSettings.archiveInterval = parseInt(process.env.ARCHIVE_PERIOD) as ArchiveInterval;
+                    }else{
+                        invalidEnvironmentVariables.push("ARCHIVE_PERIOD");
+                    }
+                }
+
+                if(process.env.DAILY_RESET_TIME !== undefined){
+                    if(TIME_OF_DAY_PATTERN.test(process.env.DAILY_RESET_TIME)){
+                        this.maintenanceTaskSettings.dailyResetTime = process.env.DAILY_RESET_TIME;
+                    }else{
+                        invalidEnvironmentVariables.push("DAILY_RESET_TIME");
+                    }
+                }
+
+                for(const invalidEnvironmentVariable of invalidEnvironmentVariables){
+                    log.warn(`Invalid or missing environment variable '${invalidEnvironmentVariable}'!`)
+                }
+            }
+
+            if(!this.maintenanceTaskSettings?.interval || this.maintenanceTaskSettings?.interval < 1){
+                throw new InvalidRecorderConfigurationError("The maintenance interval has to be greater or equal to 1.");
+            }
+            if(!(this.maintenanceTaskSettings.maxClockDrift > 0)){
+                throw new InvalidRecorderConfigurationError("The maximum clock drift has to be greater than 0.");
+            }
+            if(this.maintenanceTaskSettings.archiveInterval !== undefined && !ArchiveIntervals.includes(this.maintenanceTaskSettings.archiveInterval)){
+                throw new InvalidRecorderConfigurationError(`Invalid archive interval '${this.maintenanceTaskSettings.archiveInterval}' (valid are ${ArchiveIntervals.join(", ")} minutes).`);
+            }
+            if(this.maintenanceTaskSettings.dailyResetTime !== undefined && !TIME_OF_DAY_PATTERN.test(this.maintenanceTaskSettings.dailyResetTime)){
+                throw new InvalidRecorderConfigurationError(`Invalid daily reset time '${this.maintenanceTaskSettings.dailyResetTime}' (expected HH:MM).`);
+            }
+        }
+    }
+
+    /**
+     * Return whether the maintenance task is configured.
+     * @returns whether the maintenance task is configured
+     */
+    public maintenanceConfigured = () => this.maintenanceTaskSettings !== undefined;
+
+    /**
+     * Return the set up maintenance task's interval.
+     * @returns the set up maintenance task's interval
+     */
+    public maintenanceInterval = () => this.maintenanceTaskSettings?.interval;
+
+    /**
+     * Configures all tasks using the task settings of a configuration file. The current conditions task is enabled with its default settings if omitted,
+     * all other omitted tasks are disabled. If the recorder is running, newly enabled tasks are started and disabled tasks are stopped.
+     * @param tasks the task settings
+     * @throws {@link InvalidRecorderConfigurationError} if the settings are invalid
+     */
+    private configureTasks(tasks: TaskConfiguration = {}){
+        const currentConditionsConfigured = this.currentConditionsConfigured();
+        const archiveConfigured = this.archiveConfigured();
+        const highsAndLowsConfigured = this.highsAndLowsConfigured();
+        const aggregatesConfigured = this.aggregatesConfigured();
+        const maintenanceConfigured = this.maintenanceConfigured();
+
+        this.configureCurrentConditionsTask(tasks.currentConditions ?? {});
+        this.configureArchiveTask(tasks.archive ?? false);
+        this.configureHighsAndLowsTask(tasks.highsAndLows ?? false);
+        this.configureAggregatesTask(tasks.aggregates ?? false);
+        this.configureMaintenanceTask(tasks.maintenance ?? false);
+
+        if(!this.running){
+            return;
+        }
+        if(!this.currentConditionsTaskSettings){
+            clearTimeout(this.realtimeRecorderTimeout);
+        }else if(!currentConditionsConfigured){
+            this.updateCurrentConditions();
+        }
+        if(!this.archiveTaskSettings){
+            clearTimeout(this.archiveRecorderTimeout);
+        }else if(!archiveConfigured){
+            this.updateArchive();
+        }
+        if(!this.highsAndLowsTaskSettings){
+            clearTimeout(this.highsAndLowsRecorderTimeout);
+        }else if(!highsAndLowsConfigured){
+            this.updateHighsAndLows();
+        }
+        if(!this.aggregatesTaskSettings){
+            clearTimeout(this.aggregatesRecorderTimeout);
+        }else if(!aggregatesConfigured){
+            this.scheduleAggregates();
+        }
+        if(!this.maintenanceTaskSettings){
+            clearTimeout(this.maintenanceRecorderTimeout);
+        }else if(!maintenanceConfigured){
+            this.updateMaintenance();
+        }
+    }
+
+    /**
+     * Applies the passed configuration (e.g. the changed content of the configuration file) without restarting the recorder or re-opening the connection
+     * to the weather station:
+     * - the log options and connection settings are replaced
+     * - the data quality rules are replaced (if they changed, the previous values are forgotten)
+     * - the configured sinks are closed and re-created if their settings (`sinks`, `api`, `key`, `tls` or `offlineBuffer`) changed. Sinks added using {@link addSink} are kept.
+     * - the tasks are re-configured. Newly enabled tasks are started immediately, disabled tasks are stopped. A changed interval is used after the task's next run.
+     * 
+     * Changes of settings requiring a new connection (`model`, `path`, `address`, `units`, `baudRate`, `rainCollectorSize`, `simulator` and `statusServer`)
+     * are ignored and logged, restart the process to apply them.
+     * @param configuration the new configuration
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration is invalid (the current configuration is kept)
+     */
+    public reload = async(configuration: RecorderConfiguration) => {
+        Recorder.checkSingleStation(configuration);
+        const { tasks, ...recorderSettings } = configuration;
+        const settings = Recorder.resolveSettings(recorderSettings as MinimumRecorderSettings);
+        const current = this.settings as RecorderSettings;
+
+        for(const key of RESTART_REQUIRED_SETTINGS){
+            if(!isDeepStrictEqual(current[key], settings[key])){
+                log.warn(`Changing '${key}' requires a restart, the change is ignored until then!`);
+            }
+        }
+
+        // Everything that may fail is created before the recorder is changed, a failed reload keeps the current configuration
+        const alarmsChanged = !isDeepStrictEqual(current.alarms, settings.alarms);
+        const sinksChanged = SINK_SETTINGS.some(key => !isDeepStrictEqual(current[key], settings[key]));
+        const notifiers = alarmsChanged ? await Recorder.createNotifiers(settings) : undefined;
+        const sinks = sinksChanged ? await Recorder.createSinks(settings) : undefined;
+
+        current.preferEnvironmentVariables = settings.preferEnvironmentVariables;
+        current.logOptions = settings.logOptions;
+        current.connection = settings.connection;
+
+        if(!isDeepStrictEqual(current.dataQuality, settings.dataQuality)){
+            current.dataQuality = settings.dataQuality;
+            this.dataQualityFilter = Recorder.createDataQualityFilter(current);
+        }
+
+        if(notifiers){
+            this.notifiers = notifiers;
+            current.alarms = settings.alarms;
+            this.alarmEvaluator = Recorder.createAlarmEvaluator(current);
+            if(this.running){
+                this.startNoDataCheck();
+            }
+        }
+
+        if(sinks){
+            current.api = settings.api;
+            current.key = settings.key;
+            current.tls = settings.tls;
+            current.offlineBuffer = settings.offlineBuffer;
+            current.sinks = settings.sinks;
+            await this.replaceConfiguredSinks(sinks);
+        }
+
+        this.configureTasks(tasks);
+    }
+
+    private static createDataQualityFilter(settings: DeepReadonly<RecorderSettings>){
+        return settings.dataQuality.enabled ? new DataQualityFilter(settings.dataQuality, settings.units) : undefined;
+    }
+
+    private static createAlarmEvaluator(settings: DeepReadonly<RecorderSettings>){
+        return settings.alarms.rules.length > 0 ? new AlarmEvaluator(settings.alarms.rules) : undefined;
+    }
+
+    /**
+     * Replaces the sinks created from the recorder's settings by the passed ones. The previous sinks are closed.
+     * @param sinks the sinks created from the new settings
+     */
+    private replaceConfiguredSinks = async(sinks: Sink[]) => {
+        const previousSinks = this.configuredSinks;
+        for(const sink of previousSinks){
+            this.removeSink(sink);
+        }
+        this.configuredSinks = sinks;
+        for(const sink of sinks){
+            this.addSink(sink);
+        }
+        log.info(`Re-created sinks: ${sinks.map(sink => sink.name).join(", ")}`);
+        await Recorder.closeSinks(previousSinks);
+    }
+
+    /**
+     * Watches the passed configuration file and applies its content using {@link reload} whenever it changes. An invalid configuration is logged
+     * and ignored (the current configuration is kept). Only one file can be watched at a time.
+     * @param configPath the configuration file
+     */
+    public watchConfigFile = (configPath: string) => {
+        this.unwatchConfigFile();
+        const listener = (current: Stats, previous: Stats) => {
+            if(current.mtimeMs !== previous.mtimeMs || current.size !== previous.size){
+                this.pendingReload = this.pendingReload.then(() => this.reloadConfigFile(configPath));
+            }
+        };
+        watchFile(configPath, { interval: CONFIG_FILE_POLL_INTERVAL * 1000 }, listener);
+        this.configFileWatcher = { path: configPath, listener };
+        log.debug(`Watching configuration file '${configPath}' for changes.`);
+    }
+
+    /**
+     * Stops watching the configuration file. Does nothing if no file is watched.
+     */
+    public unwatchConfigFile = () => {
+        if(this.configFileWatcher){
+            unwatchFile(this.configFileWatcher.path, this.configFileWatcher.listener);
+            this.configFileWatcher = undefined;
+        }
+    }
+
+    private reloadConfigFile = async(configPath: string) => {
+        if(this.closed){
+            return;
+        }
+        log.info(`Configuration file '${configPath}' changed, reloading...`);
+        try{
+            await this.reload(await loadConfigFile(configPath));
+            log.info("Reloaded configuration!");
+        }catch(err){
+            log.error("Failed to reload the configuration file, keeping the current configuration!");
+            log.error(err);
+        }
+    }
+
+    /** Starts the recorder. Tasks that have
+     *  been configured using `configure*Task(...)` will be started.
+     *  
+     *  Does nothing if the recorder already has been started. */
+    public start = () => {
+        if(this.running){
+            return;
+        }
+        this.running = true;
+        log.info("Started recorder!");
+        if (this.currentConditionsTaskSettings) { 
+            this.updateCurrentConditions();
+        }
+        if(this.archiveTaskSettings){
+            this.updateArchive();
+        }
+        if(this.highsAndLowsTaskSettings){
+            this.updateHighsAndLows();
+        }
+        if(this.aggregatesTaskSettings){
+            this.scheduleAggregates();
+        }
+        if(this.maintenanceTaskSettings){
+            this.updateMaintenance();
+        }
+        this.startNoDataCheck();
+        for(const sink of this.sinks){
+            sink.start?.();
+        }
+        this.emit("started");
+    }
+
+    /** Stops the recorder. Clears all currently running recording tasks. 
+     * 
+     *  Does nothing if the recorder already has been stopped.
+    */
+    public stop = () => {
+        if(this.running){
+            log.info("Stopped recorder!")
+            clearTimeout(this.realtimeRecorderTimeout);
+            clearTimeout(this.archiveRecorderTimeout);
+            clearTimeout(this.highsAndLowsRecorderTimeout);
+            clearTimeout(this.aggregatesRecorderTimeout);
+            clearTimeout(this.maintenanceRecorderTimeout);
+            clearInterval(this.noDataCheckInterval);
+            this.uploadCurrentConditionsBatch();
+            for(const sink of this.sinks){
+                sink.stop?.();
+            }
+            this.running = false;
+            this.emit("stopped");
+        }
+    }
+
+    /**
+     * Restarts the recorder. Useful if you changed the recorder's settings while it was already running.
+     */
+    public restart = () => {
+        log.info("Restarting recorder!");
+        this.stop();
+        this.start();
+    }
+
+    /**
+     * Stops the recorder, closes all sinks and the connection to the weather station. The recorder can't be used afterwards.
+     */
+    public close = async() => {
+        this.closed = true;
+        this.unwatchConfigFile();
+        await this.pendingReload;
+        this.stop();
+        try{
+            await withTimeout(this.pendingBatchUpload, BATCH_UPLOAD_TIMEOUT, `Failed to upload the pending batch within ${BATCH_UPLOAD_TIMEOUT}s!`);
+        }catch(err){
+            log.error(err);
+        }
+        try{
+            await withTimeout(this.pendingNotifications, NOTIFICATION_TIMEOUT, `Failed to send the pending alarm notifications within ${NOTIFICATION_TIMEOUT}s!`);
+        }catch(err){
+            log.error(err);
+        }
+        for(const sink of this.sinks){
+            try{
+                await sink.close?.();
+            }catch(err){
+                log.error(`Failed to close sink '${sink.name}'!`);
+                log.error(err);
+            }
+        }
+        await this.statusServer?.close();
+        await this.reconnecting;
+        this.device.removeListener("close", this.onInterfaceClose);
+        await this.device.close();
+    }
+
+    /**
+     * Returns the recorder's health. The recorder is healthy if it is running, the serial connection is open and the last successful read
+     * from the weather station isn't older than the status server's `maxReadAge`.
+     * 
+     * Records buffered by the sinks (e.g. while the api is unreachable) don't affect the health (the recorder keeps recording), they are reported
+     * as `queuedRecords`. The `lastUploadTime` is the time of the last record that has actually been written.
+     * @returns the recorder's health
+     */
+    public getHealth = () => {
+        const serialConnected = this.interface.isPortOpen();
+        const lastReadTime = this.metrics.lastReadTime;
+        const readRecently = lastReadTime !== undefined && Date.now() - lastReadTime.getTime() <= this.settings.statusServer.maxReadAge * 1000;
+        return {
+            healthy: this.running && serialConnected && readRecently,
+            running: this.running,
+            serialConnected,
+            lastReadTime: lastReadTime ?? null,
+            lastUploadTime: this.metrics.lastUploadTime ?? null,
+            queuedRecords: [...this.getQueueSizes().values()].reduce((sum, size) => sum + size, 0),
+        };
+    }
+
+    /**
+     * Returns the recorder's metrics (task runs, reads, uploads, queue depths, ...) in the Prometheus text format.
+     * @returns the recorder's metrics
+     */
+    public getMetrics = () => {
+        return this.metrics.toPrometheus({
+            running: this.running,
+            serialConnected: this.interface.isPortOpen(),
+            queueSizes: this.getQueueSizes(),
+        });
+    }
+
+    /**
+     * Returns the number of records waiting to be written per sink name (only sinks that queue records, e.g. the api sink's offline buffer).
+     */
+    private getQueueSizes(){
+        const queueSizes = new Map<string, number>();
+        for(const sink of this.sinks){
+            if(sink.queueSize){
+                queueSizes.set(sink.name, (queueSizes.get(sink.name) ?? 0) + sink.queueSize());
+            }
+        }
+        return queueSizes;
+    }
+
+    /**
+     * Returns the sink storing the records locally (the first configured SQLite sink).
+     * @returns the SQLite sink or `undefined` if the records aren't stored locally
+     */
+    public getStorage = () => this.sinks.find((sink): sink is SqliteSink => sink instanceof SqliteSink);
+
+    /**
+     * Adds a sink every record is written to (additionally to the configured ones). Use this to write the records to your own destinations.
+     * If the recorder is already running, the sink is started immediately.
+     * @param sink the sink to add
+     */
+    public addSink = (sink: Sink) => {
+        this.sinks.push(sink);
+        if(this.running){
+            sink.start?.();
+        }
+    }
+
+    /**
+     * Removes the passed sink. The sink is stopped but not closed.
+     * @param sink the sink to remove
+     */
+    public removeSink = (sink: Sink) => {
+        const index = this.sinks.indexOf(sink);
+        if(index !== -1){
+            this.sinks.splice(index, 1);
+            sink.stop?.();
+        }
+    }
+
+    /**
+     * Updates the current conditions.
+     * This is done by getting a rich realtime data package using the interface, validating it and sending it to the api using a `POST` request.
+     * @hidden
+     */
+    protected updateCurrentConditions = async() => {
+        // Get rich realtime record
+        let record : RichRealtimeData | undefined;
+        do{
+            try{
+                record = await this.read("current-conditions", () => this.interface.getRichRealtimeData());
+            }catch(err){
+                log.error("Failed to get realtime record from interface.");
+                log.error(err);
+                if(!this.running){
+                    return;
+                }
+                log.info("Retrying...");
+                await sleep(1000);
+            }
+        }while(record == undefined);
+
+        for(const issue of this.dataQualityFilter?.apply(record) ?? []){
+            this.metrics.invalidValue(issue.field, issue.check);
+        }
+        this.notify(this.alarmEvaluator?.evaluate(record) ?? []);
+        if(this.aggregatesTaskSettings){
+            this.aggregator.add(record);
+        }
+
+        // Send post request
+        log.info("New realtime record (" + record.time + ")");
+        this.emit("record", record, "current");
+        if(this.currentConditionsTaskSettings?.uploadMode === "batch"){
+            // Sinks supporting batches receive the record with the next batch, the run succeeded once the batch has been uploaded as well
+            Promise.all([
+                this.write("current", record, "realtime record (" + record.time + ")", this.sinks.filter(sink => !sink.writeBatch)),
+                this.addToCurrentConditionsBatch(record),
+            ]).then((results) => this.metrics.taskCompleted("current-conditions", results.every(succeeded => succeeded)));
+        }else{
+            this.write("current", record, "realtime record (" + record.time + ")")
+                .then((succeeded) => this.metrics.taskCompleted("current-conditions", succeeded));
+        }
+
+        if(!this.running || !this.currentConditionsTaskSettings){
+            return;
+        }
+
+        // Calculate next record time
+        const newRecordTime = new Date(record.time);
+        newRecordTime.setSeconds(record.time.getSeconds() + this.currentConditionsTaskSettings.interval);
+        newRecordTime.setMilliseconds(0);
+        const timeoutTime = newRecordTime.getTime() - record.time.getTime();
+        this.realtimeRecorderTimeout = setTimeout(this.updateCurrentConditions, timeoutTime);
+    }
+
+    /**
+     * Starts checking the no-data alarms periodically (if there are any). The time without current conditions is counted from now.
+     */
+    private startNoDataCheck(){
+        clearInterval(this.noDataCheckInterval);
+        const alarmEvaluator = this.alarmEvaluator;
+        if(alarmEvaluator?.hasNoDataRules){
+            alarmEvaluator.resume();
+            this.noDataCheckInterval = setInterval(() => this.notify(alarmEvaluator.checkNoData()), NO_DATA_CHECK_INTERVAL * 1000);
+        }
+    }
+
+    /**
+     * Sends the passed alarm notifications to all notifiers. The notifiers are independent of each other, a failing notifier doesn't affect the other ones.
+     * @param notifications the notifications
+     */
+    private notify(notifications: AlarmNotification[]){
+        for(const notification of notifications){
+            this.emit("alarm", notification);
+            this.metrics.alarmNotified(notification.rule, notification.state);
+
+            const notifiers = [...this.notifiers];
+            const sent = Promise.allSettled(notifiers.map((notifier) => notifier.notify(notification))).then((results) => {
+                results.forEach((result, index) => {
+                    if(result.status === "rejected"){
+                        this.metrics.notificationFailed(notifiers[index].name);
+                        log.error(`Failed to send the notification of alarm '${notification.rule}' using notifier '${notifiers[index].name}'!`);
+                        log.error(result.reason);
+                    }
+                });
+            });
+            this.pendingNotifications = Promise.all([this.pendingNotifications, sent]).then(() => {});
+        }
+    }
+
+    /**
+     * Adds the passed record to the current batch. The batch is uploaded if it is full, otherwise at the latest after the batch window.
+     * @returns whether the batch containing the record has been uploaded successfully (resolves once it has been uploaded)
+     */
+    private addToCurrentConditionsBatch(record: RichRealtimeData){
+        const settings = this.currentConditionsTaskSettings!;
+        const uploaded = new Promise<boolean>((resolve) => this.currentConditionsBatch.push({ record, uploaded: resolve }));
+        if(this.currentConditionsBatch.length >= settings.batchMaxSize){
+            this.uploadCurrentConditionsBatch();
+        }else if(!this.currentConditionsBatchTimeout){
+            this.currentConditionsBatchTimeout = setTimeout(this.uploadCurrentConditionsBatch, settings.batchWindow * 1000);
+        }
+        return uploaded;
+    }
+
+    /**
+     * Uploads the collected current conditions as one batch to all sinks supporting batches. Does nothing if no records have been collected.
+     */
+    private uploadCurrentConditionsBatch = () => {
+        clearTimeout(this.currentConditionsBatchTimeout);
+        this.currentConditionsBatchTimeout = undefined;
+        const batch = this.currentConditionsBatch;
+        if(batch.length === 0){
+            return;
+        }
+        this.currentConditionsBatch = [];
+
+        const records = batch.map(({ record }) => record);
+        log.info(`Uploading batch of ${records.length} realtime record(s)...`);
+        const upload = this.writeBatch("current", records, `batch of ${records.length} realtime record(s)`, this.sinks.filter(sink => sink.writeBatch))
+            .then((succeeded) => batch.forEach(({ uploaded }) => uploaded(succeeded)));
+        this.pendingBatchUpload = Promise.all([this.pendingBatchUpload, upload]).then(() => {});
+    }
+
+    /**
+     * Updates the archive.
+     * This is done by downloading all archive records newer than the last one written to a sink and passing them to the sinks (oldest first).
+     * The time of the last record written is tracked per sink and stored in the configured state file. A failing sink doesn't hold back the other ones,
+     * it catches up on the next run (without the other sinks receiving the records again).
+     * @hidden
+     */
+    protected updateArchive = async() => {
+        const settings = this.archiveTaskSettings!;
+        let succeeded = false;
+        try{
+            const state = await Recorder.readArchiveState(settings.statePath);
+            const positions = new Map(this.sinks.map(sink => [sink, state.sinks[sink.name] ?? state.lastUploadedRecordTime]));
+            const since = Recorder.earliest([...positions.values()]);
+            log.debug(`Downloading archive records since ${since ?? "the beginning"}...`);
+            const records = await this.read("archive", () => this.interface.getArchiveRecords(since), ARCHIVE_DOWNLOAD_TIMEOUT);
+            if(records.length > 0){
+                log.info(`Downloaded ${records.length} new archive record(s).`);
+            }
+
+            succeeded = true;
+            // The sinks that haven't failed in this run (a failed sink would otherwise receive the records out of order)
+            let remainingSinks = [...positions.keys()];
+            for(const record of records){
+                const sinks = remainingSinks.filter(sink => {
+                    const position = positions.get(sink);
+                    return position === undefined || position < record.time;
+                });
+                if(sinks.length === 0){
+                    continue;
+                }
+
+                this.emit("record", record, "archive");
+                const results = await Promise.all(sinks.map(sink => this.write("archive", record, "archive record (" + record.time + ")", [sink])));
+                sinks.forEach((sink, index) => {
+                    if(results[index]){
+                        positions.set(sink, record.time);
+                    }else{
+                        succeeded = false;
+                        remainingSinks = remainingSinks.filter(remainingSink => remainingSink !== sink);
+                    }
+                });
+                await Recorder.writeArchiveState(settings.statePath, positions);
+                if(remainingSinks.length === 0){
+                    break;
+                }
+            }
+        }catch(err){
+            succeeded = false;
+            log.error("Failed to update the archive.");
+            log.error(err);
+        }
+        this.metrics.taskCompleted("archive", succeeded);
+
+        if(this.running && this.archiveTaskSettings){
+            this.archiveRecorderTimeout = setTimeout(this.updateArchive, this.archiveTaskSettings.interval * 1000);
+        }
+    }
+
+    /**
+     * Updates the highs and lows.
+     * This is done by getting the highs and lows using the interface and sending them to the api using a `POST` request.
+     * @hidden
+     */
+    protected updateHighsAndLows = async() => {
+        let succeeded = false;
+        try{
+            const highsAndLows = await this.read("highs-and-lows", () => this.interface.getHighsAndLows());
+            log.info("New highs and lows");
+            this.emit("record", highsAndLows, "highs-and-lows");
+            succeeded = await this.write("highs-and-lows", highsAndLows, "highs and lows");
+        }catch(err){
+            log.error("Failed to get highs and lows from interface.");
+            log.error(err);
+        }
+        this.metrics.taskCompleted("highs-and-lows", succeeded);
+
+        if(this.running && this.highsAndLowsTaskSettings){
+            this.highsAndLowsRecorderTimeout = setTimeout(this.updateHighsAndLows, this.highsAndLowsTaskSettings.interval * 1000);
+        }
+    }
+
+    /**
+     * Updates the aggregates.
+     * This is done by computing the aggregates of the recorded current conditions and sending them to the api using a `POST` request.
+     * Skipped if no current conditions have been recorded in the last hour.
+     * @hidden
+     */
+    protected updateAggregates = async() => {
+        let succeeded = false;
+        if(this.aggregator.size === 0){
+            log.warn("No current conditions to compute the aggregates from (is the current conditions task configured?)!");
+        }else{
+            const aggregates = this.aggregator.compute();
+            log.info("New aggregates (" + aggregates.time + ")");
+            this.emit("record", aggregates, "aggregates");
+            succeeded = await this.write("aggregates", aggregates, "aggregates (" + aggregates.time + ")");
+        }
+        this.metrics.taskCompleted("aggregates", succeeded);
+        this.scheduleAggregates();
+    }
+
+    /**
+     * Maintains the console.
+     * This is done by comparing the console's clock with the host's clock (and setting it if it drifted too much), restoring the configured archive interval
+     * and resetting the daily counters if the daily reset time passed since the last run. All changes are logged.
+     * @hidden
+     */
+    protected updateMaintenance = async() => {
+        const settings = this.maintenanceTaskSettings!;
+        let succeeded = false;
+        try{
+            const now = await this.read("maintenance", async() => {
+                const consoleTime = await this.interface.getConsoleTime();
+                const drift = (consoleTime.getTime() - Date.now()) / 1000;
+                this.metrics.clockDrift = drift;
+                if(Math.abs(drift) > settings.maxClockDrift){
+                    const time = new Date();
+                    await this.interface.setConsoleTime(time);
+                    this.metrics.clockAdjustments++;
+                    log.info(`Set the console's clock from ${consoleTime.toLocaleString()} to ${time.toLocaleString()} (drifted by ${drift.toFixed(0)}s).`);
+                }else{
+                    log.debug(`The console's clock drifted by ${drift.toFixed(0)}s.`);
+                }
+
+                if(settings.archiveInterval !== undefined){
+                    const archiveInterval = await this.interface.getArchiveInterval();
+                    if(archiveInterval !== settings.archiveInterval){
+                        await this.interface.setArchiveInterval(settings.archiveInterval);
+                        log.warn(`Changed the console's archive interval from ${archiveInterval} to ${settings.archiveInterval} minutes (the console's archive memory has been cleared)!`);
+                    }
+                }
+
+                const now = new Date();
+                if(settings.dailyResetTime && this.lastMaintenanceTime && Recorder.lastDailyReset(settings.dailyResetTime, now) > this.lastMaintenanceTime){
+                    await this.interface.clearDailyValues();
+                    log.info(`Reset the console's daily rain and ET counters and its daily highs and lows (daily reset time: ${settings.dailyResetTime}).`);
+                }
+                return now;
+            }, MAINTENANCE_TIMEOUT);
+            this.lastMaintenanceTime = now;
+            succeeded = true;
+        }catch(err){
+            log.error("Failed to maintain the console.");
+            log.error(err);
+        }
+        this.metrics.taskCompleted("maintenance", succeeded);
+
+        if(this.running && this.maintenanceTaskSettings){
+            this.maintenanceRecorderTimeout = setTimeout(this.updateMaintenance, this.maintenanceTaskSettings.interval * 1000);
+        }
+    }
+
+    /**
+     * Returns the last time the passed daily reset time has been reached (today's or yesterday's).
+     * @param dailyResetTime the daily reset time (`HH:MM`)
+     * @param now the current time
+     */
+    private static lastDailyReset(dailyResetTime: string, now: Date){
+        const [hours, minutes] = dailyResetTime.split(":").map(value => parseInt(value));
+        const reset = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+        if(reset > now){
+            reset.setDate(reset.getDate() - 1);
+        }
+        return reset;
+    }
+
+    /**
+     * Schedules the next run of the aggregates task. Unlike the other tasks the first run is delayed by the interval, so that current conditions are available.
+     */
+    private scheduleAggregates(){
+        if(this.running && this.aggregatesTaskSettings){
+            clearTimeout(this.aggregatesRecorderTimeout);
+            this.aggregatesRecorderTimeout = setTimeout(this.updateAggregates, this.aggregatesTaskSettings.interval * 1000);
+        }
+    }
+
+    /**
+     * Reads the times of the last archive records written to the sinks from the state file.
+     * @param statePath the state file
+     * @returns the times by sink name and the time of the last uploaded record stored by older versions (applies to all sinks without own time).
+     * Both are empty if no record has been written yet.
+     */
+    private static async readArchiveState(statePath: string){
+        const sinks : { [name: string]: Date } = {};
+        try{
+            const state = JSON.parse(await fs.readFile(statePath, "utf-8"));
+            for(const [name, time] of Object.entries(state.sinks ?? {})){
+                sinks[name] = new Date(time as string);
+            }
+            return { sinks, lastUploadedRecordTime: state.lastUploadedRecordTime ? new Date(state.lastUploadedRecordTime) : undefined };
+        }catch(err: any){
+            if(err.code === "ENOENT"){
+                return { sinks, lastUploadedRecordTime: undefined };
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Writes the times of the last archive records written to the sinks to the state file. The file is replaced atomically.
+     * Sinks with the same name share the earliest of their times.
+     * @param statePath the state file
+     * @param positions the time of the last archive record written to each sink (`undefined` if none has been written yet)
+     */
+    private static async writeArchiveState(statePath: string, positions: Map<Sink, Date | undefined>){
+        const sinks : { [name: string]: Date | undefined } = {};
+        for(const name of new Set([...positions.keys()].map(sink => sink.name))){
+            sinks[name] = Recorder.earliest([...positions].filter(([sink]) => sink.name === name).map(([, time]) => time));
+        }
+        await fs.mkdir(path.dirname(statePath), { recursive: true });
+        await fs.writeFile(statePath + ".tmp", JSON.stringify({ sinks }));
+        await fs.rename(statePath + ".tmp", statePath);
+    }
+
+    /**
+     * Returns the earliest of the passed times, `undefined` if one of them is `undefined` (i.e. the beginning of the archive) or no time is passed.
+     */
+    private static earliest(times: (Date | undefined)[]){
+        if(times.length === 0 || times.includes(undefined)){
+            return undefined;
+        }
+        return new Date(Math.min(...times.map(time => time!.getTime())));
+    }
+
+    /**
+     * Runs the passed operation on the interface as soon as all previously requested operations have finished (and a running reconnection is done).
+     * This prevents multiple tasks from talking to the console at the same time. Fails if the operation doesn't finish within the passed timeout,
+     * the next operation isn't run before the timed out one has been abandoned (see {@link abandonOperation}).
+     * @param operation the operation to run
+     * @param timeout the timeout in seconds, default is the configured read timeout
+     * @returns the operation's result
+     * @hidden
+     */
+    protected useInterface = <T>(operation: () => Promise<T>, timeout = this.settings.connection.readTimeout) => {
+        let running : Promise<T> | undefined;
+        let settled = false;
+        const result = this.pendingInterfaceOperation
+            .then(() => this.reconnecting)
+            .then(() => {
+                running = operation();
+                running.then(() => settled = true, () => settled = true);
+                return withTimeout(running, timeout, `The weather station didn't answer within ${timeout}s!`);
+            });
+        this.pendingInterfaceOperation = result.then(() => {}, () => running && !settled ? this.abandonOperation(running, timeout) : undefined);
+        return result;
+    }
+
+    /**
+     * Waits until the passed timed out operation can't interfere with the next one anymore. The operation is still waiting for the console's answer
+     * (vantjs keeps listening on the port) and would consume the data meant for the next operation. Because it might never settle, the connection
+     * is re-established (closing the port) if reconnecting is enabled. Otherwise the operation is waited for at most another `timeout` seconds.
+     * @param operation the timed out operation
+     * @param timeout the operation's timeout in seconds
+     */
+    private abandonOperation = async(operation: Promise<unknown>, timeout: number) => {
+        const settled = operation.then(() => {}, () => {});
+        if(this.settings.connection.reconnect){
+            await Promise.race([settled, this.reconnect()]);
+        }else{
+            await Promise.race([settled, sleep(timeout * 1000)]);
+        }
+    }
+
+    /**
+     * Closes the dead connection to the weather station and re-creates the interface with exponential backoff until it succeeds or the recorder is closed.
+     * Does nothing if a reconnection is already in progress or reconnecting is disabled.
+     * @returns a promise resolving as soon as the reconnection is done
+     * @hidden
+     */
+    protected reconnect = () => {
+        if(!this.reconnecting && !this.closed && this.settings.connection.reconnect){
+            this.reconnecting = this.reestablishConnection().finally(() => this.reconnecting = undefined);
+        }
+        return this.reconnecting ?? Promise.resolve();
+    }
+
+    private reestablishConnection = async() => {
+        log.warn("Lost connection to the weather station! Reconnecting...");
+        this.emit("disconnected");
+
+        const deadDevice = this.device;
+        deadDevice.removeListener("close", this.onInterfaceClose);
+        try{
+            await withTimeout(deadDevice.close(), this.settings.connection.readTimeout, "Closing the dead connection timed out!");
+        }catch(err){
+            log.debug("Failed to close the dead connection.");
+            log.debug(err);
+        }
+
+        let delay = this.settings.connection.initialDelay;
+        for(let attempt = 1; !this.closed; attempt++){
+            try{
+                const device = await Recorder.createDeviceInterface(this.settings);
+                if(this.closed){
+                    await device.close();
+                    return;
+                }
+                device.on("close", this.onInterfaceClose);
+                this.device = device;
+                this.consecutiveReadFailures = 0;
+                this.pendingInterfaceOperation = Promise.resolve();
+                log.info("Re-established connection to the weather station!");
+                this.emit("connected");
+                return;
+            }catch(err){
+                log.error(`Reconnection attempt ${attempt} failed. Retrying in ${delay}s...`);
+                log.error(err);
+                await sleep(delay * 1000);
+                delay = Math.min(delay * 2, this.settings.connection.maxDelay);
+            }
+        }
+    }
+
+    private onInterfaceClose = () => {
+        if(!this.closed){
+            this.reconnect();
+        }
+    }
+
+    /**
+     * Reads data from the weather station using {@link useInterface} and counts the read in the recorder's metrics.
+     * If too many reads in a row fail, the connection is re-established.
+     * @param task the task reading the data
+     * @param operation the read operation
+     * @param timeout the timeout in seconds, default is the configured read timeout
+     * @returns the operation's result
+     * @hidden
+     */
+    protected read = <T>(task: TaskName, operation: () => Promise<T>, timeout?: number) => {
+        return this.useInterface(operation, timeout).then((result) => {
+            this.consecutiveReadFailures = 0;
+            this.metrics.readCompleted(task, true);
+            return result;
+        }, (err) => {
+            this.metrics.readCompleted(task, false);
+            this.emit("readFailed", err, task);
+            if(++this.consecutiveReadFailures >= this.settings.connection.maxFailures){
+                this.reconnect();
+            }
+            throw err;
+        });
+    }
+
+    /**
+     * Writes the passed record to all sinks. The sinks are independent of each other, a failing sink doesn't affect the other ones.
+     * Records a sink skips (resolving with `"skipped"`, e.g. because of a rate limit) aren't counted as uploads and emit no events.
+     * @param kind the record's kind
+     * @param record the record to write
+     * @param description a human readable description of the record used for logging
+     * @param sinks the sinks to write to (default: all sinks)
+     * @returns whether all sinks have written the record successfully (or buffered or skipped it)
+     * @hidden
+     */
+    protected write = async<K extends RecordKind>(kind: K, record: RecordOfKind[K], description: string, sinks = [...this.sinks]) => {
+        const args = [record, kind] as RecordEventArguments;
+        const results = await Promise.allSettled(sinks.map(async(sink) => {
+            const start = performance.now();
+            try{
+                const result = await sink.write(kind, record);
+                if(result === "skipped"){
+                    return;
+                }
+                if(result === "buffered"){
+                    this.metrics.uploadCompleted(sink.name, (performance.now() - start) / 1000, "buffered");
+                    this.emit("uploadBuffered", ...args, sink);
+                }else{
+                    this.metrics.uploadCompleted(sink.name, (performance.now() - start) / 1000, "succeeded");
+                    this.emit("uploaded", ...args, sink);
+                }
+            }catch(err){
+                this.metrics.uploadCompleted(sink.name, (performance.now() - start) / 1000, "failed");
+                this.emit("uploadFailed", err, ...args, sink);
+                throw err;
+            }
+        }));
+        let succeeded = true;
+        results.forEach((result, index) => {
+            if(result.status === "rejected"){
+                succeeded = false;
+                log.error(`Failed to write ${description} to sink '${sinks[index].name}'!`);
+                log.error(result.reason);
+            }
+        });
+        if(succeeded){
+            log.debug(`Sent ${description} successfully!`);
+        }
+        return succeeded;
+    }
+
+    /**
+     * Writes the passed records as one batch to the passed sinks (which have to support batches, see {@link Sink.writeBatch}).
+     * The `uploaded`, `uploadBuffered` and `uploadFailed` events are emitted for every record of the batch.
+     * @param kind the records' kind
+     * @param records the records to write
+     * @param description a human readable description of the batch used for logging
+     * @param sinks the sinks to write to
+     * @returns whether all sinks have written the batch successfully (or buffered or skipped it)
+     * @hidden
+     */
+    protected writeBatch = async<K extends RecordKind>(kind: K, records: RecordOfKind[K][], description: string, sinks: Sink[]) => {
+        const results = await Promise.allSettled(sinks.map(async(sink) => {
+            const start = performance.now();
+            try{
+                const result = await sink.writeBatch!(kind, records);
+                if(result === "skipped"){
+                    return;
+                }
+                this.metrics.uploadCompleted(sink.name, (performance.now() - start) / 1000, result === "buffered" ? "buffered" : "succeeded");
+                for(const record of records){
+                    this.emit(result === "buffered" ? "uploadBuffered" : "uploaded", ...[record, kind] as RecordEventArguments, sink);
+                }
+            }catch(err){
+                this.metrics.uploadCompleted(sink.name, (performance.now() - start) / 1000, "failed");
+                for(const record of records){
+                    this.emit("uploadFailed", err, ...[record, kind] as RecordEventArguments, sink);
+                }
+                throw err;
+            }
+        }));
+        let succeeded = true;
+        results.forEach((result, index) => {
+            if(result.status === "rejected"){
+                succeeded = false;
+                log.error(`Failed to write ${description} to sink '${sinks[index].name}'!`);
+                log.error(result.reason);
+            }
+        });
+        if(succeeded){
+            log.debug(`Sent ${description} successfully!`);
+        }
+        return succeeded;
+    }
+}
+
+/**
+ * Parses a network address (`host:port`, `host` or `[ipv6]:port`). The port defaults to `22222` (the port of the _WeatherLinkIP_ data logger).
+ * @returns the host and port or `undefined` if the address is invalid
+ */
+function parseAddress(address: string){
+    const match = /^(?:\[([^\]]+)\]|([^:\s]+))(?::(\d+))?$/.exec(address.trim());
+    if(!match || (match[3] !== undefined && !validator.isPort(match[3]))){
+        return undefined;
+    }
+    return { host: match[1] ?? match[2], port: match[3] === undefined ? 22222 : parseInt(match[3]) };
+}
+
+/**
+ * Returns whether the passed string is a USB vendor or product id (4 hexadecimal digits).
+ */
+function isUsbId(value: string){
+    return /^[0-9a-f]{4}$/i.test(value);
 }
 
 export default Recorder;
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { HighsAndLows, RichRealtimeData } from "vant-environment/structures";
+import ArchiveRecord from "./structures/ArchiveRecord";
+import AggregatesRecord from "./structures/AggregatesRecord";
+import Sink, { RecordKind } from "./sinks/Sink";
+import { TaskName } from "./status/RecorderMetrics";
+import { AlarmNotification } from "./alarms/AlarmEvaluator";
+
+/**
+ * Describes the events fired by the {@link Recorder}. Listeners are called synchronously and must not throw.
+ * 
+ * **Example**:
+ * ```ts
+ * recorder.on("record", (record, kind) => {
+ *      if(kind === "current"){
+ *          console.log(`It's ${record.tempOut} outside!`);
+ *      }
+ * });
+ * ```
+ */
+export default interface RecorderEvents{
+    /** Fires when a new record has been read from the weather station (before it is written to the sinks). */
+    record: (...args: RecordEventArguments) => void;
+    /** Fires when a record has been written to a sink successfully. */
+    uploaded: (...args: [...RecordEventArguments, sink: Sink]) => void;
+    /** Fires when a sink couldn't write a record immediately and buffered it to write it later on (e.g. the api sink while the api is unreachable). */
+    uploadBuffered: (...args: [...RecordEventArguments, sink: Sink]) => void;
+    /** Fires when a record couldn't be written to a sink. */
+    uploadFailed: (err: unknown, ...args: [...RecordEventArguments, sink: Sink]) => void;
+    /** Fires when an alarm triggered or has been cleared (before the notification is sent), see {@link AlarmSettings}. */
+    alarm: (notification: AlarmNotification) => void;
+    /** Fires when reading data from the weather station failed. */
+    readFailed: (err: unknown, task: TaskName) => void;
+    /** Fires when the connection to the weather station has been re-established. */
+    connected: () => void;
+    /** Fires when the connection to the weather station has been lost (and is going to be re-established). */
+    disconnected: () => void;
+    /** Fires when the recorder has been started. */
+    started: () => void;
+    /** Fires when the recorder has been stopped. */
+    stopped: () => void;
+}
+
+/**
+ * Maps every {@link RecordKind} to the type of its records.
+ */
+export type RecordOfKind = {
+    "current": RichRealtimeData,
+    "archive": ArchiveRecord,
+    "highs-and-lows": HighsAndLows,
+    "aggregates": AggregatesRecord,
+}
+
+/**
+ * The arguments describing a record in the recorder's events: the record and its kind. Checking the kind narrows the record's type.
+ */
+export type RecordEventArguments = { [K in RecordKind]: [record: RecordOfKind[K], kind: K] }[RecordKind];
@@ -0,0 +1,340 @@
+import path from "path";
+import merge from "lodash.merge";
+import mergeWith from "lodash.mergewith";
+import { Stats, unwatchFile, watchFile } from "fs";
+import Recorder from "./Recorder";
+import RecorderConfiguration from "./config/RecorderConfiguration";
+import loadConfigFile from "./config/loadConfigFile";
+import InvalidRecorderConfigurationError from "./InvalidRecorderConfigurationError";
+import MinimumRecorderSettings from "./settings/MinimumRecorderSettings";
+import RecorderSettings, { defaultArchiveTaskSettings, defaultConnectionSettings, defaultOfflineBufferSettings, defaultRecorderSettings } from "./settings/RecorderSettings";
+import { defaultFileSinkSettings, defaultMqttSinkSettings, defaultSqliteSinkSettings, MinimumSinkSettings } from "./settings/SinkSettings";
+import log, { withLogPrefix } from "./log";
+
+/** The interval (in seconds) in which a watched configuration file is checked for changes. */
+const CONFIG_FILE_POLL_INTERVAL = 2;
+
+/**
+ * Records multiple weather stations in one process. Every station is recorded by its own {@link Recorder} using the station's settings
+ * merged with the configuration's shared settings (see {@link RecorderConfiguration}). The stations are independent of each other:
+ * a station whose console can't be reached is retried in the background with exponential backoff while the other stations are recorded.
+ * The log messages of a station are prefixed with its name.
+ *
+ * To keep the stations from overwriting each other's data, the default offline buffer path, archive state path, file sink directory and
+ * MQTT topic prefix / device id are made unique by appending the station's name (unless the station configures them itself).
+ *
+ * To create a recorder group write:
+ * ```ts
+ * const group = await RecorderGroup.createFromConfigFile("./recorder.yaml", true);
+ * group.start();
+ * ```
+ */
+class RecorderGroup{
+    /** The stations' recorders by the stations' names. Stations that couldn't be connected yet are missing. */
+    public readonly recorders = new Map<string, Recorder>();
+
+    private readonly configurations : Map<string, RecorderConfiguration>;
+    private readonly pendingStations = new Map<string, Promise<void>>();
+    private readonly sleepingRetries = new Set<() => void>();
+    private configFileWatcher? : { path: string, listener: (current: Stats, previous: Stats) => void };
+    private pendingReload : Promise<void> = Promise.resolve();
+    private running = false;
+    private closed = false;
+
+    private constructor(configurations: Map<string, RecorderConfiguration>){
+        this.configurations = configurations;
+    }
+
+    /**
+     * Creates a recorder group using the passed configuration file. If `watch` is `true`, the file is watched for changes which are applied
+     * without restarting the stations, see {@link reload}.
+     * @param configPath the configuration file
+     * @param watch whether to watch the configuration file for changes
+     * @returns the recorder group
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration file can't be read or is invalid
+     */
+    public static createFromConfigFile = async(configPath: string, watch = false) => {
+        const group = await RecorderGroup.create(await loadConfigFile(configPath));
+        if(watch){
+            group.watchConfigFile(configPath);
+        }
+        return group;
+    }
+
+    /**
+     * Creates a recorder group using the passed configuration and connects to all stations. Stations that can't be connected are retried in the background.
+     * @param configuration the configuration (has to define `stations`)
+     * @returns the recorder group
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration is invalid
+     */
+    public static create = async(configuration: RecorderConfiguration) => {
+        const configurations = RecorderGroup.resolveStationConfigurations(configuration);
+        const group = new RecorderGroup(configurations);
+        await Promise.all([...configurations.keys()].map(name => withLogPrefix(name, () => group.connectStation(name, true))));
+        return group;
+    }
+
+    /**
+     * Returns the configurations of the stations defined in the passed configuration. Every station's settings are merged with the shared settings
+     * and its default data paths are made unique.
+     * @param configuration the configuration (has to define `stations`)
+     * @returns the stations' configurations by the stations' names
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration doesn't define stations or a station's settings are invalid
+     */
+    public static resolveStationConfigurations(configuration: RecorderConfiguration){
+        const { stations, ...shared } = configuration;
+        if(!stations || stations.length === 0){
+            log.error("The configuration defines no stations!");
+            throw new InvalidRecorderConfigurationError("The configuration defines no stations!");
+        }
+        if(shared.preferEnvironmentVariables){
+            log.error("Environment variables can't be preferred if multiple stations are configured!");
+            throw new InvalidRecorderConfigurationError("Environment variables can't be preferred if multiple stations are configured!");
+        }
+
+        const configurations = new Map<string, RecorderConfiguration>();
+        const statusServerPorts = new Map<number, string>();
+        for(const { name, ...station } of stations){
+            if(configurations.has(name)){
+                log.error(`Multiple stations are named '${name}'!`);
+                throw new InvalidRecorderConfigurationError(`Multiple stations are named '${name}'!`);
+            }
+
+            const stationConfiguration : RecorderConfiguration = mergeWith({}, shared, station, replaceArrays);
+            stationConfiguration.sinks = station.sinks ?? (shared.sinks ?? defaultRecorderSettings.sinks as MinimumSinkSettings[]).map(sink => uniqueSinkSettings(sink, name));
+            if(station.offlineBuffer?.path === undefined){
+                stationConfiguration.offlineBuffer = { ...stationConfiguration.offlineBuffer, path: uniquePath(stationConfiguration.offlineBuffer?.path ?? defaultOfflineBufferSettings.path, name) };
+            }
+            const archive = stationConfiguration.tasks?.archive;
+            if(archive && (!station.tasks?.archive || station.tasks.archive.statePath === undefined)){
+                archive.statePath = uniquePath(archive.statePath ?? defaultArchiveTaskSettings.statePath, name);
+            }
+
+            // Validates the station's settings (without connecting)
+            let settings : RecorderSettings;
+            try{
+                settings = withLogPrefix(name, () => Recorder.resolveSettings(stationConfiguration as MinimumRecorderSettings));
+            }catch(err){
+                throw new InvalidRecorderConfigurationError(`Invalid settings of station '${name}': ${(err as Error).message}`);
+            }
+            if(settings.statusServer.enabled){
+                const other = statusServerPorts.get(settings.statusServer.port);
+                if(other !== undefined){
+                    log.error(`The stations '${other}' and '${name}' use the same status server port ${settings.statusServer.port}!`);
+                    throw new InvalidRecorderConfigurationError(`The stations '${other}' and '${name}' use the same status server port ${settings.statusServer.port}!`);
+                }
+                statusServerPorts.set(settings.statusServer.port, name);
+            }
+
+            configurations.set(name, stationConfiguration);
+        }
+        return configurations;
+    }
+
+    /**
+     * Creates the recorder of the passed station. If the station can't be connected, connecting is retried in the background
+     * with exponential backoff (using the station's connection settings) until it succeeds or the group is closed.
+     * @param name the station's name
+     * @param firstAttempt whether this is the first attempt (the promise of the first attempt resolves after the first attempt)
+     */
+    private connectStation = async(name: string, firstAttempt: boolean) => {
+        const configuration = this.configurations.get(name)!;
+        try{
+            const recorder = await Recorder.createFromConfiguration(configuration);
+            if(this.closed){
+                await recorder.close();
+                return;
+            }
+            this.recorders.set(name, recorder);
+            if(this.running){
+                recorder.start();
+            }
+        }catch(err){
+            if(this.closed){
+                return;
+            }
+            log.error("Failed to connect to the station!");
+            log.error(err);
+            if(firstAttempt){
+                this.pendingStations.set(name, this.retryStation(name).finally(() => this.pendingStations.delete(name)));
+            }else{
+                throw err;
+            }
+        }
+    }
+
+    private retryStation = async(name: string) => {
+        const connection = { ...defaultConnectionSettings, ...this.configurations.get(name)!.connection };
+        let delay = connection.initialDelay;
+        while(!this.closed){
+            log.info(`Retrying to connect in ${delay}s...`);
+            await this.sleep(delay);
+            if(this.closed){
+                return;
+            }
+            try{
+                await this.connectStation(name, false);
+                return;
+            }catch(err){
+                delay = Math.min(delay * 2, connection.maxDelay);
+            }
+        }
+    }
+
+    /**
+     * Waits for the passed time. Closing the group ends the waiting early.
+     * @param seconds the time to wait in seconds
+     */
+    private sleep = (seconds: number) => new Promise<void>((resolve) => {
+        const wake = () => {
+            clearTimeout(timer);
+            this.sleepingRetries.delete(wake);
+            resolve();
+        };
+        const timer = setTimeout(wake, seconds * 1000);
+        this.sleepingRetries.add(wake);
+    });
+
+    /**
+     * Starts the recorders of all stations. Stations connected later on are started as soon as they are connected.
+     */
+    public start = () => {
+        this.running = true;
+        for(const [name, recorder] of this.recorders){
+            withLogPrefix(name, recorder.start);
+        }
+    }
+
+    /**
+     * Stops the recorders of all stations.
+     */
+    public stop = () => {
+        this.running = false;
+        for(const [name, recorder] of this.recorders){
+            withLogPrefix(name, recorder.stop);
+        }
+    }
+
+    /**
+     * Stops retrying to connect stations and closes the recorders of all stations. A station failing to close doesn't keep the other ones from closing.
+     */
+    public close = async() => {
+        this.closed = true;
+        this.running = false;
+        this.unwatchConfigFile();
+        await this.pendingReload;
+        this.sleepingRetries.forEach(wake => wake());
+        await Promise.all(this.pendingStations.values());
+        await Promise.all([...this.recorders].map(([name, recorder]) => withLogPrefix(name, async() => {
+            try{
+                await recorder.close();
+            }catch(err){
+                log.error("Failed to close the recorder!");
+                log.error(err);
+            }
+        })));
+    }
+
+    /**
+     * Applies the passed configuration to all stations without restarting them, see {@link Recorder.reload}. Adding or removing stations
+     * requires a restart, these changes are ignored and logged.
+     * @param configuration the new configuration
+     * @throws {@link InvalidRecorderConfigurationError} if the configuration is invalid (the current configuration is kept)
+     */
+    public reload = async(configuration: RecorderConfiguration) => {
+        const configurations = RecorderGroup.resolveStationConfigurations(configuration);
+        for(const name of configurations.keys()){
+            if(!this.configurations.has(name)){
+                log.warn(`Adding the station '${name}' requires a restart, the change is ignored until then!`);
+            }
+        }
+
+        for(const name of this.configurations.keys()){
+            const stationConfiguration = configurations.get(name);
+            if(!stationConfiguration){
+                log.warn(`Removing the station '${name}' requires a restart, the change is ignored until then!`);
+                continue;
+            }
+            this.configurations.set(name, stationConfiguration);
+            const recorder = this.recorders.get(name);
+            await withLogPrefix(name, async() => await recorder?.reload(stationConfiguration));
+        }
+    }
+
+    /**
+     * Watches the passed configuration file and applies its content using {@link reload} whenever it changes. An invalid configuration is logged
+     * and ignored (the current configuration is kept).
+     * @param configPath the configuration file
+     */
+    public watchConfigFile = (configPath: string) => {
+        this.unwatchConfigFile();
+        const listener = (current: Stats, previous: Stats) => {
+            if(current.mtimeMs !== previous.mtimeMs || current.size !== previous.size){
+                this.pendingReload = this.pendingReload.then(() => this.reloadConfigFile(configPath));
+            }
+        };
+        watchFile(configPath, { interval: CONFIG_FILE_POLL_INTERVAL * 1000 }, listener);
+        this.configFileWatcher = { path: configPath, listener };
+    }
+
+    /**
+     * Stops watching the configuration file. Does nothing if no file is watched.
+     */
+    public unwatchConfigFile = () => {
+        if(this.configFileWatcher){
+            unwatchFile(this.configFileWatcher.path, this.configFileWatcher.listener);
+            this.configFileWatcher = undefined;
+        }
+    }
+
+    private reloadConfigFile = async(configPath: string) => {
+        if(this.closed){
+            return;
+        }
+        log.info(`Configuration file '${configPath}' changed, reloading...`);
+        try{
+            await this.reload(await loadConfigFile(configPath));
+            log.info("Reloaded configuration!");
+        }catch(err){
+            log.error("Failed to reload the configuration file, keeping the current configuration!");
+            log.error(err);
+        }
+    }
+}
+
+/**
+ * Appends the station's name to the directory of the passed file, e.g. `./data/archive-state.json` becomes `./data/garden/archive-state.json`.
+ */
+function uniquePath(file: string, name: string){
+    return path.join(path.dirname(file), name, path.basename(file));
+}
+
+/**
+ * Makes the shared sink settings unique for the passed station, so that multiple stations don't write to the same file or MQTT topics.
+ */
+function uniqueSinkSettings(sink: MinimumSinkSettings, name: string) : MinimumSinkSettings{
+    switch(sink.type){
+        case "file":
+            return { ...sink, directory: path.join(sink.directory ?? defaultFileSinkSettings.directory, name) };
+        case "sqlite":
+            return { ...sink, path: uniquePath(sink.path ?? defaultSqliteSinkSettings.path, name) };
+        case "mqtt":
+            return {
+                ...sink,
+                topicPrefix: `${sink.topicPrefix ?? defaultMqttSinkSettings.topicPrefix}/${name}`,
+                deviceId: `${sink.deviceId ?? defaultMqttSinkSettings.deviceId}-${name}`,
+            };
+        default:
+            return sink;
+    }
+}
+
+/**
+ * Customizes the merge of the shared and the station's settings: arrays replace the arrays merged before instead of being merged element by element,
+ * e.g. a station's alarm rules replace the shared ones. The arrays are copied to keep the stations from sharing them.
+ */
+function replaceArrays(_value: unknown, source: unknown){
+    return Array.isArray(source) ? merge([], source) : undefined;
+}
+
+export default RecorderGroup;
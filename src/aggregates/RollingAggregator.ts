@@ -0,0 +1,237 @@
+import { UnitConfiguration } from "vant-environment/units";
+import { RichRealtimeData } from "vant-environment/structures";
+import { DeepReadonly } from "ts-essentials";
+import AggregatesRecord, { PressureTrend } from "../structures/AggregatesRecord";
+import { DataQualityFlags } from "../quality/DataQualityFilter";
+import { createUnitConverters } from "../units/imperialUnits";
+
+/** The windows of the rolling aggregates in ms. */
+const MINUTE = 60 * 1000;
+const TEN_MINUTES = 10 * MINUTE;
+const HOUR = 60 * MINUTE;
+const THREE_HOURS = 3 * HOUR;
+
+/** How much older (or younger) than three hours the oldest pressure sample may be to compute the three hour trend. */
+const PRESSURE_TREND_TOLERANCE = 10 * MINUTE;
+
+interface Sample{
+    time: number,
+    wind: number | null,
+    tempOut: number | null,
+    rainRate: number | null,
+    /** The rain since the previous sample (computed from the daily rain counter) */
+    rain: number | null,
+    /** The evapotranspiration since the previous sample (computed from the daily ET counter) */
+    et: number | null,
+}
+
+/**
+ * Accumulates the increments of a daily counter of the console (`rainDay`, `etDay`). A decrease of the counter (the console's reset at midnight
+ * or a manual reset) is treated as a reset, so no increments get lost.
+ */
+class DailyCounter{
+    private lastValue? : number;
+    private day? : string;
+    /** The accumulated total of today (`undefined` until the first value has been added) */
+    public total? : number;
+
+    /**
+     * Adds the current value of the counter.
+     * @returns the increment since the previous value (`0` for the first value) or `null` if the value is missing
+     */
+    public add = (value: number | null, time: Date) => {
+        if(value === null){
+            return null;
+        }
+        const day = time.toDateString();
+        let increment : number;
+        if(this.lastValue === undefined){
+            // The console's counter already contains today's amount when the recorder starts
+            increment = 0;
+            this.total = value;
+        }else{
+            increment = value >= this.lastValue ? value - this.lastValue : value;
+            this.total = (day === this.day ? this.total ?? 0 : 0) + increment;
+        }
+        this.lastValue = value;
+        this.day = day;
+        return increment;
+    }
+
+    /**
+     * Returns today's total or `null` if no value has been added today.
+     */
+    public totalOf = (time: Date) => this.day === time.toDateString() ? this.total ?? null : null;
+}
+
+/**
+ * Computes rolling aggregates (wind averages and gusts, temperature extremes, rain and ET totals, pressure trend) from the current conditions.
+ * The aggregates are computed in the units the current conditions are measured in. One aggregator has to be used for the records of one weather
+ * station in chronological order.
+ */
+export default class RollingAggregator{
+    private samples : Sample[] = [];
+    /** One pressure sample per minute of the last three hours */
+    private pressureSamples : { time: number, press: number }[] = [];
+    private readonly rainCounter = new DailyCounter();
+    private readonly etCounter = new DailyCounter();
+    private readonly rapidPressureChange : number;
+    private readonly slowPressureChange : number;
+
+    /**
+     * Creates an aggregator.
+     * @param units the units the current conditions are measured in
+     */
+    constructor(units: DeepReadonly<UnitConfiguration>){
+        const convert = createUnitConverters(units);
+        // The console's thresholds (0.06 and 0.02 inHg in three hours) converted to the configured unit
+        this.rapidPressureChange = convert.pressure(0.06)! - convert.pressure(0)!;
+        this.slowPressureChange = convert.pressure(0.02)! - convert.pressure(0)!;
+    }
+
+    /**
+     * The number of current conditions records of the last hour.
+     */
+    public get size(){
+        return this.samples.length;
+    }
+
+    /**
+     * Adds a (validated) current conditions record. Values flagged as invalid by the data quality filter are ignored.
+     * @param record the current conditions
+     */
+    public add = (record: RichRealtimeData) => {
+        const flags = (record as RichRealtimeData & { qualityFlags?: DataQualityFlags }).qualityFlags ?? {};
+        const value = (field: "wind" | "tempOut" | "rainRate" | "rainDay" | "etDay" | "press") => field in flags ? null : record[field];
+        const time = record.time.getTime();
+
+        this.samples.push({
+            time,
+            wind: value("wind"),
+            tempOut: value("tempOut"),
+            rainRate: value("rainRate"),
+            rain: this.rainCounter.add(value("rainDay"), record.time),
+            et: this.etCounter.add(value("etDay"), record.time),
+        });
+
+        const press = value("press");
+        const lastPressureSample = this.pressureSamples[this.pressureSamples.length - 1];
+        if(press !== null && (!lastPressureSample || time - lastPressureSample.time >= MINUTE)){
+            this.pressureSamples.push({ time, press });
+        }
+        this.prune(time);
+    }
+
+    /**
+     * Computes the aggregates of the added records.
+     * @param time the time the aggregates are computed at (default: now)
+     * @returns the aggregates
+     */
+    public compute = (time = new Date()) : AggregatesRecord => {
+        this.prune(time.getTime());
+        const lastMinute = this.window(time, MINUTE);
+        const lastTenMinutes = this.window(time, TEN_MINUTES);
+        const lastHour = this.samples;
+        const pressChange3h = this.pressureChange(time);
+
+        return {
+            time,
+            samples1h: lastHour.length,
+            windAvg1m: mean(lastMinute, "wind"),
+            windAvg10m: mean(lastTenMinutes, "wind"),
+            windAvg1h: mean(lastHour, "wind"),
+            windGust1m: max(lastMinute, "wind"),
+            windGust10m: max(lastTenMinutes, "wind"),
+            windGust1h: max(lastHour, "wind"),
+            tempOutMin1m: min(lastMinute, "tempOut"),
+            tempOutMax1m: max(lastMinute, "tempOut"),
+            tempOutMean1m: mean(lastMinute, "tempOut"),
+            tempOutMin10m: min(lastTenMinutes, "tempOut"),
+            tempOutMax10m: max(lastTenMinutes, "tempOut"),
+            tempOutMean10m: mean(lastTenMinutes, "tempOut"),
+            tempOutMin1h: min(lastHour, "tempOut"),
+            tempOutMax1h: max(lastHour, "tempOut"),
+            tempOutMean1h: mean(lastHour, "tempOut"),
+            rain1h: sum(lastHour, "rain"),
+            rainDay: round(this.rainCounter.totalOf(time)),
+            rainRateMax1h: max(lastHour, "rainRate"),
+            et1h: sum(lastHour, "et"),
+            etDay: round(this.etCounter.totalOf(time)),
+            pressChange3h: round(pressChange3h),
+            pressTrend3h: pressChange3h === null ? null : this.pressureTrend(pressChange3h),
+        };
+    }
+
+    /**
+     * Returns the samples of the passed window (ending at the passed time).
+     */
+    private window(time: Date, duration: number){
+        const start = time.getTime() - duration;
+        return this.samples.filter(sample => sample.time > start);
+    }
+
+    /**
+     * Returns the pressure change over the last three hours or `null` if the pressure hasn't been recorded for three hours.
+     */
+    private pressureChange(time: Date){
+        const start = time.getTime() - THREE_HOURS;
+        const first = this.pressureSamples[0];
+        const last = this.pressureSamples[this.pressureSamples.length - 1];
+        if(!first || Math.abs(first.time - start) > PRESSURE_TREND_TOLERANCE){
+            return null;
+        }
+        return last.press - first.press;
+    }
+
+    private pressureTrend(change: number) : PressureTrend{
+        if(change <= -this.rapidPressureChange){
+            return "Falling Rapidly";
+        }else if(change <= -this.slowPressureChange){
+            return "Falling Slowly";
+        }else if(change < this.slowPressureChange){
+            return "Steady";
+        }else if(change < this.rapidPressureChange){
+            return "Rising Slowly";
+        }else{
+            return "Rising Rapidly";
+        }
+    }
+
+    /**
+     * Removes the samples that are older than the longest window.
+     */
+    private prune(time: number){
+        this.samples = this.samples.filter(sample => sample.time > time - HOUR);
+        this.pressureSamples = this.pressureSamples.filter(sample => sample.time >= time - THREE_HOURS);
+    }
+}
+
+type NumericField = Exclude<keyof Sample, "time">;
+
+function values(samples: Sample[], field: NumericField){
+    return samples.map(sample => sample[field]).filter((value): value is number => value !== null);
+}
+
+function mean(samples: Sample[], field: NumericField){
+    const list = values(samples, field);
+    return list.length > 0 ? round(list.reduce((total, value) => total + value, 0) / list.length) : null;
+}
+
+function sum(samples: Sample[], field: NumericField){
+    const list = values(samples, field);
+    return list.length > 0 ? round(list.reduce((total, value) => total + value, 0)) : null;
+}
+
+function min(samples: Sample[], field: NumericField){
+    const list = values(samples, field);
+    return list.length > 0 ? round(Math.min(...list)) : null;
+}
+
+function max(samples: Sample[], field: NumericField){
+    const list = values(samples, field);
+    return list.length > 0 ? round(Math.max(...list)) : null;
+}
+
+function round(value: number | null){
+    return value === null ? null : Math.round(value * 1000) / 1000;
+}
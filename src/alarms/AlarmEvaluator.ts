@@ -0,0 +1,161 @@
+import { RichRealtimeData } from "vant-environment/structures";
+import { DeepReadonly } from "ts-essentials";
+import { AlarmRuleSettings } from "../settings/AlarmSettings";
+import log from "../log";
+
+/**
+ * A notification about an alarm that triggered or has been cleared. Posted as JSON by the webhook notifier.
+ */
+export interface AlarmNotification{
+    /** The rule's name. */
+    rule: string,
+    /** The rule's type. */
+    type: AlarmRuleSettings["type"],
+    /** Whether the alarm triggered or has been cleared. */
+    state: "triggered" | "cleared",
+    /** The time the alarm triggered or has been cleared. */
+    time: Date,
+    /** The compared field (threshold rules only). */
+    field?: string,
+    /** The field's value (threshold rules only). */
+    value?: number,
+    /** The rule's threshold (threshold rules) or duration in seconds (no-data rules). */
+    threshold: number,
+    /** A human readable description, e.g. `windGust is above 60 (62)`. */
+    message: string,
+}
+
+interface AlarmState{
+    /** Whether the alarm is active. */
+    active: boolean,
+    /** Whether the activation has been notified. The clearance is only notified if the activation has been notified. */
+    notified: boolean,
+    /** The time of the last notified activation. */
+    lastNotification?: number,
+}
+
+/**
+ * Evaluates the alarm rules on the current conditions and tracks the alarms' states. Returns a notification whenever an alarm triggers
+ * or is cleared, unless the alarm triggered again within its cooldown.
+ */
+export default class AlarmEvaluator{
+    private readonly rules : DeepReadonly<AlarmRuleSettings[]>;
+    private readonly states = new Map<string, AlarmState>();
+    private lastRecordTime : number;
+
+    /**
+     * Creates an evaluator of the passed rules.
+     * @param rules the alarm rules
+     * @param now the time the evaluation starts (no-data rules count from here until the first record)
+     */
+    constructor(rules: DeepReadonly<AlarmRuleSettings[]>, now = new Date()){
+        this.rules = rules;
+        this.lastRecordTime = now.getTime();
+        for(const rule of rules){
+            this.states.set(rule.name, { active: false, notified: false });
+        }
+    }
+
+    /**
+     * Whether there are rules to check periodically (no-data rules).
+     */
+    public get hasNoDataRules(){
+        return this.rules.some(rule => rule.type === "no-data");
+    }
+
+    /**
+     * Restarts counting the time without current conditions (e.g. when the recorder is started again).
+     * @param now the current time
+     */
+    public resume = (now = new Date()) => {
+        this.lastRecordTime = now.getTime();
+    }
+
+    /**
+     * Evaluates the threshold rules on the passed record and clears active no-data alarms.
+     * @param record the (validated) current conditions
+     * @param now the time the record arrived. The host's clock is used instead of the record's time (the console's clock), which may drift
+     * and must not be compared with the time passed to {@link checkNoData}.
+     * @returns the notifications to send
+     */
+    public evaluate = (record: RichRealtimeData, now = new Date()) => {
+        const time = now;
+        this.lastRecordTime = time.getTime();
+        const notifications : AlarmNotification[] = [];
+
+        for(const rule of this.rules){
+            const state = this.states.get(rule.name)!;
+            if(rule.type === "no-data"){
+                if(state.active){
+                    this.update(rule, state, false, time, notifications, { message: "Receiving current conditions again" });
+                }
+                continue;
+            }
+
+            const value = (record as unknown as Record<string, unknown>)[rule.field];
+            if(typeof value !== "number"){
+                continue;
+            }
+            let active : boolean;
+            if(rule.type === "above"){
+                active = state.active ? value > rule.value - rule.hysteresis : value > rule.value;
+            }else{
+                active = state.active ? value < rule.value + rule.hysteresis : value < rule.value;
+            }
+            if(active !== state.active){
+                const message = active ? `${rule.field} is ${rule.type} ${rule.value} (${value})` : `${rule.field} is back to ${value} (threshold: ${rule.value})`;
+                this.update(rule, state, active, time, notifications, { field: rule.field, value, message });
+            }
+        }
+        return notifications;
+    }
+
+    /**
+     * Checks the no-data rules.
+     * @param now the current time
+     * @returns the notifications to send
+     */
+    public checkNoData = (now = new Date()) => {
+        const notifications : AlarmNotification[] = [];
+        for(const rule of this.rules){
+            const state = this.states.get(rule.name)!;
+            if(rule.type === "no-data" && !state.active && now.getTime() - this.lastRecordTime > rule.duration * 1000){
+                const since = new Date(this.lastRecordTime);
+                this.update(rule, state, true, now, notifications, { message: `No current conditions since ${since.toLocaleString()}` });
+            }
+        }
+        return notifications;
+    }
+
+    /**
+     * Changes the alarm's state and adds a notification unless the alarm triggered within its cooldown (or its activation hasn't been notified).
+     */
+    private update(rule: DeepReadonly<AlarmRuleSettings>, state: AlarmState, active: boolean, time: Date, notifications: AlarmNotification[], details: Pick<AlarmNotification, "field" | "value" | "message">){
+        state.active = active;
+        if(active){
+            if(state.lastNotification !== undefined && time.getTime() - state.lastNotification < rule.cooldown * 1000){
+                log.info(`Alarm '${rule.name}' triggered again within its cooldown: ${details.message}`);
+                state.notified = false;
+                return;
+            }
+            log.warn(`Alarm '${rule.name}' triggered: ${details.message}!`);
+            state.notified = true;
+            state.lastNotification = time.getTime();
+        }else{
+            log.info(`Alarm '${rule.name}' cleared: ${details.message}.`);
+            if(!state.notified){
+                return;
+            }
+            state.notified = false;
+        }
+
+        notifications.push({
+            rule: rule.name,
+            type: rule.type,
+            state: active ? "triggered" : "cleared",
+            time,
+            threshold: rule.type === "no-data" ? rule.duration : rule.value,
+            ...details,
+        });
+    }
+}
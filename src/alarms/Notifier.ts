@@ -0,0 +1,16 @@
+import { AlarmNotification } from "./AlarmEvaluator";
+
+/**
+ * A destination the alarm notifications are sent to, e.g. a webhook or an email address.
+ * Every notification is passed to all configured notifiers. A failing notifier doesn't affect the other ones.
+ */
+export default interface Notifier{
+    /** A human readable name of the notifier, used for logging. */
+    readonly name: string;
+
+    /**
+     * Sends the passed notification. Should reject if the notification could not be sent.
+     * @param notification the notification
+     */
+    notify(notification: AlarmNotification): Promise<void>;
+}
@@ -0,0 +1,237 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+import { DeepReadonly } from "ts-essentials";
+import { SmtpNotifierSettings } from "../settings/AlarmSettings";
+import { defaultTlsSettings } from "../settings/RecorderSettings";
+import loadTlsOptions, { TlsOptions } from "../utils/loadTlsOptions";
+import { AlarmNotification } from "./AlarmEvaluator";
+import Notifier from "./Notifier";
+
+/** The timeout (in milliseconds) of a whole SMTP session. */
+const SESSION_TIMEOUT = 30000;
+
+interface Reply{
+    code: number,
+    lines: string[],
+}
+
+/**
+ * Sends every notification as plain text email via SMTP. For every notification a short SMTP session is opened: greet the server (`EHLO`),
+ * upgrade the connection using `STARTTLS` (if not connected using TLS and supported by the server), authenticate (`AUTH PLAIN`) and send the email.
+ *
+ * Create an instance using {@link SmtpNotifier.create}.
+ */
+export default class SmtpNotifier implements Notifier{
+    public readonly name = "smtp";
+    public readonly settings : DeepReadonly<SmtpNotifierSettings>;
+
+    private readonly tlsOptions : TlsOptions;
+
+    private constructor(settings: DeepReadonly<SmtpNotifierSettings>, tlsOptions: TlsOptions){
+        this.settings = settings;
+        this.tlsOptions = tlsOptions;
+    }
+
+    /**
+     * Creates an email notifier. Loads the configured CA file.
+     * @param settings the notifier's settings
+     * @throws {@link InvalidRecorderConfigurationError} if the CA file can't be read
+     */
+    public static create = async(settings: DeepReadonly<SmtpNotifierSettings>) => {
+        const tlsOptions = await loadTlsOptions({ ...defaultTlsSettings, caPath: settings.caPath, insecure: settings.insecure });
+        return new SmtpNotifier(settings, tlsOptions);
+    }
+
+    public notify = async(notification: AlarmNotification) => {
+        const subject = `[vant-recorder] Alarm '${notification.rule}' ${notification.state}`;
+        const body = [
+            `${notification.message}.`,
+            "",
+            `Alarm: ${notification.rule} (${notification.type})`,
+            `State: ${notification.state}`,
+            `Time: ${new Date(notification.time).toLocaleString()}`,
+        ].join("\n");
+        await this.send(this.createMessage(subject, body));
+    }
+
+    /**
+     * Creates an RFC 5322 message with the passed subject and plain text body.
+     * @param subject the subject
+     * @param body the body
+     * @returns the message (lines separated by CRLF)
+     */
+    public createMessage = (subject: string, body: string) => {
+        const headers = [
+            `From: ${this.settings.from}`,
+            `To: ${this.settings.to.join(", ")}`,
+            `Subject: ${encodeHeader(subject)}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${randomUUID()}@${os.hostname()}>`,
+            "MIME-Version: 1.0",
+            "Content-Type: text/plain; charset=utf-8",
+            "Content-Transfer-Encoding: 8bit",
+        ];
+        return [...headers, "", ...body.split(/\r?\n/)].join("\r\n");
+    }
+
+    private async send(message: string){
+        const { host, port } = this.settings;
+        const connection = new SmtpConnection(this.settings.secure
+            ? tls.connect({ host, port, servername: host, ...this.tlsOptions })
+            : net.createConnection({ host, port }), `${host}:${port}`);
+
+        try{
+            await connection.reply(220);
+            let extensions = (await connection.command(`EHLO ${os.hostname()}`, 250)).lines;
+            let encrypted = this.settings.secure;
+            if(!encrypted && extensions.some(extension => extension.toUpperCase() === "STARTTLS")){
+                await connection.command("STARTTLS", 220);
+                await connection.upgrade({ servername: host, ...this.tlsOptions });
+                extensions = (await connection.command(`EHLO ${os.hostname()}`, 250)).lines;
+                encrypted = true;
+            }
+
+            if(this.settings.username !== undefined){
+                if(!encrypted && !this.settings.insecure){
+                    throw new Error(`The SMTP server '${host}:${port}' doesn't support STARTTLS, refusing to send the password unencrypted!`);
+                }
+                const credentials = Buffer.from(`\0${this.settings.username}\0${this.settings.password ?? ""}`).toString("base64");
+                await connection.command(`AUTH PLAIN ${credentials}`, 235);
+            }
+
+            await connection.command(`MAIL FROM:<${this.settings.from}>`, 250);
+            for(const recipient of this.settings.to){
+                await connection.command(`RCPT TO:<${recipient}>`, 250, 251);
+            }
+            await connection.command("DATA", 354);
+            // Lines starting with a dot are escaped (dot-stuffing), a single dot ends the message
+            await connection.command(message.replace(/^\./gm, "..") + "\r\n.", 250);
+            await connection.command("QUIT", 221);
+        }finally{
+            connection.close();
+        }
+    }
+}
+
+/**
+ * A connection to an SMTP server that sends commands and reads the (possibly multiline) replies.
+ */
+class SmtpConnection{
+    private socket : net.Socket;
+    private readonly server : string;
+    private received = "";
+    private lines : string[] = [];
+    private pending? : { resolve: (reply: Reply) => void, reject: (err: Error) => void };
+    private replies : Reply[] = [];
+    private error? : Error;
+
+    constructor(socket: net.Socket, server: string){
+        this.server = server;
+        this.socket = this.attach(socket);
+    }
+
+    /**
+     * Sends a command and waits for the reply.
+     * @param command the command (without CRLF)
+     * @param expected the expected reply codes
+     * @returns the reply
+     */
+    public command = (command: string, ...expected: number[]) => {
+        this.socket.write(command + "\r\n");
+        return this.reply(...expected);
+    }
+
+    /**
+     * Waits for the next reply.
+     * @param expected the expected reply codes
+     * @returns the reply
+     * @throws if the reply has another code
+     */
+    public reply = async(...expected: number[]) => {
+        const reply = await this.next();
+        if(!expected.includes(reply.code)){
+            throw new Error(`The SMTP server '${this.server}' replied ${reply.code} ${reply.lines.join(" ")}`);
+        }
+        return reply;
+    }
+
+    /**
+     * Upgrades the connection to TLS (after `STARTTLS`).
+     * @param options the TLS options
+     * @throws if the server sent more than the reply to `STARTTLS`. These unencrypted lines could have been injected by a man in the middle
+     * and must not be taken as replies to the encrypted commands.
+     */
+    public upgrade = (options: tls.ConnectionOptions) => new Promise<void>((resolve, reject) => {
+        if(this.received || this.lines.length > 0 || this.replies.length > 0){
+            reject(new Error(`The SMTP server '${this.server}' sent unexpected data before the TLS handshake!`));
+            return;
+        }
+        this.socket.removeAllListeners("data");
+        const secureSocket = tls.connect({ ...options, socket: this.socket }, () => resolve());
+        secureSocket.once("error", reject);
+        this.socket = this.attach(secureSocket);
+    });
+
+    public close = () => {
+        this.socket.destroy();
+    }
+
+    private attach(socket: net.Socket){
+        socket.setTimeout(SESSION_TIMEOUT, () => socket.destroy(new Error(`SMTP session with '${this.server}' timed out!`)));
+        socket.on("data", (chunk) => this.onData(chunk.toString("utf-8")));
+        socket.on("error", (err) => this.fail(err));
+        socket.on("close", () => this.fail(new Error(`The SMTP server '${this.server}' closed the connection!`)));
+        return socket;
+    }
+
+    private next(){
+        const reply = this.replies.shift();
+        if(reply){
+            return Promise.resolve(reply);
+        }
+        if(this.error){
+            return Promise.reject(this.error);
+        }
+        return new Promise<Reply>((resolve, reject) => this.pending = { resolve, reject });
+    }
+
+    private onData(data: string){
+        this.received += data;
+        let index : number;
+        while((index = this.received.indexOf("\r\n")) >= 0){
+            const line = this.received.slice(0, index);
+            this.received = this.received.slice(index + 2);
+            this.lines.push(line.slice(4));
+            // The last line of a reply has a space (or nothing) after the code, the other lines a dash
+            if(line.charAt(3) !== "-"){
+                const reply = { code: parseInt(line.slice(0, 3)), lines: this.lines };
+                this.lines = [];
+                if(this.pending){
+                    const { resolve } = this.pending;
+                    this.pending = undefined;
+                    resolve(reply);
+                }else{
+                    this.replies.push(reply);
+                }
+            }
+        }
+    }
+
+    private fail(err: Error){
+        this.error ??= err;
+        if(this.pending){
+            const { reject } = this.pending;
+            this.pending = undefined;
+            reject(err);
+        }
+    }
+}
+
+/**
+ * Encodes a header value containing non-ASCII characters (RFC 2047).
+ */
+function encodeHeader(value: string){
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
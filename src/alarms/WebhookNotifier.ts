@@ -0,0 +1,32 @@
+import superagent from "superagent";
+import { DeepReadonly } from "ts-essentials";
+import { WebhookNotifierSettings } from "../settings/AlarmSettings";
+import { AlarmNotification } from "./AlarmEvaluator";
+import Notifier from "./Notifier";
+
+/** The timeout (in milliseconds) of a webhook request. */
+const REQUEST_TIMEOUT = 15000;
+
+/**
+ * Posts every notification as JSON (see {@link AlarmNotification}) to a webhook.
+ */
+export default class WebhookNotifier implements Notifier{
+    public readonly name = "webhook";
+    public readonly settings : DeepReadonly<WebhookNotifierSettings>;
+
+    constructor(settings: DeepReadonly<WebhookNotifierSettings>){
+        this.settings = settings;
+    }
+
+    public notify = async(notification: AlarmNotification) => {
+        const res = await superagent
+            .post(this.settings.url)
+            .set(this.settings.headers)
+            .send(notification)
+            .timeout(REQUEST_TIMEOUT)
+            .ok(() => true);
+        if(!res.ok){
+            throw new Error(`The webhook '${this.settings.url}' responded with status ${res.status}: ${res.text}`);
+        }
+    }
+}
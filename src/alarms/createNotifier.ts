@@ -0,0 +1,21 @@
+import { DeepReadonly } from "ts-essentials";
+import { NotifierSettings } from "../settings/AlarmSettings";
+import Notifier from "./Notifier";
+import SmtpNotifier from "./SmtpNotifier";
+import WebhookNotifier from "./WebhookNotifier";
+
+/**
+ * Creates the notifier described by the passed notifier settings.
+ * @param settings the notifier's settings
+ * @returns the created notifier
+ * @throws {@link InvalidRecorderConfigurationError} if a file configured for the notifier can't be read
+ * @hidden
+ */
+export default async function createNotifier(settings: DeepReadonly<NotifierSettings>) : Promise<Notifier>{
+    switch(settings.type){
+        case "webhook":
+            return new WebhookNotifier(settings);
+        case "smtp":
+            return await SmtpNotifier.create(settings);
+    }
+}
@@ -0,0 +1,96 @@
+import { parseArgs } from "util";
+import { SerialPort } from "serialport";
+import Recorder from "../Recorder";
+import RecorderGroup from "../RecorderGroup";
+import ApiSink from "../sinks/ApiSink";
+import MinimumRecorderSettings from "../settings/MinimumRecorderSettings";
+import RecorderSettings from "../settings/RecorderSettings";
+import loadConfiguration from "./loadConfiguration";
+
+/**
+ * `vant-recorder check [--config <path>]`: Validates the configuration and checks whether the api is reachable and accepts the api key.
+ * If multiple stations are configured, every station is checked. Doesn't connect to the weather stations.
+ * @param args the command's arguments
+ * @returns the exit code (`1` if a check failed)
+ * @hidden
+ */
+export default async function check(args: string[]){
+    const { values } = parseArgs({ args, options: { config: { type: "string", short: "c" } } });
+
+    const stations = new Map<string | undefined, RecorderSettings>();
+    try{
+        const { configuration, configPath } = await loadConfiguration(values.config);
+        console.log(`Configuration: ${configPath ?? "environment variables (.env)"}`);
+        if(configuration.stations){
+            for(const [name, { tasks, ...recorderSettings }] of RecorderGroup.resolveStationConfigurations(configuration)){
+                stations.set(name, Recorder.resolveSettings(recorderSettings as MinimumRecorderSettings));
+            }
+        }else{
+            const { tasks, ...recorderSettings } = configuration;
+            stations.set(undefined, Recorder.resolveSettings(recorderSettings as MinimumRecorderSettings));
+        }
+    }catch(err){
+        console.log(`FAILED  The configuration is invalid: ${(err as Error).message}`);
+        return 1;
+    }
+    console.log("OK      The configuration is valid.");
+
+    let succeeded = true;
+    for(const [name, settings] of stations){
+        if(name !== undefined){
+            console.log(`\nStation '${name}':`);
+        }
+        succeeded = await checkStation(settings) && succeeded;
+    }
+    return succeeded ? 0 : 1;
+}
+
+async function checkStation(settings: RecorderSettings){
+    console.log(`        Weather station: ${describeConnection(settings)}`);
+    console.log(`        Sinks: ${settings.sinks.map(sink => sink.type).join(", ")}`);
+    if(settings.alarms.rules.length > 0){
+        console.log(`        Alarms: ${settings.alarms.rules.map(rule => rule.name).join(", ")} (notifiers: ${settings.alarms.notifiers.map(notifier => notifier.type).join(", ") || "none"})`);
+    }
+
+    let succeeded = true;
+    if(settings.model !== "Simulator" && !settings.address && settings.path){
+        const ports = await SerialPort.list().catch(() => []);
+        if(!ports.some(port => port.path === settings.path)){
+            console.log(`WARN    No serial device detected at '${settings.path}' (detected: ${ports.map(port => port.path).join(", ") || "none"}).`);
+        }
+    }
+
+    if(settings.sinks.some(sink => sink.type === "api")){
+        if(settings.tls.insecure){
+            console.log("WARN    The api's TLS certificate isn't verified (insecure mode).");
+        }
+        try{
+            const status = await ApiSink.check(settings);
+            if(status === 401 || status === 403){
+                succeeded = false;
+                console.log(`FAILED  The api '${settings.api}' rejected the api key (status ${status}).`);
+            }else if(status < 500){
+                console.log(`OK      The api '${settings.api}' is reachable using the api key (status ${status}).`);
+            }else{
+                succeeded = false;
+                console.log(`FAILED  The api '${settings.api}' answered with status ${status}.`);
+            }
+        }catch(err){
+            succeeded = false;
+            console.log(`FAILED  The api '${settings.api}' is unreachable: ${(err as Error).message}`);
+        }
+    }
+
+    return succeeded;
+}
+
+function describeConnection(settings: RecorderSettings){
+    if(settings.model === "Simulator"){
+        return "simulator";
+    }
+    if(settings.address){
+        return `${settings.model} at ${settings.address} (network)`;
+    }
+    const usbId = settings.connection.vendorId || settings.connection.productId ? ` (USB ${settings.connection.vendorId ?? "*"}:${settings.connection.productId ?? "*"})` : "";
+    return `${settings.model} at ${settings.path || "-"}${usbId}, ${settings.baudRate} baud, rain collector ${settings.rainCollectorSize}`;
+}
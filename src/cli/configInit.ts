@@ -0,0 +1,172 @@
+import { parseArgs } from "util";
+import readline from "readline";
+import fs from "fs/promises";
+import validator from "validator";
+import { SerialPort } from "serialport";
+import { BaudRates, RainCollectorSizes } from "vant-environment/structures";
+import { defaultUnitSettings, PressureUnits, RainUnits, SolarRadiationUnits, TemperatureUnits, WindUnits } from "vant-environment/units";
+import { RecorderModels } from "../settings/RecorderSettings";
+import { SinkTypes } from "../settings/SinkSettings";
+
+/**
+ * `vant-recorder config init [--output <path>]`: Asks for the recorder's settings and writes them to a `.env` file (default: `./.env`).
+ * @param args the command's arguments
+ * @returns the exit code
+ * @hidden
+ */
+export default async function configInit(args: string[]){
+    const { values } = parseArgs({ args, options: { output: { type: "string", short: "o" } } });
+    const output = values.output ?? ".env";
+
+    const prompt = new Prompt();
+    try{
+        if(await exists(output) && !await prompt.confirm(`'${output}' already exists. Overwrite it?`, false)){
+            return 1;
+        }
+
+        const env = new Map<string, string>();
+        const model = await prompt.choose("Weather station model", RecorderModels, "Pro2");
+        env.set("MODEL", model);
+
+        if(model !== "Simulator"){
+            const connection = await prompt.choose("Connection", ["serial", "network"], "serial");
+            if(connection === "serial"){
+                const ports = await SerialPort.list().catch(() => []);
+                if(ports.length > 0){
+                    console.log("Detected serial ports: " + ports.map(port => port.path).join(", "));
+                }
+                env.set("SERIAL_PATH", await prompt.ask("Serial path", { defaultAnswer: ports[0]?.path }));
+                env.set("BAUD_RATE", await prompt.choose("Baud rate (run `vant-recorder probe <path>` to detect it)", BaudRates.map(String), "19200"));
+            }else{
+                env.set("STATION_ADDRESS", await prompt.ask("Network address of the data logger / bridge (host:port)", { validate: answer => /^\S+$/.test(answer) }));
+                env.set("BAUD_RATE", "19200");
+            }
+            env.set("RAIN_COLLECTOR_SIZE", await prompt.choose("Rain collector size", RainCollectorSizes, "0.2mm"));
+        }
+
+        const sinks = (await prompt.ask(`Sinks (comma separated, available are ${SinkTypes.join(", ")})`, {
+            defaultAnswer: "api",
+            validate: answer => answer.split(",").every(type => SinkTypes.includes(type.trim())),
+        })).split(",").map(type => type.trim());
+        env.set("SINKS", sinks.join(","));
+
+        if(sinks.includes("api")){
+            env.set("API", await prompt.ask("Api url", { defaultAnswer: "http://localhost:8000/api", validate: answer => validator.isURL(answer, { require_tld: false }) }));
+            env.set("API_KEY", await prompt.ask("Api key"));
+            if(await prompt.confirm("Upload the current conditions in compressed batches (saves bandwidth on metered connections)?", false)){
+                env.set("CURRENT_CONDITIONS_UPLOAD_MODE", "batch");
+                env.set("CURRENT_CONDITIONS_BATCH_WINDOW", await prompt.ask("Batch window in seconds", { defaultAnswer: "60", validate: answer => validator.isInt(answer, { min: 1 }) }));
+            }
+        }
+        if(sinks.includes("mqtt")){
+            env.set("MQTT_URL", await prompt.ask("MQTT broker url", {
+                defaultAnswer: "mqtt://localhost:1883",
+                validate: answer => validator.isURL(answer, { protocols: ["mqtt", "mqtts", "ws", "wss", "tcp", "tls"], require_tld: false }),
+            }));
+            env.set("MQTT_HOME_ASSISTANT", String(await prompt.confirm("Publish Home Assistant discovery messages?", false)));
+        }
+        if(sinks.includes("file")){
+            env.set("FILE_SINK_DIRECTORY", await prompt.ask("Directory of the record files", { defaultAnswer: "./data/records" }));
+            env.set("FILE_SINK_FORMAT", await prompt.choose("Format of the record files", ["jsonl", "csv"], "jsonl"));
+        }
+        for(const network of ["wunderground", "pwsweather"]){
+            if(sinks.includes(network)){
+                env.set(`${network.toUpperCase()}_STATION_ID`, await prompt.ask(`${network} station id`));
+                env.set(`${network.toUpperCase()}_PASSWORD`, await prompt.ask(`${network} password / api key`));
+            }
+        }
+        if(sinks.includes("sqlite")){
+            env.set("SQLITE_SINK_PATH", await prompt.ask("Path of the SQLite database", { defaultAnswer: "./data/records.db" }));
+            env.set("SQLITE_SINK_RETENTION", await prompt.ask("Days the records are kept (0 keeps them forever)", {
+                defaultAnswer: "365",
+                validate: answer => validator.isFloat(answer, { min: 0 }),
+            }));
+        }
+        if(sinks.includes("cwop")){
+            env.set("CWOP_STATION_ID", await prompt.ask("CWOP station id (e.g. EW1234)"));
+            env.set("CWOP_LATITUDE", await prompt.ask("Latitude of the weather station", { validate: answer => validator.isFloat(answer, { min: -90, max: 90 }) }));
+            env.set("CWOP_LONGITUDE", await prompt.ask("Longitude of the weather station", { validate: answer => validator.isFloat(answer, { min: -180, max: 180 }) }));
+        }
+
+        const units : Record<keyof typeof defaultUnitSettings, string> = { ...defaultUnitSettings };
+        if(await prompt.confirm(`Change the units (${Object.values(units).join(", ")})? They have to match your vant-api's units`, false)){
+            units.rain = await prompt.choose("Rain unit", RainUnits, units.rain);
+            units.temperature = await prompt.choose("Temperature unit", TemperatureUnits, units.temperature);
+            units.pressure = await prompt.choose("Pressure unit", PressureUnits, units.pressure);
+            units.solarRadiation = await prompt.choose("Solar radiation unit", SolarRadiationUnits, units.solarRadiation);
+            units.wind = await prompt.choose("Wind unit", WindUnits, units.wind);
+        }
+        env.set("RAIN_UNIT", units.rain);
+        env.set("TEMPERATURE_UNIT", units.temperature);
+        env.set("PRESSURE_UNIT", units.pressure);
+        env.set("SOLAR_RADIATION_UNIT", units.solarRadiation);
+        env.set("WIND_UNIT", units.wind);
+
+        env.set("ARCHIVE_TASK", String(await prompt.confirm("Upload the station's archive records?", true)));
+        env.set("HIGHS_AND_LOWS_TASK", String(await prompt.confirm("Upload the highs and lows?", true)));
+        env.set("MAINTENANCE_TASK", String(await prompt.confirm("Keep the console's clock in sync with this computer's clock?", true)));
+        env.set("AGGREGATES_TASK", String(await prompt.confirm("Compute and upload aggregates (wind averages, rain totals, pressure trend)?", false)));
+        env.set("STATUS_SERVER", String(await prompt.confirm(`Start the status server (/health and /metrics${sinks.includes("sqlite") ? ", /records" : ""})?`, false)));
+
+        env.set("LOG_LEVEL", await prompt.choose("Log level", ["debug", "info", "warn", "error"], "info"));
+        env.set("CONSOLE_LOG", "true");
+        env.set("FILE_LOG", "true");
+        env.set("LOG_ERROR_INFORMATION", "true");
+
+        const content = [...env].map(([key, value]) => `${key}=${quote(value)}`).join("\n") + "\n";
+        await fs.writeFile(output, content);
+        console.log(`\nWrote '${output}'. Run \`vant-recorder check\` to check your configuration and \`vant-recorder read-once\` to test the connection to your weather station.`);
+        return 0;
+    }finally{
+        prompt.close();
+    }
+}
+
+/**
+ * Asks questions on the terminal. The answers are read line by line (this also works with piped input). Rejects if the input ends (e.g. on ctrl+d).
+ */
+class Prompt{
+    private readonly rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+    private readonly lines = this.rl[Symbol.asyncIterator]();
+
+    public ask = async(question: string, options: { defaultAnswer?: string, validate?: (answer: string) => boolean } = {}) : Promise<string> => {
+        for(;;){
+            process.stdout.write(question + (options.defaultAnswer ? ` [${options.defaultAnswer}]` : "") + ": ");
+            const line = await this.lines.next();
+            if(line.done){
+                throw new Error("\nAborted, no file has been written.");
+            }
+            const answer = line.value.trim() || options.defaultAnswer || "";
+            if(answer && (!options.validate || options.validate(answer))){
+                return answer;
+            }
+            console.log(answer ? `Invalid value '${answer}'!` : "A value is required!");
+        }
+    }
+
+    public choose = async<T extends string>(question: string, choices: readonly T[], defaultChoice: T) : Promise<T> => {
+        return await this.ask(`${question} (${choices.join(", ")})`, { defaultAnswer: defaultChoice, validate: answer => choices.includes(answer as T) }) as T;
+    }
+
+    public confirm = async(question: string, defaultAnswer: boolean) : Promise<boolean> => {
+        const answer = await this.ask(`${question} (y/n)`, { defaultAnswer: defaultAnswer ? "y" : "n", validate: answer => /^(y|yes|n|no)$/i.test(answer) });
+        return /^y/i.test(answer);
+    }
+
+    public close = () => this.rl.close();
+}
+
+async function exists(path: string){
+    return fs.access(path).then(() => true, () => false);
+}
+
+/**
+ * Quotes values containing whitespace or characters with a special meaning in `.env` files (using a quote character the value doesn't contain).
+ */
+function quote(value: string){
+    if(!/[\s#"'`\\]/.test(value)){
+        return value;
+    }
+    const quote = ["'", '"', "`"].find(quote => !value.includes(quote));
+    return quote ? quote + value + quote : value;
+}
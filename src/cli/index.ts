@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+import run from "./run";
+import check from "./check";
+import probe from "./probe";
+import readOnce from "./readOnce";
+import configInit from "./configInit";
+
+/** A command gets its arguments and returns the process' exit code (or nothing if the process should keep running). */
+type Command = (args: string[]) => Promise<number | void>;
+
+const usage = `Usage: vant-recorder <command> [options]
+
+Commands:
+  run [--config <path>]                  Starts the recorder
+  check [--config <path>]                Validates the configuration and checks whether the api is reachable using the api key
+  probe [<path>] [--baud-rate <rate>]    Detects the baud rate and model of the weather station at the serial path and prints its
+                                         firmware. Lists the detected serial ports if no path is passed
+  read-once [--config <path>] [--station <name>]
+                                         Reads the current conditions once and prints them as JSON (of the passed station
+                                         if multiple stations are configured, default: the first one)
+  config init [--output <path>]          Generates a .env file interactively (default: ./.env)
+
+If no configuration file is passed, the CONFIG_FILE environment variable is used. Without configuration file the recorder
+is configured using environment variables (.env file).`;
+
+const commands : Record<string, Command> = {
+    "run": run,
+    "check": check,
+    "probe": probe,
+    "read-once": readOnce,
+    "config init": configInit,
+};
+
+async function main(argv: string[]){
+    if(argv.length === 0 || argv[0] === "help" || argv[0] === "--help" || argv[0] === "-h"){
+        console.log(usage);
+        return argv.length === 0 ? 1 : 0;
+    }
+
+    const name = argv[0] === "config" ? `config ${argv[1] ?? ""}` : argv[0];
+    const command = commands[name];
+    if(!command){
+        console.error(`Unknown command '${name.trim()}'!\n`);
+        console.error(usage);
+        return 1;
+    }
+    return await command(argv.slice(name.split(" ").length));
+}
+
+main(process.argv.slice(2)).then((exitCode) => {
+    if(exitCode !== undefined){
+        process.exit(exitCode);
+    }
+}, (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+});
@@ -0,0 +1,33 @@
+import dotenv from "dotenv";
+import RecorderConfiguration from "../config/RecorderConfiguration";
+import loadConfigFile from "../config/loadConfigFile";
+
+/**
+ * Loads the configuration the commands work with. If no configuration file is passed, the `CONFIG_FILE` environment variable is used.
+ * Without configuration file the recorder is configured using environment variables (`.env` file), the archive, highs and lows, aggregates and
+ * maintenance tasks are enabled using `ARCHIVE_TASK=true`, `HIGHS_AND_LOWS_TASK=true`, `AGGREGATES_TASK=true` and `MAINTENANCE_TASK=true`.
+ * @param configPath the configuration file passed using `--config`
+ * @returns the configuration and the configuration file it has been loaded from (if any)
+ * @throws {@link InvalidRecorderConfigurationError} if the configuration file can't be read or is invalid
+ * @hidden
+ */
+export default async function loadConfiguration(configPath?: string) : Promise<{ configuration: RecorderConfiguration, configPath?: string }>{
+    dotenv.config();
+    configPath = configPath || process.env.CONFIG_FILE || undefined;
+    if(configPath){
+        return { configuration: await loadConfigFile(configPath), configPath };
+    }
+
+    return {
+        configuration: {
+            preferEnvironmentVariables: true,
+            tasks: {
+                currentConditions: { interval: 1, preferEnvironmentVariables: true },
+                archive: process.env.ARCHIVE_TASK === "true" ? { preferEnvironmentVariables: true } : false,
+                highsAndLows: process.env.HIGHS_AND_LOWS_TASK === "true" ? { preferEnvironmentVariables: true } : false,
+                aggregates: process.env.AGGREGATES_TASK === "true" ? { preferEnvironmentVariables: true } : false,
+                maintenance: process.env.MAINTENANCE_TASK === "true" ? { preferEnvironmentVariables: true } : false,
+            },
+        },
+    };
+}
@@ -0,0 +1,86 @@
+import { parseArgs } from "util";
+import { SerialPort } from "serialport";
+import { OnInterfaceCreate } from "vantjs/interfaces/settings";
+import { BaudRate, BaudRates } from "vant-environment/structures";
+import StationInterface from "../interfaces/StationInterface";
+import withTimeout from "../utils/withTimeout";
+
+/** The time (in seconds) the console may take to wake up at a probed baud rate. */
+const WAKE_UP_TIMEOUT = 5;
+/** The time (in seconds) the console may take to answer a request after waking up. */
+const REQUEST_TIMEOUT = 5;
+/** The baud rates in the order they are probed (most common first). */
+const PROBED_BAUD_RATES : BaudRate[] = [19200, 9600, 14400, 4800, 2400, 1200];
+
+/**
+ * `vant-recorder probe [<path>] [--baud-rate <rate>]`: Detects the baud rate and model of the weather station connected to the serial path
+ * and prints its firmware. Lists the detected serial ports if no path is passed.
+ * @param args the command's arguments
+ * @returns the exit code (`1` if no weather station has been found)
+ * @hidden
+ */
+export default async function probe(args: string[]){
+    const { values, positionals } = parseArgs({ args, allowPositionals: true, options: { "baud-rate": { type: "string", short: "b" } } });
+
+    const path = positionals[0];
+    if(!path){
+        let ports;
+        try{
+            ports = await SerialPort.list();
+        }catch(err){
+            console.log(`Failed to list the serial ports: ${(err as Error).message}`);
+            return 1;
+        }
+        if(ports.length === 0){
+            console.log("Detected no serial ports.");
+            return 1;
+        }
+        console.log("Detected serial ports (pass one to probe it, e.g. `vant-recorder probe " + ports[0].path + "`):");
+        for(const port of ports){
+            const usbId = port.vendorId ? ` [USB ${port.vendorId}:${port.productId ?? "*"}]` : "";
+            console.log(`  ${port.path}${usbId}${port.manufacturer ? " " + port.manufacturer : ""}`);
+        }
+        return 0;
+    }
+
+    const baudRates = values["baud-rate"] !== undefined ? [parseInt(values["baud-rate"]) as BaudRate] : PROBED_BAUD_RATES;
+    if(!baudRates.every(baudRate => BaudRates.includes(baudRate))){
+        console.log(`Invalid baud rate '${values["baud-rate"]}' (valid are ${BaudRates.join(", ")}).`);
+        return 1;
+    }
+
+    for(const baudRate of baudRates){
+        console.log(`Trying ${baudRate} baud...`);
+        const device = await StationInterface.create({ path, baudRate, rainCollectorSize: "0.2mm", onCreate: OnInterfaceCreate.DoNothing });
+        try{
+            await withTimeout(device.open(), WAKE_UP_TIMEOUT, `Failed to open '${path}'!`);
+            await withTimeout(device.wakeUp(), WAKE_UP_TIMEOUT, "The console didn't wake up.");
+        }catch(err){
+            console.log(`  ${(err as Error).message}`);
+            await device.close().catch(() => {});
+            continue;
+        }
+
+        try{
+            const type = await withTimeout(device.getWeatherstationType(), REQUEST_TIMEOUT, "timed out");
+            const firmwareDate = await withTimeout(device.getFirmwareDateCode(), REQUEST_TIMEOUT, "timed out").catch(() => "unknown");
+            const firmwareVersion = await withTimeout(device.getFirmwareVersion(), REQUEST_TIMEOUT, "timed out").catch(() => "unknown");
+            const model = type === "Vantage Vue" ? "Vue" : type === "Vantage Pro / Pro 2" ? "Pro2" : undefined;
+
+            console.log(`Found a ${type} at ${baudRate} baud.`);
+            console.log(`  Firmware version: ${firmwareVersion}`);
+            console.log(`  Firmware date: ${firmwareDate}`);
+            if(model){
+                console.log(`Suggested settings: MODEL=${model} SERIAL_PATH=${path} BAUD_RATE=${baudRate}`);
+            }else{
+                console.log("This weather station isn't supported by the recorder (only the Vantage Pro 2 and Vantage Vue are).");
+            }
+            return model ? 0 : 1;
+        }finally{
+            await device.close().catch(() => {});
+        }
+    }
+
+    console.log(`Found no weather station at '${path}'. Is the console connected and powered?`);
+    return 1;
+}
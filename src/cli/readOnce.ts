@@ -0,0 +1,47 @@
+import { parseArgs } from "util";
+import Recorder from "../Recorder";
+import RecorderGroup from "../RecorderGroup";
+import MinimumRecorderSettings from "../settings/MinimumRecorderSettings";
+import withTimeout from "../utils/withTimeout";
+import log from "../log";
+import loadConfiguration from "./loadConfiguration";
+
+/**
+ * `vant-recorder read-once [--config <path>] [--station <name>]`: Connects to the configured weather station, reads the current conditions once and prints them as JSON.
+ * If multiple stations are configured, the passed station (default: the first one) is read. Logging is disabled to keep the output parsable.
+ * @param args the command's arguments
+ * @returns the exit code
+ * @hidden
+ */
+export default async function readOnce(args: string[]){
+    const { values } = parseArgs({ args, options: { config: { type: "string", short: "c" }, station: { type: "string", short: "s" } } });
+
+    // environment variables aren't overwritten by the .env file
+    process.env.CONSOLE_LOG = "false";
+    const { configuration } = await loadConfiguration(values.config);
+    let stationConfiguration = configuration;
+    if(configuration.stations){
+        const configurations = RecorderGroup.resolveStationConfigurations(configuration);
+        const name = values.station ?? configurations.keys().next().value as string;
+        if(!configurations.has(name)){
+            console.error(`Unknown station '${name}' (configured are ${[...configurations.keys()].join(", ")})!`);
+            return 1;
+        }
+        stationConfiguration = configurations.get(name)!;
+    }
+    const { tasks, ...recorderSettings } = stationConfiguration;
+    const settings = Recorder.resolveSettings({
+        ...recorderSettings,
+        logOptions: { ...recorderSettings.logOptions, consoleLog: false },
+    } as MinimumRecorderSettings);
+    log.silent = true;
+
+    const device = await Recorder.createDeviceInterface(settings);
+    try{
+        const record = await withTimeout(device.getRichRealtimeData(), settings.connection.readTimeout, `The weather station didn't answer within ${settings.connection.readTimeout}s!`);
+        console.log(JSON.stringify(record, null, 2));
+    }finally{
+        await device.close();
+    }
+    return 0;
+}
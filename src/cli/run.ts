@@ -0,0 +1,66 @@
+import { parseArgs } from "util";
+import Recorder from "../Recorder";
+import RecorderGroup from "../RecorderGroup";
+import log from "../log";
+import loadConfiguration from "./loadConfiguration";
+
+let recorder : Recorder | RecorderGroup | undefined;
+
+/**
+ * `vant-recorder run [--config <path>]`: Starts the recorder and keeps it running until the process is stopped. If the configuration
+ * defines `stations`, all stations are recorded (see {@link RecorderGroup}). A configuration file is watched for changes, see {@link Recorder.reload}.
+ * @param args the command's arguments
+ * @hidden
+ */
+export default async function run(args: string[]){
+    const { values } = parseArgs({ args, options: { config: { type: "string", short: "c" } } });
+    const { configuration, configPath } = await loadConfiguration(values.config);
+
+    registerShutdownHandlers();
+    if(configuration.stations){
+        recorder = configPath ? await RecorderGroup.createFromConfigFile(configPath, true) : await RecorderGroup.create(configuration);
+    }else{
+        recorder = configPath ? await Recorder.createFromConfigFile(configPath, true) : await Recorder.createFromConfiguration(configuration);
+    }
+    recorder.start();
+}
+
+function registerShutdownHandlers(){
+    // do something when app is closing
+    process.on('exit', () => {
+        log.info("Exiting!");
+    });
+
+    // catches ctrl+c event
+    process.on('SIGINT', () => {
+        log.warn("Received SIGINT event!");
+        shutdownGracefully();
+    });
+
+    // catches "kill pid" (for example: nodemon restart)
+    process.on('SIGUSR1', () => {
+        log.warn("Received kill (SIGNUSR1) signal!");
+        shutdownGracefully();
+    });
+    process.on('SIGUSR2', () => {
+        log.warn("Received kill (SIGNUSR2) signal!");
+        shutdownGracefully();
+    });
+    process.on('SIGTERM', () => {
+        log.warn("Received kill (SIGTERM) signal!");
+        shutdownGracefully();
+    });
+
+    // catches uncaught exceptions
+    process.on('uncaughtException', (err) => {
+        log.error("Uncaught exception!");
+        log.error(err);
+        shutdownGracefully();
+    });
+}
+
+async function shutdownGracefully(){
+    log.info("Shutting down gracefully...");
+    await recorder?.close();
+    process.exit();
+}
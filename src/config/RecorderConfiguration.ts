@@ -0,0 +1,84 @@
+import MinimumRecorderSettings, { MinimumArchiveTaskSettings, MinimumCurrentConditionsTaskSettings, MinimumHighsAndLowsTaskSettings, MinimumAggregatesTaskSettings, MinimumMaintenanceTaskSettings } from "../settings/MinimumRecorderSettings";
+
+/**
+ * The content of a configuration file (YAML or JSON). Contains the recorder's settings (see {@link MinimumRecorderSettings}) and the
+ * settings of its tasks. Load a configuration file using {@link Recorder.createFromConfigFile}.
+ *
+ * **Example** (`recorder.yaml`):
+ * ```yaml
+ * model: Pro2
+ * path: /dev/ttyUSB0
+ * rainCollectorSize: 0.2mm
+ * api: http://localhost:8000/api
+ * key: secret
+ * logOptions:
+ *   logLevel: info
+ * sinks:
+ *   - type: api
+ *   - type: mqtt
+ *     url: mqtt://localhost:1883
+ * tasks:
+ *   currentConditions:
+ *     interval: 2
+ *   archive:
+ *     interval: 300
+ *   highsAndLows: false
+ *   aggregates:
+ *     interval: 60
+ *   maintenance:
+ *     maxClockDrift: 30
+ *     dailyResetTime: "09:00"
+ * ```
+ *
+ * To record multiple stations in one process list them in `stations` (see {@link StationConfiguration} and {@link RecorderGroup}).
+ * The other settings are shared by all stations:
+ * ```yaml
+ * api: http://localhost:8000/api
+ * rainCollectorSize: 0.2mm
+ * stations:
+ *   - name: garden
+ *     path: /dev/ttyUSB0
+ *     key: garden-secret
+ *   - name: roof
+ *     path: /dev/ttyUSB1
+ *     key: roof-secret
+ *     tasks:
+ *       archive: false
+ * ```
+ */
+type RecorderConfiguration = Omit<Extract<MinimumRecorderSettings, { preferEnvironmentVariables: true }>, "preferEnvironmentVariables"> & {
+    /** Whether to prefer environment variables configured in the `.env` file over the configuration file. Default is `false`. */
+    preferEnvironmentVariables?: boolean,
+    /** The recorder's tasks. */
+    tasks?: TaskConfiguration,
+    /** The stations to record. If set, a {@link RecorderGroup} records every station using the station's settings merged with the other (shared) settings. */
+    stations?: StationConfiguration[],
+}
+
+export default RecorderConfiguration;
+
+/**
+ * The settings of a single station of a configuration file recording multiple stations. Overrides the configuration's shared settings.
+ * The log options and `preferEnvironmentVariables` can't be configured per station.
+ */
+export type StationConfiguration = Omit<RecorderConfiguration, "stations" | "logOptions" | "preferEnvironmentVariables"> & {
+    /** The station's unique name. Prefixes the station's log messages. */
+    name: string,
+}
+
+/**
+ * The task settings of a configuration file. Pass `false` (or omit the task) to disable a task.
+ * The current conditions task is enabled with its default settings if omitted.
+ */
+export interface TaskConfiguration{
+    /** The current conditions task, see {@link Recorder.configureCurrentConditionsTask}. Enabled by default. */
+    currentConditions?: MinimumCurrentConditionsTaskSettings | false,
+    /** The archive task, see {@link Recorder.configureArchiveTask}. Disabled by default. */
+    archive?: MinimumArchiveTaskSettings | false,
+    /** The highs and lows task, see {@link Recorder.configureHighsAndLowsTask}. Disabled by default. */
+    highsAndLows?: MinimumHighsAndLowsTaskSettings | false,
+    /** The aggregates task, see {@link Recorder.configureAggregatesTask}. Disabled by default. */
+    aggregates?: MinimumAggregatesTaskSettings | false,
+    /** The maintenance task, see {@link Recorder.configureMaintenanceTask}. Disabled by default. */
+    maintenance?: MinimumMaintenanceTaskSettings | false,
+}
@@ -0,0 +1,43 @@
+import fs from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+import InvalidRecorderConfigurationError from "../InvalidRecorderConfigurationError";
+import log from "../log";
+import RecorderConfiguration from "./RecorderConfiguration";
+import recorderConfigurationSchema from "./recorderConfigurationSchema";
+import { validate } from "./schema";
+
+/**
+ * Reads, parses and validates the passed configuration file. Files ending with `.json` are parsed as JSON, all other files as YAML.
+ * @param configPath the configuration file
+ * @returns the configuration
+ * @throws {@link InvalidRecorderConfigurationError} if the file can't be read, parsed or doesn't match the schema (the message lists all problems)
+ */
+export default async function loadConfigFile(configPath: string) : Promise<RecorderConfiguration>{
+    let content : string;
+    try{
+        content = await fs.readFile(configPath, "utf-8");
+    }catch(err){
+        log.error(`Failed to read configuration file '${configPath}'!`);
+        throw new InvalidRecorderConfigurationError(`Failed to read configuration file '${configPath}': ${(err as Error).message}`);
+    }
+
+    let configuration : unknown;
+    try{
+        configuration = path.extname(configPath).toLowerCase() === ".json" ? JSON.parse(content) : YAML.parse(content);
+    }catch(err){
+        log.error(`Failed to parse configuration file '${configPath}'!`);
+        throw new InvalidRecorderConfigurationError(`Failed to parse configuration file '${configPath}': ${(err as Error).message}`);
+    }
+
+    // An empty file configures nothing, everything else is validated
+    configuration = configuration ?? {};
+    const errors = validate(recorderConfigurationSchema, configuration);
+    if(errors.length > 0){
+        const message = `Invalid configuration file '${configPath}':\n  ` + errors.join("\n  ");
+        log.error(message);
+        throw new InvalidRecorderConfigurationError(message);
+    }
+
+    return configuration as RecorderConfiguration;
+}
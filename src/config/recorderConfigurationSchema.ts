@@ -0,0 +1,202 @@
+import { BaudRates, RainCollectorSizes } from "vant-environment/structures";
+import { PressureUnits, RainUnits, SolarRadiationUnits, TemperatureUnits, WindUnits } from "vant-environment/units";
+import { ArchiveIntervals, DataQualityActions, RecorderModels, UploadModes } from "../settings/RecorderSettings";
+import { array, boolean, disabledOr, number, object, oneOf, record, Schema, string, tagged } from "./schema";
+
+const url = string({ pattern: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i, description: "an url (e.g. 'http://localhost:8000/api')" });
+const interval = number({ integer: true, min: 1 });
+const port = number({ integer: true, min: 0, max: 65535 });
+const usbId = string({ pattern: /^[0-9a-f]{4}$/i, description: "4 hexadecimal digits (e.g. '10c4')" });
+
+const wundergroundSinkSchema = object({
+    type: oneOf(["wunderground", "pwsweather"]),
+    stationId: string(),
+    password: string(),
+    url,
+    interval,
+}, ["stationId", "password"]);
+
+const thresholdAlarmRuleSchema = object({
+    type: oneOf(["above", "below"]),
+    name: string(),
+    field: string(),
+    value: number(),
+    hysteresis: number({ min: 0 }),
+    cooldown: number({ min: 0 }),
+}, ["name", "field", "value"]);
+
+const alarmsSchema = object({
+    rules: array(tagged({
+        above: thresholdAlarmRuleSchema,
+        below: thresholdAlarmRuleSchema,
+        "no-data": object({
+            type: oneOf(["no-data"]),
+            name: string(),
+            duration: number({ greaterThan: 0 }),
+            cooldown: number({ min: 0 }),
+        }, ["name", "duration"]),
+    }), { uniqueBy: "name" }),
+    notifiers: array(tagged({
+        webhook: object({ type: oneOf(["webhook"]), url, headers: record(string({ allowEmpty: true })) }, ["url"]),
+        smtp: object({
+            type: oneOf(["smtp"]),
+            host: string(),
+            port,
+            secure: boolean(),
+            username: string(),
+            password: string(),
+            from: string(),
+            to: array(string(), { minLength: 1 }),
+            caPath: string(),
+            insecure: boolean(),
+        }, ["host", "from", "to"]),
+    })),
+});
+
+const sinkSchema = tagged({
+    api: object({ type: oneOf(["api"]) }),
+    mqtt: object({
+        type: oneOf(["mqtt"]),
+        url: string({ pattern: /^(mqtts?|wss?|tcp|tls):\/\/\S+$/i, description: "an mqtt url (e.g. 'mqtt://localhost:1883')" }),
+        username: string(),
+        password: string(),
+        topicPrefix: string(),
+        fieldTopics: boolean(),
+        homeAssistant: boolean(),
+        discoveryPrefix: string(),
+        deviceId: string(),
+    }),
+    file: object({
+        type: oneOf(["file"]),
+        directory: string(),
+        format: oneOf(["jsonl", "csv"]),
+    }),
+    stdout: object({ type: oneOf(["stdout"]) }),
+    wunderground: wundergroundSinkSchema,
+    pwsweather: wundergroundSinkSchema,
+    cwop: object({
+        type: oneOf(["cwop"]),
+        stationId: string(),
+        passcode: string(),
+        host: string(),
+        port,
+        latitude: number({ min: -90, max: 90 }),
+        longitude: number({ min: -180, max: 180 }),
+        interval,
+    }, ["stationId", "latitude", "longitude"]),
+    sqlite: object({
+        type: oneOf(["sqlite"]),
+        path: string(),
+        retention: number({ min: 0 }),
+        downsampleAfter: number({ min: 0 }),
+        downsampleInterval: number({ integer: true, min: 0 }),
+    }),
+});
+
+const recorderProperties : Record<string, Schema> = {
+    api: url,
+    key: string(),
+    tls: object({
+        caPath: string(),
+        certPath: string(),
+        keyPath: string(),
+        keyPassphrase: string(),
+        insecure: boolean(),
+    }),
+    model: oneOf(RecorderModels),
+    path: string(),
+    address: string(),
+    units: object({
+        rain: oneOf(RainUnits),
+        temperature: oneOf(TemperatureUnits),
+        pressure: oneOf(PressureUnits),
+        solarRadiation: oneOf(SolarRadiationUnits),
+        wind: oneOf(WindUnits),
+    }),
+    baudRate: oneOf(BaudRates),
+    preferEnvironmentVariables: boolean(),
+    logOptions: object({
+        logLevel: oneOf(["debug", "info", "warn", "error"]),
+        consoleLog: boolean(),
+        fileLog: boolean(),
+        logErrorInformation: boolean(),
+    }),
+    rainCollectorSize: oneOf(RainCollectorSizes),
+    offlineBuffer: object({
+        enabled: boolean(),
+        path: string(),
+        maxRecords: number({ integer: true, min: 1 }),
+        maxAge: number({ min: 1 }),
+    }),
+    sinks: array(sinkSchema, { minLength: 1 }),
+    statusServer: object({
+        enabled: boolean(),
+        host: string(),
+        port,
+        maxReadAge: number({ min: 1 }),
+    }),
+    connection: object({
+        reconnect: boolean(),
+        maxFailures: number({ integer: true, min: 1 }),
+        initialDelay: number({ greaterThan: 0 }),
+        maxDelay: number({ greaterThan: 0 }),
+        readTimeout: number({ greaterThan: 0 }),
+        vendorId: usbId,
+        productId: usbId,
+    }),
+    simulator: object({
+        replayPath: string(),
+        seed: number({ integer: true }),
+        clockOffset: number({ integer: true }),
+    }),
+    dataQuality: object({
+        enabled: boolean(),
+        action: oneOf(DataQualityActions),
+        rules: record(disabledOr(object({
+            min: number(),
+            max: number(),
+            maxChangePerMinute: number({ greaterThan: 0 }),
+            maxUnchangedTime: number({ greaterThan: 0 }),
+            increasing: boolean(),
+        }))),
+    }),
+    alarms: alarmsSchema,
+    tasks: object({
+        currentConditions: disabledOr(object({
+            interval,
+            preferEnvironmentVariables: boolean(),
+            uploadMode: oneOf(UploadModes),
+            batchWindow: interval,
+            batchMaxSize: number({ integer: true, min: 1 }),
+        })),
+        archive: disabledOr(object({ interval, statePath: string(), preferEnvironmentVariables: boolean() })),
+        highsAndLows: disabledOr(object({ interval, preferEnvironmentVariables: boolean() })),
+        aggregates: disabledOr(object({ interval, preferEnvironmentVariables: boolean() })),
+        maintenance: disabledOr(object({
+            interval,
+            maxClockDrift: number({ greaterThan: 0 }),
+            archiveInterval: oneOf(ArchiveIntervals),
+            dailyResetTime: string({ pattern: /^([01]\d|2[0-3]):[0-5]\d$/, description: "a time of day (HH:MM)" }),
+            preferEnvironmentVariables: boolean(),
+        })),
+    }),
+};
+
+// The log options and environment variables are shared by all stations
+const { logOptions, preferEnvironmentVariables, ...stationProperties } = recorderProperties;
+
+const stationSchema = object({
+    name: string({ pattern: /^[\w.-]+$/, description: "a name consisting of letters, digits, '_', '.' and '-'" }),
+    ...stationProperties,
+}, ["name"]);
+
+/**
+ * The schema of the configuration file, see {@link RecorderConfiguration}.
+ * @hidden
+ */
+const recorderConfigurationSchema : Schema = object({
+    ...recorderProperties,
+    stations: array(stationSchema, { minLength: 1, uniqueBy: "name" }),
+});
+
+export default recorderConfigurationSchema;
@@ -0,0 +1,205 @@
+/**
+ * A validator for a part of a configuration file. Pushes a message for every problem found to `errors`.
+ * `path` is the position of the value in the configuration file (e.g. `sinks[1].url`) and prefixes every message.
+ * @hidden
+ */
+export type Schema = (value: unknown, path: string, errors: string[]) => void;
+
+function describe(value: unknown){
+    if(value === null){
+        return "null";
+    }
+    if(Array.isArray(value)){
+        return value.length === 0 ? "an empty list" : "a list";
+    }
+    if(typeof value === "object"){
+        return "an object";
+    }
+    return JSON.stringify(value);
+}
+
+function fail(errors: string[], path: string, expected: string, value: unknown){
+    errors.push(`${path || "<root>"}: expected ${expected}, got ${describe(value)}`);
+}
+
+function isObject(value: unknown) : value is Record<string, unknown>{
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Accepts strings. Empty strings are rejected unless `allowEmpty` is set.
+ * @hidden
+ */
+export function string(options: { allowEmpty?: boolean, pattern?: RegExp, description?: string } = {}) : Schema{
+    return (value, path, errors) => {
+        if(typeof value !== "string" || (!options.allowEmpty && value === "")){
+            fail(errors, path, options.allowEmpty ? "a string" : "a non-empty string", value);
+        }else if(options.pattern && !options.pattern.test(value)){
+            fail(errors, path, options.description ?? `a string matching ${options.pattern}`, value);
+        }
+    };
+}
+
+/**
+ * Accepts numbers within the passed bounds (inclusive, except for `greaterThan`).
+ * @hidden
+ */
+export function number(options: { integer?: boolean, min?: number, max?: number, greaterThan?: number } = {}) : Schema{
+    const constraints = [
+        options.min !== undefined ? `>= ${options.min}` : undefined,
+        options.greaterThan !== undefined ? `> ${options.greaterThan}` : undefined,
+        options.max !== undefined ? `<= ${options.max}` : undefined,
+    ].filter(constraint => constraint !== undefined);
+    const expected = (options.integer ? "an integer" : "a number") + (constraints.length > 0 ? " " + constraints.join(" and ") : "");
+
+    return (value, path, errors) => {
+        if(typeof value !== "number" || !Number.isFinite(value) ||
+            (options.integer && !Number.isInteger(value)) ||
+            (options.min !== undefined && value < options.min) ||
+            (options.max !== undefined && value > options.max) ||
+            (options.greaterThan !== undefined && value <= options.greaterThan)){
+            fail(errors, path, expected, value);
+        }
+    };
+}
+
+/**
+ * Accepts `true` and `false`.
+ * @hidden
+ */
+export function boolean() : Schema{
+    return (value, path, errors) => {
+        if(typeof value !== "boolean"){
+            fail(errors, path, "true or false", value);
+        }
+    };
+}
+
+/**
+ * Accepts one of the passed values.
+ * @hidden
+ */
+export function oneOf(values: readonly (string | number)[]) : Schema{
+    return (value, path, errors) => {
+        if(!values.includes(value as string | number)){
+            fail(errors, path, "one of " + values.map(value => JSON.stringify(value)).join(", "), value);
+        }
+    };
+}
+
+/**
+ * Accepts lists whose items match the passed schema. If `uniqueBy` is set, the items' values of this property have to be unique.
+ * @hidden
+ */
+export function array(items: Schema, options: { minLength?: number, uniqueBy?: string } = {}) : Schema{
+    return (value, path, errors) => {
+        if(!Array.isArray(value)){
+            fail(errors, path, "a list", value);
+            return;
+        }
+        if(options.minLength !== undefined && value.length < options.minLength){
+            fail(errors, path, `a list with at least ${options.minLength} item(s)`, value);
+        }
+        value.forEach((item, index) => items(item, `${path}[${index}]`, errors));
+
+        if(options.uniqueBy !== undefined){
+            const key = options.uniqueBy;
+            const seen = new Set<unknown>();
+            value.forEach((item, index) => {
+                if(isObject(item) && item[key] !== undefined){
+                    if(seen.has(item[key])){
+                        fail(errors, `${path}[${index}].${key}`, "a unique value", item[key]);
+                    }
+                    seen.add(item[key]);
+                }
+            });
+        }
+    };
+}
+
+/**
+ * Accepts objects having the passed properties. All properties are optional unless listed in `required`. Unknown properties are rejected
+ * (this catches typos that would otherwise silently fall back to the default value).
+ * @hidden
+ */
+export function object(properties: Record<string, Schema>, required: string[] = []) : Schema{
+    return (value, path, errors) => {
+        if(!isObject(value)){
+            fail(errors, path, "an object", value);
+            return;
+        }
+        const prefix = path ? path + "." : "";
+        for(const key of required){
+            if(value[key] === undefined){
+                errors.push(`${prefix}${key}: is required`);
+            }
+        }
+        for(const [key, item] of Object.entries(value)){
+            const schema = properties[key];
+            if(!schema){
+                errors.push(`${prefix}${key}: unknown setting (allowed are ${Object.keys(properties).join(", ")})`);
+            }else if(item !== undefined){
+                schema(item, prefix + key, errors);
+            }
+        }
+    };
+}
+
+/**
+ * Accepts objects with arbitrary keys whose values match the passed schema (e.g. settings by field name).
+ * @hidden
+ */
+export function record(values: Schema) : Schema{
+    return (value, path, errors) => {
+        if(!isObject(value)){
+            fail(errors, path, "an object", value);
+            return;
+        }
+        const prefix = path ? path + "." : "";
+        for(const [key, item] of Object.entries(value)){
+            values(item, prefix + key, errors);
+        }
+    };
+}
+
+/**
+ * Accepts objects matching the schema selected by their `type` property.
+ * @hidden
+ */
+export function tagged(schemas: Record<string, Schema>) : Schema{
+    return (value, path, errors) => {
+        if(!isObject(value)){
+            fail(errors, path, "an object", value);
+            return;
+        }
+        const schema = typeof value.type === "string" ? schemas[value.type] : undefined;
+        if(!schema){
+            fail(errors, (path ? path + "." : "") + "type", "one of " + Object.keys(schemas).map(type => JSON.stringify(type)).join(", "), value.type);
+            return;
+        }
+        schema(value, path, errors);
+    };
+}
+
+/**
+ * Accepts `false` or values matching the passed schema. Used for optional features like tasks.
+ * @hidden
+ */
+export function disabledOr(schema: Schema) : Schema{
+    return (value, path, errors) => {
+        if(value !== false){
+            schema(value, path, errors);
+        }
+    };
+}
+
+/**
+ * Validates the passed value against the passed schema.
+ * @returns the problems found, an empty array if the value is valid
+ * @hidden
+ */
+export function validate(schema: Schema, value: unknown){
+    const errors : string[] = [];
+    schema(value, "", errors);
+    return errors;
+}
@@ -5,4 +5,74 @@ export { CurrentConditionsTaskSettings } from "./settings/RecorderSettings";
 export { defaultCurrentConditionsTaskSettings } from "./settings/RecorderSettings";
 export { default as InvalidRecorderConfigurationError } from "./InvalidRecorderConfigurationError";
 export { default as MinimumRecorderSettings } from "./settings/MinimumRecorderSettings";
-export { MinimumCurrentConditionsTaskSettings } from "./settings/MinimumRecorderSettings";
\ No newline at end of file
+export { MinimumCurrentConditionsTaskSettings } from "./settings/MinimumRecorderSettings";
+export { OfflineBufferSettings } from "./settings/RecorderSettings";
+export { defaultOfflineBufferSettings } from "./settings/RecorderSettings";
+export { default as OfflineBuffer } from "./OfflineBuffer";
+export { OfflineBufferEntry } from "./OfflineBuffer";
+export { ArchiveTaskSettings } from "./settings/RecorderSettings";
+export { defaultArchiveTaskSettings } from "./settings/RecorderSettings";
+export { MinimumArchiveTaskSettings } from "./settings/MinimumRecorderSettings";
+export { default as StationInterface } from "./interfaces/StationInterface";
+export { default as ArchiveRecord } from "./structures/ArchiveRecord";
+export { HighsAndLowsTaskSettings } from "./settings/RecorderSettings";
+export { defaultHighsAndLowsTaskSettings } from "./settings/RecorderSettings";
+export { MinimumHighsAndLowsTaskSettings } from "./settings/MinimumRecorderSettings";
+export { default as Sink } from "./sinks/Sink";
+export { RecordKind, WriteResult } from "./sinks/Sink";
+export { default as ApiSink } from "./sinks/ApiSink";
+export { default as MqttSink } from "./sinks/MqttSink";
+export { default as FileSink } from "./sinks/FileSink";
+export { default as StdoutSink } from "./sinks/StdoutSink";
+export { default as SinkSettings } from "./settings/SinkSettings";
+export { ApiSinkSettings, MqttSinkSettings, FileSinkSettings, StdoutSinkSettings, WundergroundSinkSettings, CwopSinkSettings, SqliteSinkSettings, MinimumSinkSettings } from "./settings/SinkSettings";
+export { defaultSinkSettings, defaultMqttSinkSettings, defaultFileSinkSettings, defaultWundergroundSinkSettings, defaultPwsWeatherSinkSettings, defaultCwopSinkSettings, defaultSqliteSinkSettings } from "./settings/SinkSettings";
+export { default as WundergroundSink } from "./sinks/WundergroundSink";
+export { default as CwopSink } from "./sinks/CwopSink";
+export { default as SqliteSink } from "./sinks/SqliteSink";
+export { RecordQuery } from "./sinks/SqliteSink";
+export { StatusServerSettings } from "./settings/RecorderSettings";
+export { defaultStatusServerSettings } from "./settings/RecorderSettings";
+export { default as StatusServer } from "./status/StatusServer";
+export { default as RecorderMetrics } from "./status/RecorderMetrics";
+export { TaskName, RecorderState, UploadResult } from "./status/RecorderMetrics";
+export { ConnectionSettings } from "./settings/RecorderSettings";
+export { defaultConnectionSettings } from "./settings/RecorderSettings";
+export { default as RecorderEvents } from "./RecorderEvents";
+export { RecordOfKind, RecordEventArguments } from "./RecorderEvents";
+export { RecorderModel, RecorderModels, SimulatorSettings } from "./settings/RecorderSettings";
+export { default as WeatherStation } from "./interfaces/WeatherStation";
+export { default as SimulatedStationInterface } from "./interfaces/SimulatedStationInterface";
+export { SimulatedStationInterfaceEvents } from "./interfaces/SimulatedStationInterface";
+export { default as RecorderConfiguration } from "./config/RecorderConfiguration";
+export { TaskConfiguration } from "./config/RecorderConfiguration";
+export { default as loadConfigFile } from "./config/loadConfigFile";
+export { StationConfiguration } from "./config/RecorderConfiguration";
+export { default as RecorderGroup } from "./RecorderGroup";
+export { withLogPrefix } from "./log";
+export { DataQualitySettings, DataQualityRule, DataQualityAction, DataQualityActions } from "./settings/RecorderSettings";
+export { defaultDataQualitySettings } from "./settings/RecorderSettings";
+export { default as DataQualityFilter } from "./quality/DataQualityFilter";
+export { DataQualityCheck, DataQualityIssue, DataQualityFlags } from "./quality/DataQualityFilter";
+export { default as createDefaultDataQualityRules } from "./quality/defaultDataQualityRules";
+export { UploadMode, UploadModes } from "./settings/RecorderSettings";
+export { TlsSettings } from "./settings/RecorderSettings";
+export { defaultTlsSettings } from "./settings/RecorderSettings";
+export { AggregatesTaskSettings } from "./settings/RecorderSettings";
+export { defaultAggregatesTaskSettings } from "./settings/RecorderSettings";
+export { MinimumAggregatesTaskSettings } from "./settings/MinimumRecorderSettings";
+export { default as AggregatesRecord } from "./structures/AggregatesRecord";
+export { PressureTrend } from "./structures/AggregatesRecord";
+export { default as RollingAggregator } from "./aggregates/RollingAggregator";
+export { MaintenanceTaskSettings, ArchiveInterval, ArchiveIntervals } from "./settings/RecorderSettings";
+export { defaultMaintenanceTaskSettings } from "./settings/RecorderSettings";
+export { MinimumMaintenanceTaskSettings } from "./settings/MinimumRecorderSettings";
+export { default as AlarmSettings } from "./settings/AlarmSettings";
+export { AlarmRuleSettings, ThresholdAlarmRuleSettings, NoDataAlarmRuleSettings, NotifierSettings, WebhookNotifierSettings, SmtpNotifierSettings } from "./settings/AlarmSettings";
+export { MinimumAlarmSettings, MinimumAlarmRuleSettings, MinimumNotifierSettings } from "./settings/AlarmSettings";
+export { defaultAlarmSettings, defaultAlarmRuleSettings, defaultNotifierSettings, AlarmRuleTypes, NotifierTypes } from "./settings/AlarmSettings";
+export { default as AlarmEvaluator } from "./alarms/AlarmEvaluator";
+export { AlarmNotification } from "./alarms/AlarmEvaluator";
+export { default as Notifier } from "./alarms/Notifier";
+export { default as WebhookNotifier } from "./alarms/WebhookNotifier";
+export { default as SmtpNotifier } from "./alarms/SmtpNotifier";
@@ -0,0 +1,464 @@
+import fs from "fs/promises";
+import { TypedEmitter } from "tiny-typed-emitter";
+import { DeepReadonly } from "ts-essentials";
+import { UnitConfiguration } from "vant-environment/units";
+import { HighsAndLows, RichRealtimeData } from "vant-environment/structures";
+import { ClosedConnectionError } from "vantjs/errors";
+import { ArchiveInterval, SimulatorSettings } from "../settings/RecorderSettings";
+import ArchiveRecord, { WindDirection } from "../structures/ArchiveRecord";
+import { createUnitConverters } from "../units/imperialUnits";
+import WeatherStation from "./WeatherStation";
+
+const windDirections : WindDirection[] = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"];
+
+/** The default interval (in minutes) of the simulated archive. */
+const DEFAULT_ARCHIVE_INTERVAL = 5;
+/** The number of records the simulated archive memory holds (like the real console's memory). */
+const ARCHIVE_SIZE = 2560;
+/** The mean time (in seconds) between two rain events. */
+const MEAN_TIME_BETWEEN_RAIN_EVENTS = 12 * 3600;
+/** The size of a rain click in inches. */
+const RAIN_CLICK = 0.01;
+
+/**
+ * The events fired by the {@link SimulatedStationInterface}.
+ */
+export interface SimulatedStationInterfaceEvents{
+    /** Fires when the simulated connection closes. */
+    close: () => void;
+}
+
+interface Sample{
+    time: number,
+    value: number,
+}
+
+/**
+ * A simulated _Vantage Pro 2_ for development and tests. Use it by configuring the model `"Simulator"`, no weather station is required.
+ *
+ * The current conditions are generated from a simple weather model: a diurnal and seasonal temperature cycle, gusty wind with a slowly
+ * turning direction, a drifting pressure and random rain events (about two per day). Like the real console the values are measured in imperial units and
+ * converted to the configured units. Archive records are derived from the undisturbed diurnal cycle (without rain), the highs and lows contain
+ * the daily highs and lows of the generated current conditions. The simulated console clock runs `clockOffset` seconds ahead of the host clock
+ * and can be set like the real one.
+ *
+ * Alternatively a recorded capture can be replayed: a JSONL file containing one `RichRealtimeData` record per line (e.g. the `current.jsonl`
+ * written by the file sink). The records are returned in order (starting over at the end) with their time set to the current time.
+ * Their values are returned as they are, so they have to be recorded in the configured units.
+ *
+ * Create an instance using {@link SimulatedStationInterface.create}.
+ */
+export default class SimulatedStationInterface extends TypedEmitter<SimulatedStationInterfaceEvents> implements WeatherStation{
+    public readonly settings : DeepReadonly<SimulatorSettings>;
+
+    private readonly convert : ReturnType<typeof createUnitConverters>;
+    private readonly random : () => number;
+    private readonly replay? : RichRealtimeData[];
+    private replayIndex = 0;
+    private open = true;
+    /** The difference (in ms) between the simulated console clock and the host clock. */
+    private clockOffset : number;
+    private archiveInterval : ArchiveInterval = DEFAULT_ARCHIVE_INTERVAL;
+
+    private lastStep? : number;
+    private temperatureNoise = 0;
+    private windBase = 6;
+    private windDirection = 225;
+    private pressure = 29.92;
+    private rainEvent? : { until: number, rate: number };
+    private rainRemainder = 0;
+    private rainDay = 0;
+    private rainMonth = 0;
+    private rainYear = 0;
+    private stormRain = 0;
+    private stormStartDate : Date | null = null;
+    private readonly rainClicks : Sample[] = [];
+    private readonly windSamples : (Sample & { direction: number })[] = [];
+    private readonly pressureSamples : Sample[] = [];
+    private highsAndLows = new HighsAndLows();
+    private highsAndLowsDay? : string;
+
+    private constructor(units: DeepReadonly<UnitConfiguration>, settings: DeepReadonly<SimulatorSettings>, replay?: RichRealtimeData[]){
+        super();
+        this.settings = settings;
+        this.convert = createUnitConverters(units);
+        this.random = settings.seed === undefined ? Math.random : createRandom(settings.seed);
+        this.replay = replay;
+        this.clockOffset = (settings.clockOffset ?? 0) * 1000;
+    }
+
+    /**
+     * Creates a simulated weather station. Loads the capture to replay if `replayPath` is configured.
+     * @param units the units the values are converted to
+     * @param settings the simulator's settings
+     * @returns the simulated weather station
+     */
+    public static create = async(units: DeepReadonly<UnitConfiguration>, settings: DeepReadonly<SimulatorSettings>) => {
+        let replay : RichRealtimeData[] | undefined;
+        if(settings.replayPath){
+            const content = await fs.readFile(settings.replayPath, "utf-8");
+            replay = content.split("\n").filter(line => line.trim()).map(line => JSON.parse(line));
+            if(replay.length === 0){
+                throw new Error(`The replay file '${settings.replayPath}' doesn't contain any records!`);
+            }
+        }
+        return new SimulatedStationInterface(units, settings, replay);
+    }
+
+    public isPortOpen = () => this.open;
+
+    public close = async() => {
+        if(this.open){
+            this.open = false;
+            this.emit("close");
+        }
+    }
+
+    public getRichRealtimeData = async() => {
+        this.checkConnection();
+        const record = this.replay ? this.nextReplayedRecord() : this.simulate(new Date());
+        this.updateHighsAndLows(record);
+        return record;
+    }
+
+    public getHighsAndLows = async() => {
+        this.checkConnection();
+        return structuredClone(this.highsAndLows);
+    }
+
+    public getArchiveRecords = async(since?: Date) => {
+        this.checkConnection();
+        const interval = this.archiveInterval * 60 * 1000;
+        const newest = Math.floor(Date.now() / interval) * interval;
+        const oldest = Math.max(newest - (ARCHIVE_SIZE - 1) * interval, since ? Math.floor(since.getTime() / interval) * interval + interval : newest - 24 * 3600 * 1000);
+
+        const records : ArchiveRecord[] = [];
+        for(let time = oldest; time <= newest; time += interval){
+            records.push(this.createArchiveRecord(new Date(time)));
+        }
+        return records;
+    }
+
+    public getConsoleTime = async() => {
+        this.checkConnection();
+        // Like the real console the clock has a resolution of one second
+        return new Date(Math.floor((Date.now() + this.clockOffset) / 1000) * 1000);
+    }
+
+    public setConsoleTime = async(time: Date) => {
+        this.checkConnection();
+        this.clockOffset = time.getTime() - Date.now();
+    }
+
+    public getArchiveInterval = async() => {
+        this.checkConnection();
+        return this.archiveInterval;
+    }
+
+    public setArchiveInterval = async(minutes: ArchiveInterval) => {
+        this.checkConnection();
+        this.archiveInterval = minutes;
+    }
+
+    public clearDailyValues = async() => {
+        this.checkConnection();
+        this.rainDay = 0;
+        this.highsAndLows = new HighsAndLows();
+    }
+
+    private checkConnection(){
+        if(!this.open){
+            throw new ClosedConnectionError();
+        }
+    }
+
+    private nextReplayedRecord(){
+        const record = structuredClone(this.replay![this.replayIndex]);
+        this.replayIndex = (this.replayIndex + 1) % this.replay!.length;
+        record.time = new Date();
+        if(record.stormStartDate){
+            record.stormStartDate = new Date(record.stormStartDate);
+        }
+        return record;
+    }
+
+    /**
+     * Advances the weather model to the passed time and returns the current conditions.
+     */
+    private simulate(time: Date){
+        const now = time.getTime();
+        const dt = this.lastStep === undefined ? 0 : Math.min(Math.max(now - this.lastStep, 0) / 1000, 3600);
+        this.resetCounters(time);
+        this.lastStep = now;
+
+        // Slowly drifting weather (Ornstein-Uhlenbeck processes)
+        this.temperatureNoise += -this.temperatureNoise * dt / 21600 + 0.006 * Math.sqrt(dt) * this.gaussian();
+        const meanWind = 5 + 3 * Math.sin(Math.PI * (hoursOf(time) - 9) / 12);
+        this.windBase = Math.max(0, this.windBase + (meanWind - this.windBase) * dt / 600 + 0.08 * Math.sqrt(dt) * this.gaussian());
+        this.windDirection = (this.windDirection + 1.5 * Math.sqrt(dt) * this.gaussian() + 360) % 360;
+        this.pressure = clamp(this.pressure + (29.92 - this.pressure) * dt / 172800 + 0.0005 * Math.sqrt(dt) * this.gaussian(), 29.0, 30.8);
+
+        // Rain events
+        if(this.rainEvent && now >= this.rainEvent.until){
+            this.rainEvent = undefined;
+        }
+        if(!this.rainEvent && this.random() < 1 - Math.exp(-dt / MEAN_TIME_BETWEEN_RAIN_EVENTS)){
+            this.rainEvent = { until: now + (15 + this.random() * 105) * 60 * 1000, rate: 0.04 + this.random() * 0.56 };
+        }
+        if(this.rainEvent){
+            this.rainRemainder += this.rainEvent.rate * dt / 3600;
+            while(this.rainRemainder >= RAIN_CLICK){
+                this.rainRemainder -= RAIN_CLICK;
+                this.addRainClick(time);
+            }
+        }
+        const raining = this.rainEvent !== undefined;
+
+        // Wind samples for averages and gusts
+        const wind = Math.round(Math.max(0, this.windBase * (1 + 0.35 * this.gaussian())));
+        const windDirection = Math.round((this.windDirection + 20 * this.gaussian() + 360) % 360) || 360;
+        this.windSamples.push({ time: now, value: wind, direction: windDirection });
+        this.pressureSamples.push({ time: now, value: this.pressure });
+        dropOlderThan(this.windSamples, now - 600 * 1000);
+        dropOlderThan(this.pressureSamples, now - 3 * 3600 * 1000);
+        dropOlderThan(this.rainClicks, now - 24 * 3600 * 1000);
+
+        const { temperature, humidity, solarRadiation } = this.diurnalCycle(time, raining);
+        const gust = this.windSamples.reduce((gust, sample) => sample.value >= gust.value ? sample : gust);
+        const rainSince = (seconds: number) => this.rainClicks.filter(click => click.time > now - seconds * 1000).length * RAIN_CLICK;
+        const pressureChange = this.pressure - this.pressureSamples[0].value;
+
+        const record = new RichRealtimeData();
+        record.time = time;
+        record.tempOut = round(this.convert.temperature(temperature), 1);
+        record.tempIn = round(this.convert.temperature(71 + 0.5 * this.gaussian()), 1);
+        record.humOut = Math.round(humidity);
+        record.humIn = 40;
+        record.dewpoint = round(this.convert.temperature(dewpoint(temperature, humidity)), 1);
+        record.chill = round(this.convert.temperature(windChill(temperature, wind)), 1);
+        record.heat = round(this.convert.temperature(heatIndex(temperature, humidity)), 1);
+        record.press = round(this.convert.pressure(this.pressure), 3);
+        record.pressRaw = record.press;
+        record.pressAbs = record.press;
+        record.altimeter = record.press;
+        record.pressTrendID = pressureChange <= -0.06 ? -60 : pressureChange <= -0.02 ? -20 : pressureChange < 0.02 ? 0 : pressureChange < 0.06 ? 20 : 60;
+        record.pressTrend = ({ [-60]: "Falling Rapidly", [-20]: "Falling Slowly", 0: "Steady", 20: "Rising Slowly", 60: "Rising Rapidly" } as const)[record.pressTrendID];
+        record.wind = round(this.convert.wind(wind), 1);
+        record.windDirDeg = windDirection;
+        record.windDir = toWindDirection(windDirection);
+        record.windAvg2m = round(this.convert.wind(average(this.windSamples.filter(sample => sample.time > now - 120 * 1000))), 1);
+        record.windAvg10m = round(this.convert.wind(average(this.windSamples)), 1);
+        record.windGust = round(this.convert.wind(gust.value), 1);
+        record.windGustDirDeg = gust.direction;
+        record.windGustDir = toWindDirection(gust.direction);
+        record.rainRate = round(this.convert.rain(this.rainEvent ? this.rainEvent.rate : 0), 2);
+        record.rain15m = round(this.convert.rain(rainSince(900)), 2);
+        record.rain1h = round(this.convert.rain(rainSince(3600)), 2);
+        record.rain24h = round(this.convert.rain(rainSince(86400)), 2);
+        record.rainDay = round(this.convert.rain(this.rainDay), 2);
+        record.rainMonth = round(this.convert.rain(this.rainMonth), 2);
+        record.rainYear = round(this.convert.rain(this.rainYear), 2);
+        record.stormRain = round(this.convert.rain(this.stormRain), 2);
+        record.stormStartDate = this.stormStartDate;
+        record.solarRadiation = Math.round(solarRadiation);
+        record.uv = round(solarRadiation / 90, 1);
+        record.transmitterBatteryStatus = 0;
+        record.consoleBatteryVoltage = 4.7;
+        return record;
+    }
+
+    /**
+     * Returns the undisturbed weather (in imperial units) at the passed time: warmest at 3 p.m., coldest in mid-January (northern hemisphere).
+     */
+    private diurnalCycle(time: Date, raining: boolean){
+        const dayOfYear = (time.getTime() - new Date(time.getFullYear(), 0, 1).getTime()) / 86400000;
+        const season = -Math.cos(2 * Math.PI * (dayOfYear - 15) / 365);
+        const daytime = Math.cos(2 * Math.PI * (hoursOf(time) - 15) / 24);
+
+        const temperature = 50 + 18 * season + 10 * daytime + 5 * this.temperatureNoise - (raining ? 4 : 0);
+        const humidity = raining ? 96 : clamp(65 - 25 * daytime - 10 * this.temperatureNoise, 20, 98);
+        const sunHeight = Math.sin(Math.PI * (hoursOf(time) - 6) / 12);
+        const solarRadiation = sunHeight <= 0 ? 0 : 950 * sunHeight * (0.8 + 0.2 * season) * (raining ? 0.2 : 1);
+        return { temperature, humidity, solarRadiation };
+    }
+
+    private createArchiveRecord(time: Date) : ArchiveRecord{
+        const { temperature, humidity, solarRadiation } = this.diurnalCycle(time, false);
+        const wind = 5 + 3 * Math.sin(Math.PI * (hoursOf(time) - 9) / 12);
+        const direction = Math.round(this.windDirection / 22.5) % 16;
+        return {
+            time,
+            tempOut: round(this.convert.temperature(temperature), 1),
+            tempOutHi: round(this.convert.temperature(temperature + 0.5), 1),
+            tempOutLo: round(this.convert.temperature(temperature - 0.5), 1),
+            rain: 0,
+            rainRateHi: 0,
+            press: round(this.convert.pressure(this.pressure), 3),
+            solarRadiation: Math.round(solarRadiation),
+            solarRadiationHi: Math.round(solarRadiation * 1.05),
+            windSamples: this.archiveInterval * 60 / 2.5,
+            tempIn: round(this.convert.temperature(71), 1),
+            humIn: 40,
+            humOut: Math.round(humidity),
+            windAvg: round(this.convert.wind(Math.round(wind)), 1),
+            windHi: round(this.convert.wind(Math.round(wind * 1.6)), 1),
+            windHiDir: windDirections[direction],
+            windHiDirDeg: direction * 22.5,
+            windDir: windDirections[direction],
+            windDirDeg: direction * 22.5,
+            uv: round(solarRadiation / 90, 1),
+            uvHi: round(solarRadiation * 1.05 / 90, 1),
+            et: null,
+            forecastRule: null,
+            leafTemps: [null, null],
+            leafWetnesses: [null, null],
+            soilTemps: [null, null, null, null],
+            humExtra: [null, null],
+            tempExtra: [null, null, null],
+            soilMoistures: [null, null, null, null],
+        };
+    }
+
+    private addRainClick(time: Date){
+        this.rainClicks.push({ time: time.getTime(), value: RAIN_CLICK });
+        this.rainDay += RAIN_CLICK;
+        this.rainMonth += RAIN_CLICK;
+        this.rainYear += RAIN_CLICK;
+        this.stormRain += RAIN_CLICK;
+        if(!this.stormStartDate){
+            this.stormStartDate = new Date(time.getFullYear(), time.getMonth(), time.getDate());
+        }
+    }
+
+    /**
+     * Resets the daily, monthly and yearly rain counters and ends the storm after 24 hours without rain.
+     */
+    private resetCounters(time: Date){
+        const last = this.lastStep === undefined ? undefined : new Date(this.lastStep);
+        if(last && last.getDate() !== time.getDate()){
+            this.rainDay = 0;
+        }
+        if(last && last.getMonth() !== time.getMonth()){
+            this.rainMonth = 0;
+        }
+        if(last && last.getFullYear() !== time.getFullYear()){
+            this.rainYear = 0;
+        }
+        const lastClick = this.rainClicks[this.rainClicks.length - 1];
+        if(this.stormStartDate && (!lastClick || lastClick.time < time.getTime() - 24 * 3600 * 1000)){
+            this.stormStartDate = null;
+            this.stormRain = 0;
+        }
+    }
+
+    /**
+     * Tracks the daily highs and lows of the generated (or replayed) current conditions.
+     */
+    private updateHighsAndLows(record: RichRealtimeData){
+        const day = record.time.toDateString();
+        if(day !== this.highsAndLowsDay){
+            this.highsAndLows = new HighsAndLows();
+            this.highsAndLowsDay = day;
+        }
+        const clock = record.time.toTimeString().slice(0, 5);
+        const track = (element: { day: { high: number | null, low: number | null, highTime: string | null, lowTime: string | null } }, value: number | null) => {
+            if(value === null) return;
+            if(element.day.high === null || value > element.day.high){
+                element.day.high = value;
+                element.day.highTime = clock;
+            }
+            if(element.day.low === null || value < element.day.low){
+                element.day.low = value;
+                element.day.lowTime = clock;
+            }
+        };
+        const trackHigh = (element: { day: number | null, dayTime: string | null }, value: number | null) => {
+            if(value !== null && (element.day === null || value > element.day)){
+                element.day = value;
+                element.dayTime = clock;
+            }
+        };
+        track(this.highsAndLows.tempOut, record.tempOut);
+        track(this.highsAndLows.tempIn, record.tempIn);
+        track(this.highsAndLows.humOut, record.humOut);
+        track(this.highsAndLows.humIn, record.humIn);
+        track(this.highsAndLows.dew, record.dewpoint);
+        track(this.highsAndLows.pressure, record.press);
+        trackHigh(this.highsAndLows.wind, record.windGust);
+        trackHigh(this.highsAndLows.heat, record.heat);
+        trackHigh(this.highsAndLows.solarRadiation, record.solarRadiation);
+        trackHigh(this.highsAndLows.uv, record.uv);
+        trackHigh(this.highsAndLows.rainRate, record.rainRate);
+        if(record.chill !== null && (this.highsAndLows.chill.day === null || record.chill < this.highsAndLows.chill.day)){
+            this.highsAndLows.chill.day = record.chill;
+            this.highsAndLows.chill.dayTime = clock;
+        }
+    }
+
+    /** Returns a normally distributed random number (Box-Muller transform). */
+    private gaussian(){
+        return Math.sqrt(-2 * Math.log(1 - this.random())) * Math.cos(2 * Math.PI * this.random());
+    }
+}
+
+/** Creates a seeded pseudo random number generator (mulberry32). */
+function createRandom(seed: number){
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function hoursOf(time: Date){
+    return time.getHours() + time.getMinutes() / 60 + time.getSeconds() / 3600;
+}
+
+function clamp(value: number, min: number, max: number){
+    return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number | null, digits: number){
+    return value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function average(samples: Sample[]){
+    return samples.length === 0 ? 0 : samples.reduce((sum, sample) => sum + sample.value, 0) / samples.length;
+}
+
+function dropOlderThan(samples: Sample[], time: number){
+    while(samples.length > 1 && samples[0].time < time){
+        samples.shift();
+    }
+}
+
+function toWindDirection(degrees: number){
+    return windDirections[Math.round(degrees / 22.5) % 16];
+}
+
+/** Calculates the dew point (°F) using the Magnus formula. */
+function dewpoint(temperature: number, humidity: number){
+    const celsius = (temperature - 32) * 5 / 9;
+    const gamma = Math.log(humidity / 100) + 17.62 * celsius / (243.12 + celsius);
+    return 243.12 * gamma / (17.62 - gamma) * 9 / 5 + 32;
+}
+
+/** Calculates the wind chill (°F) using the NWS formula. */
+function windChill(temperature: number, wind: number){
+    if(temperature > 50 || wind <= 3){
+        return temperature;
+    }
+    return 35.74 + 0.6215 * temperature - 35.75 * wind ** 0.16 + 0.4275 * temperature * wind ** 0.16;
+}
+
+/** Calculates the heat index (°F) using the Rothfusz regression. */
+function heatIndex(temperature: number, humidity: number){
+    if(temperature < 80){
+        return temperature;
+    }
+    return -42.379 + 2.04901523 * temperature + 10.14333127 * humidity - 0.22475541 * temperature * humidity - 0.00683783 * temperature ** 2
+        - 0.05481717 * humidity ** 2 + 0.00122874 * temperature ** 2 * humidity + 0.00085282 * temperature * humidity ** 2 - 0.00000199 * temperature ** 2 * humidity ** 2;
+}
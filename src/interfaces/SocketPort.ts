@@ -0,0 +1,87 @@
+import net from "net";
+import { EventEmitter } from "events";
+
+/** The time (in milliseconds) establishing the TCP connection may take. */
+const CONNECT_TIMEOUT = 10000;
+
+/**
+ * A TCP connection that mimics the parts of the `SerialPort` api used by vantjs. Allows talking to a console behind a _WeatherLinkIP_
+ * data logger or a serial-over-TCP bridge (e.g. ser2net) using the same protocol as over a serial connection.
+ *
+ * Like a `SerialPort` created with `autoOpen: false` the connection is established by calling `open()`.
+ * Fires `open`, `close`, `data` and `error` events. Errors are only emitted if someone listens, otherwise the following `close` event reports the problem.
+ * @hidden
+ */
+export default class SocketPort extends EventEmitter{
+    public readonly host : string;
+    public readonly port : number;
+    public isOpen = false;
+    public opening = false;
+    public closing = false;
+
+    private socket? : net.Socket;
+
+    constructor(host: string, port: number){
+        super();
+        this.host = host;
+        this.port = port;
+    }
+
+    public open = (callback: (err?: Error | null) => void) => {
+        if(this.isOpen || this.opening){
+            callback(new Error(`Connection to '${this.host}:${this.port}' is already open!`));
+            return;
+        }
+        this.opening = true;
+
+        const socket = net.createConnection({ host: this.host, port: this.port });
+        socket.setNoDelay(true);
+        socket.setTimeout(CONNECT_TIMEOUT, () => socket.destroy(new Error(`Connecting to '${this.host}:${this.port}' timed out!`)));
+        socket.once("connect", () => {
+            socket.setTimeout(0);
+            socket.setKeepAlive(true, 10000);
+            this.opening = false;
+            this.isOpen = true;
+            this.socket = socket;
+            callback(null);
+            this.emit("open");
+        });
+        socket.on("data", (data) => this.emit("data", data));
+        socket.on("error", (err) => {
+            if(this.opening){
+                this.opening = false;
+                callback(err);
+            }else if(this.listenerCount("error") > 0){
+                this.emit("error", err);
+            }
+        });
+        socket.on("close", () => {
+            const wasOpen = this.isOpen;
+            this.isOpen = false;
+            this.closing = false;
+            this.socket = undefined;
+            if(wasOpen){
+                this.emit("close");
+            }
+        });
+    }
+
+    public write = (chunk: string | Buffer, callback: (err?: Error | null) => void) => {
+        if(!this.socket || !this.isOpen){
+            callback(new Error(`Connection to '${this.host}:${this.port}' is not open!`));
+            return;
+        }
+        this.socket.write(chunk, callback);
+    }
+
+    public close = (callback: (err?: Error | null) => void) => {
+        if(!this.socket || !this.isOpen){
+            callback(new Error(`Connection to '${this.host}:${this.port}' is not open!`));
+            return;
+        }
+        this.closing = true;
+        this.socket.once("close", () => callback(null));
+        this.socket.end();
+        this.socket.setTimeout(CONNECT_TIMEOUT, () => this.socket?.destroy());
+    }
+}
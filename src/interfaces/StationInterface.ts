@@ -0,0 +1,224 @@
+import { VantPro2Interface } from "vantjs/interfaces";
+import { MinimumVantInterfaceSettings } from "vantjs/interfaces/settings";
+import { MalformedDataError } from "vantjs/errors";
+import ArchiveRecord from "../structures/ArchiveRecord";
+import parseArchiveRecord, { ARCHIVE_RECORD_SIZE, parseArchiveRecordTime } from "../parsers/parseArchiveRecord";
+import SocketPort from "./SocketPort";
+import { ArchiveInterval } from "../settings/RecorderSettings";
+
+const ACK = 0x06;
+const NAK = 0x21;
+
+/** The size of a single archive page in bytes (sequence number, 5 records, 4 unused bytes, 2 crc bytes). */
+const ARCHIVE_PAGE_SIZE = 267;
+/** The number of records per archive page. */
+const RECORDS_PER_PAGE = 5;
+/** How often a corrupted archive page is requested again before giving up. */
+const MAX_PAGE_RETRIES = 3;
+/** The data ids of the daily rain and ET counters used by the `CLRVAR` command. */
+const DAILY_RAIN_ID = 13;
+const DAILY_ET_ID = 26;
+
+/**
+ * Interface to the _Vantage Pro 2_ and _Vantage Vue_ weather stations used by the recorder. Is built on top of the {@link VantPro2Interface} and adds
+ * features vantjs doesn't offer (yet), like downloading the station's archive memory.
+ *
+ * Create an instance using {@link StationInterface.create} (serial connection) or {@link StationInterface.createNetworkInterface} (TCP connection).
+ */
+export default class StationInterface extends VantPro2Interface{
+    /**
+     * Creates an interface to your vantage pro 2 or vue weather station using the passed settings.
+     * @param settings the settings
+     *
+     * @throws {@link SerialPortError} if the serialport connection unexpectedly closes (or similar)
+     * @throws {@link FailedToWakeUpError} if the console doesn't wake up after trying three times
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     */
+    public static async create(settings: MinimumVantInterfaceSettings) : Promise<StationInterface>{
+        const device = new StationInterface(settings);
+        await this.performOnCreateAction(device);
+        return device;
+    }
+
+    /**
+     * Creates an interface to a weather station that is reachable via TCP, e.g. behind a _WeatherLinkIP_ data logger (port `22222`) or a
+     * serial-over-TCP bridge like ser2net. The same protocol as over a serial connection is used.
+     * @param settings the settings (the `path` is ignored)
+     * @param host the host of the data logger / bridge
+     * @param port the TCP port of the data logger / bridge
+     *
+     * @throws {@link SerialPortError} if the connection can't be established or unexpectedly closes (or similar)
+     * @throws {@link FailedToWakeUpError} if the console doesn't wake up after trying three times
+     */
+    public static async createNetworkInterface(settings: Omit<MinimumVantInterfaceSettings, "path">, host: string, port: number) : Promise<StationInterface>{
+        const device = new StationInterface({ ...settings, path: `tcp://${host}:${port}` });
+
+        // vantjs talks to its private serial port only, replace it with a TCP connection offering the same api
+        const socketPort = new SocketPort(host, port);
+        socketPort.on("close", () => device.emit("close"));
+        socketPort.on("open", () => device.emit("open"));
+        (device as unknown as { port: SocketPort }).port = socketPort;
+
+        await this.performOnCreateAction(device);
+        return device;
+    }
+
+    /**
+     * Downloads all archive records newer than the passed date using the `DMPAFT` command. If no date is passed the whole archive memory is downloaded.
+     * The records are sorted from oldest to newest.
+     * @param since the time of the newest record you already have (console time)
+     * @returns the archive records newer than `since`
+     *
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     * @throws {@link MalformedDataError} if the data received from the console is malformed
+     * @throws {@link SerialPortError} if the serialport connection unexpectedly closes (or similar)
+     */
+    public getArchiveRecords = async(since?: Date) => {
+        this.checkPortConnection();
+
+        const ack = await this.writeAndWaitForBuffer("DMPAFT\n", 1);
+        if(ack.readUInt8(0) !== ACK){
+            throw new MalformedDataError("The console didn't acknowledge the DMPAFT command!");
+        }
+
+        // Send the date and time stamp of the newest known record
+        const stamp = Buffer.alloc(6);
+        if(since){
+            stamp.writeUInt16LE(since.getDate() + (since.getMonth() + 1) * 32 + (since.getFullYear() - 2000) * 512, 0);
+            stamp.writeUInt16LE(since.getHours() * 100 + since.getMinutes(), 2);
+        }
+        stamp.writeUInt16BE(this.computeCRC(stamp.subarray(0, 4)), 4);
+
+        const header = await this.writeAndWaitForBuffer(stamp, 7);
+        if(header.readUInt8(0) !== ACK){
+            throw new MalformedDataError("The console rejected the DMPAFT time stamp!");
+        }
+        const headerData = header.subarray(1, 5);
+        this.validateCRC(headerData, header.readUInt16BE(5));
+        const pageCount = headerData.readUInt16LE(0);
+        const firstRecordIndex = headerData.readUInt16LE(2);
+
+        // Download the pages
+        const records : ArchiveRecord[] = [];
+        for(let pageIndex = 0; pageIndex < pageCount; pageIndex++){
+            const page = await this.readArchivePage();
+            for(let recordIndex = pageIndex === 0 ? firstRecordIndex : 0; recordIndex < RECORDS_PER_PAGE; recordIndex++){
+                const buffer = page.subarray(1 + recordIndex * ARCHIVE_RECORD_SIZE, 1 + (recordIndex + 1) * ARCHIVE_RECORD_SIZE);
+                const time = parseArchiveRecordTime(buffer);
+                // The last page may contain empty or outdated records (the archive memory is a ring buffer)
+                if(!time || (since && time <= since) || (records.length > 0 && time <= records[records.length - 1].time)){
+                    continue;
+                }
+                records.push(parseArchiveRecord(buffer, this.rainClicksToInchTransformer, this.unitTransformers));
+            }
+        }
+
+        return records;
+    }
+
+    /**
+     * Reads the console's clock using the `GETTIME` command.
+     * @returns the console time (interpreted in the host's time zone)
+     *
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     * @throws {@link MalformedDataError} if the data received from the console is malformed
+     */
+    public getConsoleTime = async() => {
+        this.checkPortConnection();
+
+        const response = await this.writeAndWaitForBuffer("GETTIME\n", 9);
+        if(response.readUInt8(0) !== ACK){
+            throw new MalformedDataError("The console didn't acknowledge the GETTIME command!");
+        }
+        const data = response.subarray(1, 7);
+        this.validateCRC(data, response.readUInt16BE(7));
+        return new Date(data.readUInt8(5) + 1900, data.readUInt8(4) - 1, data.readUInt8(3), data.readUInt8(2), data.readUInt8(1), data.readUInt8(0));
+    }
+
+    /**
+     * Sets the console's clock using the `SETTIME` command.
+     * @param time the new console time (in the host's time zone)
+     *
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     * @throws {@link MalformedDataError} if the console doesn't acknowledge the new time
+     */
+    public setConsoleTime = async(time: Date) => {
+        this.checkPortConnection();
+        await this.sendCommand("SETTIME\n");
+
+        const data = Buffer.from([time.getSeconds(), time.getMinutes(), time.getHours(), time.getDate(), time.getMonth() + 1, time.getFullYear() - 1900, 0, 0]);
+        data.writeUInt16BE(this.computeCRC(data.subarray(0, 6)), 6);
+        await this.sendCommand(data);
+    }
+
+    /**
+     * Reads the archive interval from the console's EEPROM (address `0x2D`).
+     * @returns the archive interval in minutes
+     *
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     * @throws {@link MalformedDataError} if the data received from the console is malformed
+     */
+    public getArchiveInterval = async() => {
+        this.checkPortConnection();
+
+        const response = await this.writeAndWaitForBuffer("EEBRD 2D 01\n", 4);
+        if(response.readUInt8(0) !== ACK){
+            throw new MalformedDataError("The console didn't acknowledge the EEBRD command!");
+        }
+        this.validateCRC(response.subarray(1, 2), response.readUInt16BE(2));
+        return response.readUInt8(1);
+    }
+
+    /**
+     * Sets the archive interval using the `SETPER` command. **Changing the archive interval clears the console's archive memory.**
+     * @param minutes the archive interval in minutes
+     *
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     * @throws {@link MalformedDataError} if the console doesn't acknowledge the command
+     */
+    public setArchiveInterval = async(minutes: ArchiveInterval) => {
+        this.checkPortConnection();
+        await this.sendCommand(`SETPER ${minutes}\n`);
+    }
+
+    /**
+     * Clears the daily rain and ET counters (`CLRVAR`) and the daily highs and lows (`CLRHIGHS`, `CLRLOWS`).
+     *
+     * @throws {@link ClosedConnectionError} if the connection to the weather station's console is already closed
+     * @throws {@link MalformedDataError} if the console doesn't acknowledge a command
+     */
+    public clearDailyValues = async() => {
+        this.checkPortConnection();
+        await this.sendCommand(`CLRVAR ${DAILY_RAIN_ID}\n`);
+        await this.sendCommand(`CLRVAR ${DAILY_ET_ID}\n`);
+        await this.sendCommand("CLRHIGHS 0\n");
+        await this.sendCommand("CLRLOWS 0\n");
+    }
+
+    /**
+     * Sends a command (or data) the console answers with an acknowledgement byte.
+     * @param command the command
+     */
+    private async sendCommand(command: string | Buffer){
+        const ack = await this.writeAndWaitForBuffer(command, 1);
+        if(ack.readUInt8(0) !== ACK){
+            const name = typeof command === "string" ? command.trim().split(" ")[0] : "data";
+            throw new MalformedDataError(`The console didn't acknowledge the ${name} command!`);
+        }
+    }
+
+    /**
+     * Requests the next archive page. Corrupted pages are requested again.
+     * @returns the archive page
+     */
+    private async readArchivePage(){
+        let page = await this.writeAndWaitForBuffer(Buffer.from([ACK]), ARCHIVE_PAGE_SIZE);
+        for(let retries = 0; this.computeCRC(page.subarray(0, ARCHIVE_PAGE_SIZE)) !== 0; retries++){
+            if(retries >= MAX_PAGE_RETRIES){
+                throw new MalformedDataError("Received invalid CRC value on archive page. An error occurred during data transmission.");
+            }
+            page = await this.writeAndWaitForBuffer(Buffer.from([NAK]), ARCHIVE_PAGE_SIZE);
+        }
+        return page;
+    }
+}
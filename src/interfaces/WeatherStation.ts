@@ -0,0 +1,34 @@
+import { HighsAndLows, RichRealtimeData } from "vant-environment/structures";
+import ArchiveRecord from "../structures/ArchiveRecord";
+import { ArchiveInterval } from "../settings/RecorderSettings";
+
+/**
+ * The operations the recorder needs from a weather station. Implemented by the {@link StationInterface} (real _Vantage Pro 2_ or _Vue_)
+ * and by the {@link SimulatedStationInterface}.
+ */
+export default interface WeatherStation{
+    /** Gets the current conditions. */
+    getRichRealtimeData(): Promise<RichRealtimeData>;
+    /** Gets the daily, monthly and yearly highs and lows. */
+    getHighsAndLows(): Promise<HighsAndLows>;
+    /** Gets all archive records newer than the passed date (oldest first). */
+    getArchiveRecords(since?: Date): Promise<ArchiveRecord[]>;
+    /** Reads the console's clock. */
+    getConsoleTime(): Promise<Date>;
+    /** Sets the console's clock. */
+    setConsoleTime(time: Date): Promise<void>;
+    /** Gets the console's archive interval in minutes. */
+    getArchiveInterval(): Promise<number>;
+    /** Sets the console's archive interval in minutes. */
+    setArchiveInterval(minutes: ArchiveInterval): Promise<void>;
+    /** Clears the daily rain and ET counters and the daily highs and lows. */
+    clearDailyValues(): Promise<void>;
+    /** Returns whether the connection to the weather station is open. */
+    isPortOpen(): boolean;
+    /** Closes the connection to the weather station. */
+    close(): Promise<void>;
+    /** Registers a listener that is called when the connection to the weather station closes. */
+    on(event: "close", listener: () => void): this;
+    /** Removes a listener registered using `on(...)`. */
+    removeListener(event: "close", listener: () => void): this;
+}
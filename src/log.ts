@@ -1,5 +1,29 @@
+import { AsyncLocalStorage } from "async_hooks";
+import winston from "winston";
 import { createLogger } from "vant-environment/log";
 
 const log = createLogger();
 
-export default log;
\ No newline at end of file
+const logPrefix = new AsyncLocalStorage<string>();
+
+// Prefixes the messages logged within withLogPrefix(...) (the format survives re-configuring the logger)
+log.format = winston.format((info) => {
+    const prefix = logPrefix.getStore();
+    if(prefix !== undefined && typeof info.message === "string"){
+        info.message = `[${prefix}] ${info.message}`;
+    }
+    return info;
+})();
+
+/**
+ * Runs the passed function. All messages logged by it (including its asynchronous continuations like timers and event listeners
+ * registered by it) are prefixed with `[prefix]`. Used to tell apart the log messages of multiple stations recorded in one process.
+ * @param prefix the prefix, e.g. the station's name
+ * @param fn the function to run
+ * @returns the function's result
+ */
+export function withLogPrefix<T>(prefix: string, fn: () => T) : T{
+    return logPrefix.run(prefix, fn);
+}
+
+export default log;
@@ -0,0 +1,99 @@
+import type { UnitTransformers } from "vantjs/dist/parsers";
+import ArchiveRecord, { WindDirection } from "../structures/ArchiveRecord";
+
+/** The size of a single archive record in bytes. */
+export const ARCHIVE_RECORD_SIZE = 52;
+
+const windDirections : WindDirection[] = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"];
+
+/**
+ * Parses the date and time stamp of an archive record. Returns `null` if the record is empty (never written).
+ * @param buffer the archive record
+ * @returns the record's time or `null`
+ * @hidden
+ */
+export function parseArchiveRecordTime(buffer: Buffer) : Date | null{
+    const dateStamp = buffer.readUInt16LE(0);
+    const timeStamp = buffer.readUInt16LE(2);
+    if(dateStamp === 0xFFFF || dateStamp === 0 || timeStamp === 0xFFFF){
+        return null;
+    }
+    const day = dateStamp & 0x1F;
+    const month = (dateStamp >> 5) & 0x0F;
+    const year = (dateStamp >> 9) + 2000;
+    return new Date(year, month - 1, day, Math.floor(timeStamp / 100), timeStamp % 100);
+}
+
+/**
+ * Parses a single archive record (revision B format, 52 bytes) as described in the _Vantage Serial Protocol_ documentation.
+ * @param buffer the archive record
+ * @param rainClicksToInch converts rain clicks to inch (depends on the rain collector size)
+ * @param unitTransformers converts the console's units to the configured ones
+ * @returns the parsed archive record
+ * @hidden
+ */
+export default function parseArchiveRecord(buffer: Buffer, rainClicksToInch: (rainClicks: number) => number, unitTransformers: UnitTransformers) : ArchiveRecord{
+    const temperature = (offset: number, dashedValue: number) => {
+        const value = buffer.readInt16LE(offset);
+        return value === dashedValue ? null : unitTransformers.temperature(value / 10);
+    };
+    const byte = (offset: number) => {
+        const value = buffer.readUInt8(offset);
+        return value === 255 ? null : value;
+    };
+    const extraTemperature = (offset: number) => {
+        const value = byte(offset);
+        return value === null ? null : unitTransformers.temperature(value - 90);
+    };
+    const direction = (offset: number) => {
+        const value = byte(offset);
+        return value === null || value > 15 ? null : value;
+    };
+    const solarRadiation = (offset: number) => {
+        const value = buffer.readUInt16LE(offset);
+        return value === 32767 ? null : unitTransformers.solarRadiation(value);
+    };
+
+    const rainClicks = buffer.readUInt16LE(10);
+    const rainRateClicks = buffer.readUInt16LE(12);
+    const pressure = buffer.readUInt16LE(14);
+    const windSpeed = byte(24);
+    const windSpeedHi = byte(25);
+    const windHiDir = direction(26);
+    const windDir = direction(27);
+    const uv = byte(28);
+    const uvHi = byte(32);
+    const et = buffer.readUInt8(29);
+
+    return {
+        time: parseArchiveRecordTime(buffer)!,
+        tempOut: temperature(4, 32767),
+        tempOutHi: temperature(6, -32768),
+        tempOutLo: temperature(8, 32767),
+        rain: unitTransformers.rain(rainClicksToInch(rainClicks & 0x0FFF)),
+        rainRateHi: unitTransformers.rain(rainClicksToInch(rainRateClicks)),
+        press: pressure === 0 ? null : unitTransformers.pressure(pressure / 1000),
+        solarRadiation: solarRadiation(16),
+        solarRadiationHi: solarRadiation(30),
+        windSamples: buffer.readUInt16LE(18),
+        tempIn: temperature(20, 32767),
+        humIn: byte(22),
+        humOut: byte(23),
+        windAvg: windSpeed === null ? null : unitTransformers.wind(windSpeed),
+        windHi: windSpeedHi === null ? null : unitTransformers.wind(windSpeedHi),
+        windHiDir: windHiDir === null ? null : windDirections[windHiDir],
+        windHiDirDeg: windHiDir === null ? null : (windHiDir === 0 ? 360 : windHiDir * 22.5),
+        windDir: windDir === null ? null : windDirections[windDir],
+        windDirDeg: windDir === null ? null : (windDir === 0 ? 360 : windDir * 22.5),
+        uv: uv === null ? null : uv / 10,
+        uvHi: uvHi === null ? null : uvHi / 10,
+        et: unitTransformers.rain(et / 1000),
+        forecastRule: byte(33),
+        leafTemps: [extraTemperature(34), extraTemperature(35)],
+        leafWetnesses: [byte(36), byte(37)],
+        soilTemps: [extraTemperature(38), extraTemperature(39), extraTemperature(40), extraTemperature(41)],
+        humExtra: [byte(43), byte(44)],
+        tempExtra: [extraTemperature(45), extraTemperature(46), extraTemperature(47)],
+        soilMoistures: [byte(48), byte(49), byte(50), byte(51)],
+    };
+}
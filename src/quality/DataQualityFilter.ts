@@ -0,0 +1,175 @@
+import { UnitConfiguration } from "vant-environment/units";
+import { RichRealtimeData } from "vant-environment/structures";
+import { DeepReadonly } from "ts-essentials";
+import { DataQualityAction, DataQualityRule, DataQualitySettings } from "../settings/RecorderSettings";
+import createDefaultDataQualityRules from "./defaultDataQualityRules";
+import log from "../log";
+
+/**
+ * The check a value failed: the physical `range`, the rate of change (`spike`), a `decrease` of a counter or a `stale` value.
+ */
+export type DataQualityCheck = "range" | "spike" | "decrease" | "stale";
+
+/**
+ * A value that failed a data quality rule.
+ */
+export interface DataQualityIssue{
+    /** The field, list items are suffixed with their index (e.g. `tempExtra[2]`). */
+    field: string,
+    /** The invalid value. */
+    value: number,
+    /** The failed check. */
+    check: DataQualityCheck,
+    /** Why the value is invalid (e.g. `above the maximum of 150`). */
+    reason: string,
+}
+
+/**
+ * The reasons why values are invalid by field. Added to the current conditions as `qualityFlags` property if invalid values are flagged.
+ */
+export type DataQualityFlags = Record<string, string>;
+
+interface FieldState{
+    /** The last value (valid or not). */
+    lastValue?: number,
+    /** Since when the field has the last value. */
+    unchangedSince?: number,
+    /** The last valid value and its time. */
+    lastValid?: { value: number, time: number },
+    /** Whether the last value was invalid. Only changes are logged as warning. */
+    invalid: boolean,
+}
+
+/**
+ * Validates the current conditions using physical range checks, rate-of-change limits, counter checks and stale value detection (see {@link DataQualityRule}).
+ * The filter remembers the previous values of every field, so one filter has to be used for the records of one weather station in chronological order.
+ */
+export default class DataQualityFilter{
+    private readonly action : DataQualityAction;
+    private readonly rules = new Map<string, DataQualityRule>();
+    private readonly fields = new Map<string, FieldState>();
+
+    /**
+     * Creates a filter using the passed settings. The configured rules are merged with the default rules by field.
+     * @param settings the data quality settings
+     * @param units the units the current conditions are measured in
+     */
+    constructor(settings: DeepReadonly<DataQualitySettings>, units: DeepReadonly<UnitConfiguration>){
+        this.action = settings.action;
+        const defaultRules = createDefaultDataQualityRules(units);
+        for(const field of new Set([...Object.keys(defaultRules), ...Object.keys(settings.rules)])){
+            const rule = settings.rules[field];
+            if(rule !== false){
+                this.rules.set(field, { ...defaultRules[field], ...rule });
+            }
+        }
+    }
+
+    /**
+     * Validates the passed record and nulls (or flags) its invalid values. Modifies the passed record.
+     * @param record the current conditions
+     * @returns the invalid values
+     */
+    public apply = (record: RichRealtimeData) => {
+        const time = record.time.getTime();
+        const issues : DataQualityIssue[] = [];
+        const values = record as unknown as Record<string, unknown>;
+
+        for(const [field, rule] of this.rules){
+            const value = values[field];
+            if(Array.isArray(value)){
+                value.forEach((item, index) => {
+                    const issue = this.check(`${field}[${index}]`, item, time, rule);
+                    if(issue){
+                        issues.push(issue);
+                        if(this.action === "null"){
+                            value[index] = null;
+                        }
+                    }
+                });
+            }else{
+                const issue = this.check(field, value, time, rule);
+                if(issue){
+                    issues.push(issue);
+                    if(this.action === "null"){
+                        values[field] = null;
+                    }
+                }
+            }
+        }
+
+        if(this.action === "flag" && issues.length > 0){
+            const flags : DataQualityFlags = {};
+            for(const issue of issues){
+                flags[issue.field] = issue.reason;
+            }
+            values.qualityFlags = flags;
+        }
+        return issues;
+    }
+
+    /**
+     * Checks a single value and updates the field's state.
+     * @returns the issue or `undefined` if the value is valid (or missing)
+     */
+    private check(field: string, value: unknown, time: number, rule: DataQualityRule) : DataQualityIssue | undefined{
+        if(typeof value !== "number"){
+            return undefined;
+        }
+
+        let state = this.fields.get(field);
+        if(!state){
+            state = { invalid: false };
+            this.fields.set(field, state);
+        }
+        if(state.lastValue !== value || state.unchangedSince === undefined){
+            state.unchangedSince = time;
+        }
+
+        let check : DataQualityCheck | undefined;
+        let reason = "";
+        if(rule.min !== undefined && value < rule.min){
+            check = "range";
+            reason = `below the minimum of ${round(rule.min)}`;
+        }else if(rule.max !== undefined && value > rule.max){
+            check = "range";
+            reason = `above the maximum of ${round(rule.max)}`;
+        }else if(rule.increasing && state.lastValue !== undefined && value < state.lastValue && value !== 0){
+            check = "decrease";
+            reason = `decreased from ${state.lastValue}`;
+        }else if(rule.maxChangePerMinute !== undefined && state.lastValid){
+            const minutes = Math.max((time - state.lastValid.time) / 60000, 1);
+            if(Math.abs(value - state.lastValid.value) > rule.maxChangePerMinute * minutes){
+                check = "spike";
+                reason = `changed from ${state.lastValid.value} by more than ${round(rule.maxChangePerMinute)} per minute`;
+            }
+        }
+        if(!check && rule.maxUnchangedTime !== undefined && time - state.unchangedSince > rule.maxUnchangedTime * 1000){
+            check = "stale";
+            reason = `unchanged for more than ${rule.maxUnchangedTime}s`;
+        }
+
+        // Counters are compared to the last value (not the last valid one), so that a reset only invalidates one value
+        state.lastValue = value;
+        if(!check){
+            if(state.invalid){
+                log.info(`'${field}' is valid again (${value}).`);
+            }
+            state.invalid = false;
+            state.lastValid = { value, time };
+            return undefined;
+        }
+
+        if(!state.invalid){
+            log.warn(`Invalid value of '${field}': ${value} (${reason})!`);
+        }else{
+            log.debug(`Invalid value of '${field}': ${value} (${reason})`);
+        }
+        state.invalid = true;
+        return { field, value, check, reason };
+    }
+}
+
+function round(value: number){
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,68 @@
+import { UnitConfiguration } from "vant-environment/units";
+import { DeepReadonly } from "ts-essentials";
+import { DataQualityRule } from "../settings/RecorderSettings";
+import { createUnitConverters } from "../units/imperialUnits";
+
+/**
+ * Creates the default data quality rules in the passed units. The limits are physical limits of the Vantage sensors (and the weather on earth),
+ * so they only catch values that can't be real.
+ * @param units the units the current conditions are measured in
+ * @returns the default rules by field name
+ */
+export default function createDefaultDataQualityRules(units: DeepReadonly<UnitConfiguration>) : Record<string, DataQualityRule>{
+    const convert = createUnitConverters(units);
+    // The console measures in imperial units, the limits are converted to the configured units
+    const temperature = (value: number) => convert.temperature(value)!;
+    const temperatureChange = (value: number) => convert.temperature(value)! - convert.temperature(0)!;
+    const pressure = (value: number) => convert.pressure(value)!;
+    const wind = (value: number) => convert.wind(value)!;
+    const rain = (value: number) => convert.rain(value)!;
+
+    const outsideTemperature : DataQualityRule = { min: temperature(-60), max: temperature(150) };
+    const derivedTemperature : DataQualityRule = { min: temperature(-130), max: temperature(200) };
+    const humidity : DataQualityRule = { min: 0, max: 100 };
+    const windSpeed : DataQualityRule = { min: 0, max: wind(150) };
+    const direction : DataQualityRule = { min: 0, max: 360 };
+    const rainCounter : DataQualityRule = { min: 0, increasing: true };
+
+    return {
+        tempOut: { ...outsideTemperature, maxChangePerMinute: temperatureChange(9), maxUnchangedTime: 6 * 60 * 60 },
+        tempIn: outsideTemperature,
+        tempExtra: outsideTemperature,
+        soilTemps: outsideTemperature,
+        leafTemps: outsideTemperature,
+        dewpoint: derivedTemperature,
+        chill: derivedTemperature,
+        heat: derivedTemperature,
+        thsw: derivedTemperature,
+        humOut: humidity,
+        humIn: humidity,
+        humExtra: humidity,
+        press: { min: pressure(25), max: pressure(32.5), maxChangePerMinute: pressure(0.1) },
+        altimeter: { min: pressure(25), max: pressure(32.5) },
+        // The absolute pressure is lower at high altitudes
+        pressAbs: { min: pressure(15), max: pressure(32.5) },
+        pressRaw: { min: pressure(15), max: pressure(32.5) },
+        wind: windSpeed,
+        windAvg2m: windSpeed,
+        windAvg10m: windSpeed,
+        windGust: windSpeed,
+        windDirDeg: direction,
+        windGustDirDeg: direction,
+        rainRate: { min: 0, max: rain(40) },
+        rainDay: rainCounter,
+        rainMonth: rainCounter,
+        rainYear: rainCounter,
+        stormRain: rainCounter,
+        rain15m: { min: 0 },
+        rain1h: { min: 0 },
+        rain24h: { min: 0 },
+        etDay: { min: 0 },
+        etMonth: { min: 0 },
+        etYear: { min: 0 },
+        uv: { min: 0, max: 16 },
+        solarRadiation: { min: 0, max: 1800 },
+        soilMoistures: { min: 0, max: 200 },
+        leafWetnesses: { min: 0, max: 15 },
+    };
+}
@@ -0,0 +1,171 @@
+/**
+ * A rule that triggers if a field of the current conditions rises above (`"above"`) or falls below (`"below"`) a threshold.
+ *
+ * The alarm is cleared once the value returned past the threshold by `hysteresis`, e.g. a `windGust` alarm `above` `40` with a hysteresis of `5`
+ * triggers at `41` and is cleared at `35`. Missing (or nulled) values don't change the alarm's state.
+ */
+export interface ThresholdAlarmRuleSettings{
+    type: "above" | "below",
+    /** The rule's unique name. Used in the notifications. */
+    name: string,
+    /** The field of the current conditions (e.g. `windGust`, `tempOut` or `rainRate`). The value is compared in the configured units. */
+    field: string,
+    /** The threshold. */
+    value: number,
+    /** How far the value has to return past the threshold to clear the alarm. Default is `0`. */
+    hysteresis: number,
+    /** The minimum time (in seconds) between two notifications of the alarm. Alarms triggering again within this time are not notified. Default is `3600`. */
+    cooldown: number,
+}
+
+/**
+ * A rule that triggers if no current conditions have been recorded for `duration` seconds (e.g. because the console doesn't answer).
+ * The alarm is cleared by the next record. Requires the current conditions task.
+ */
+export interface NoDataAlarmRuleSettings{
+    type: "no-data",
+    /** The rule's unique name. Used in the notifications. */
+    name: string,
+    /** The time (in seconds) without current conditions after which the alarm triggers. */
+    duration: number,
+    /** The minimum time (in seconds) between two notifications of the alarm. Alarms triggering again within this time are not notified. Default is `3600`. */
+    cooldown: number,
+}
+
+/**
+ * The settings of an alarm rule. Use the `type` property to choose the rule.
+ */
+export type AlarmRuleSettings = ThresholdAlarmRuleSettings | NoDataAlarmRuleSettings;
+
+/**
+ * The settings of the webhook notifier. Every notification is posted as JSON (see {@link AlarmNotification}) to the configured URL.
+ */
+export interface WebhookNotifierSettings{
+    type: "webhook",
+    /** The URL the notifications are posted to. */
+    url: string,
+    /** Additional HTTP headers, e.g. an `Authorization` header. Default is `{}`. */
+    headers: Record<string, string>,
+}
+
+/**
+ * The settings of the email notifier. Every notification is sent as plain text email via SMTP.
+ */
+export interface SmtpNotifierSettings{
+    type: "smtp",
+    /** The SMTP server. */
+    host: string,
+    /** The SMTP server's port. Default is `587`. */
+    port: number,
+    /** Whether to connect using TLS (usually port `465`). Otherwise the connection is upgraded using `STARTTLS` if the server supports it. Default is `false`. */
+    secure: boolean,
+    /** The username used to authenticate at the server. Omit it if the server doesn't require authentication. */
+    username?: string,
+    /** The password used to authenticate at the server. */
+    password?: string,
+    /** The sender's address. */
+    from: string,
+    /** The recipients' addresses. */
+    to: string[],
+    /** A file containing additional trusted CA certificates (PEM), e.g. of a local mail server. */
+    caPath?: string,
+    /** Whether to skip the verification of the server's certificate and allow authenticating over an unencrypted connection. Only use this for local test servers! Default is `false`. */
+    insecure: boolean,
+}
+
+/**
+ * The settings of a notifier. Use the `type` property to choose the notifier.
+ */
+export type NotifierSettings = WebhookNotifierSettings | SmtpNotifierSettings;
+
+/**
+ * The settings for the alarms. The rules are evaluated on every validated current conditions record. If an alarm triggers or is cleared,
+ * a notification is sent to all notifiers.
+ *
+ * **Example** (YAML configuration file):
+ * ```yaml
+ * alarms:
+ *   rules:
+ *     - type: above
+ *       name: storm
+ *       field: windGust
+ *       value: 60
+ *       hysteresis: 10
+ *     - type: below
+ *       name: frost
+ *       field: tempOut
+ *       value: 0
+ *       hysteresis: 1
+ *     - type: no-data
+ *       name: station offline
+ *       duration: 600
+ *   notifiers:
+ *     - type: webhook
+ *       url: https://example.com/hooks/weather
+ *     - type: smtp
+ *       host: smtp.example.com
+ *       username: recorder@example.com
+ *       password: secret
+ *       from: recorder@example.com
+ *       to: [me@example.com]
+ * ```
+ */
+export default interface AlarmSettings{
+    /** The alarm rules. Default is `[]`. */
+    rules: AlarmRuleSettings[],
+    /** The notifiers the alarms are sent to. Default is `[]`. */
+    notifiers: NotifierSettings[],
+}
+
+/**
+ * The settings of an alarm rule. Only the `type`, `name` and the rule's threshold (or duration) are required, all other properties fall back to the defaults.
+ */
+export type MinimumAlarmRuleSettings = (Partial<ThresholdAlarmRuleSettings> & Pick<ThresholdAlarmRuleSettings, "type" | "name" | "field" | "value">)
+    | (Partial<NoDataAlarmRuleSettings> & Pick<NoDataAlarmRuleSettings, "type" | "name" | "duration">);
+
+/**
+ * The settings of a notifier. Only the `type` and the notifier's destination are required, all other properties fall back to the defaults.
+ */
+export type MinimumNotifierSettings = (Partial<WebhookNotifierSettings> & Pick<WebhookNotifierSettings, "type" | "url">)
+    | (Partial<SmtpNotifierSettings> & Pick<SmtpNotifierSettings, "type" | "host" | "from" | "to">);
+
+/**
+ * The settings for the alarms. All properties are optional.
+ */
+export type MinimumAlarmSettings = {
+    /** The alarm rules. Default is `[]`. */
+    rules?: MinimumAlarmRuleSettings[],
+    /** The notifiers the alarms are sent to. Default is `[]`. */
+    notifiers?: MinimumNotifierSettings[],
+}
+
+/** Array holding all valid alarm rule types. */
+export const AlarmRuleTypes = ["above", "below", "no-data"];
+
+/** Array holding all valid notifier types. */
+export const NotifierTypes = ["webhook", "smtp"];
+
+/**
+ * The default alarm settings (no rules, no notifiers).
+ */
+export const defaultAlarmSettings : AlarmSettings = {
+    rules: [],
+    notifiers: [],
+}
+
+/**
+ * The default settings of the alarm rules by type (without name and threshold).
+ */
+export const defaultAlarmRuleSettings : Record<AlarmRuleSettings["type"], Partial<AlarmRuleSettings>> = {
+    "above": { type: "above", hysteresis: 0, cooldown: 3600 },
+    "below": { type: "below", hysteresis: 0, cooldown: 3600 },
+    "no-data": { type: "no-data", cooldown: 3600 },
+}
+
+/**
+ * The default settings of the notifiers by type (without destination).
+ */
+export const defaultNotifierSettings : Record<NotifierSettings["type"], Partial<NotifierSettings>> = {
+    "webhook": { type: "webhook", headers: {} },
+    "smtp": { type: "smtp", port: 587, secure: false, insecure: false },
+}
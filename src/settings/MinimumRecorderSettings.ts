@@ -1,18 +1,24 @@
 import { AdvancedModel, BaudRate, RainCollectorSize } from "vant-environment/structures";
 import { UnitConfiguration, UnitSettings } from "vant-environment/units";
 import { LogLevel, MinimumLoggerSettings } from "vant-environment/log";
-import { CurrentConditionsTaskSettings } from "./RecorderSettings";
+import { ArchiveInterval, ConnectionSettings, CurrentConditionsTaskSettings, DataQualitySettings, OfflineBufferSettings, RecorderModel, SimulatorSettings, StatusServerSettings, TlsSettings, UploadMode } from "./RecorderSettings";
+import { MinimumSinkSettings } from "./SinkSettings";
+import { MinimumAlarmSettings } from "./AlarmSettings";
 
 
 type MinimumRecorderSettings = {
-    /** The URL to the api. E.g. `http://localhost:8000/api`. Corresponding environment variable: `API`  */
-    api: string;
-    /** The api key used to communicate with the api. Corresponding environment variable: `API_KEY` */
-    key: string;
-    /** The weather station model. Default is `PRO 2`. Corresponding environment variable: `MODEL` */
-    model: AdvancedModel;
-    /** The serial path to the weather station. E.g. `COM3`. Corresponding environment variable: `SERIAL_PATH` */
-    path: string;
+    /** The URL to the api. E.g. `http://localhost:8000/api`. Only required if the `api` sink is used. Corresponding environment variable: `API`  */
+    api?: string;
+    /** The api key used to communicate with the api. Only required if the `api` sink is used. Corresponding environment variable: `API_KEY` */
+    key?: string;
+    /** Options that configure the TLS connection to the api (custom CA, client certificate). */
+    tls?: Partial<TlsSettings>;
+    /** The weather station model. Default is `PRO 2`. Pass `"Simulator"` to use a simulated weather station. Corresponding environment variable: `MODEL` */
+    model: RecorderModel;
+    /** The serial path to the weather station. E.g. `COM3`. Not required if the USB vendor or product id is configured (see `connection`), a network `address` is configured or the simulator is used. Corresponding environment variable: `SERIAL_PATH` */
+    path?: string;
+    /** The network address (`host:port`) of a _WeatherLinkIP_ data logger or a serial-over-TCP bridge (e.g. ser2net) the weather station is connected to. The port defaults to `22222`. If set, the `path` is ignored. Corresponding environment variable: `STATION_ADDRESS` */
+    address?: string;
     /** The default units. **Important**: Has to match the configured vant-api units! Corresponding environment variables: `RAIN_UNIT`; `TEMPERATURE_UNIT`; ...  */
     units?: Partial<UnitConfiguration>;
     /** The baud rate to use. Default is `19200`. This has to match your weather station's settings! Corresponding environment variable: `BAUD_RATE` */
@@ -23,15 +29,32 @@ type MinimumRecorderSettings = {
     logOptions?: MinimumLoggerSettings;
     /** The weather station's rain collector size. Corresponding environment variable: `RAIN_COLLECTOR_SIZE` */
     rainCollectorSize: RainCollectorSize;
+    /** Options that configure the local buffer for uploads that failed because the api was unreachable. */
+    offlineBuffer?: Partial<OfflineBufferSettings>;
+    /** The destinations every record is written to. Default is `[{ type: "api" }]`. Corresponding environment variable: `SINKS` (comma separated list of sink types, e.g. `api,mqtt`) */
+    sinks?: MinimumSinkSettings[];
+    /** Options that configure the embedded HTTP server exposing the recorder's health and metrics. */
+    statusServer?: Partial<StatusServerSettings>;
+    /** Options that configure how a lost connection to the weather station is detected and re-established. */
+    connection?: Partial<ConnectionSettings>;
+    /** Options that configure the simulated weather station. Only used if the model is `"Simulator"`. */
+    simulator?: SimulatorSettings;
+    /** Options that configure the validation of the current conditions before they are written to the sinks. */
+    dataQuality?: Partial<DataQualitySettings>;
+    alarms?: MinimumAlarmSettings;
 } | {     
     /** The URL to the api. E.g. `http://localhost:8000/api`. Corresponding environment variable: `API`  */
     api?: string;
     /** The api key used to communicate with the api. Corresponding environment variable: `API_KEY` */
     key?: string;
-    /** The weather station model. Default is `PRO 2`. Corresponding environment variable: `MODEL` */
-    model?: AdvancedModel;
+    /** Options that configure the TLS connection to the api (custom CA, client certificate). */
+    tls?: Partial<TlsSettings>;
+    /** The weather station model. Default is `PRO 2`. Pass `"Simulator"` to use a simulated weather station. Corresponding environment variable: `MODEL` */
+    model?: RecorderModel;
     /** The serial path to the weather station. E.g. `COM3`. Corresponding environment variable: `SERIAL_PATH` */
     path?: string;
+    /** The network address (`host:port`) of a _WeatherLinkIP_ data logger or a serial-over-TCP bridge (e.g. ser2net) the weather station is connected to. The port defaults to `22222`. If set, the `path` is ignored. Corresponding environment variable: `STATION_ADDRESS` */
+    address?: string;
     /** The default units. **Important**: Has to match the configured vant-api units! Corresponding environment variables: `RAIN_UNIT`; `TEMPERATURE_UNIT`; ...  */
     units?: Partial<UnitConfiguration>;
     /** The baud rate to use. Default is `19200`. This has to match your weather station's settings! Corresponding environment variable: `BAUD_RATE` */
@@ -42,6 +65,19 @@ type MinimumRecorderSettings = {
     preferEnvironmentVariables: true;
     /** The weather station's rain collector size. Corresponding environment variable: `RAIN_COLLECTOR_SIZE` */
     rainCollectorSize?: RainCollectorSize;
+    /** Options that configure the local buffer for uploads that failed because the api was unreachable. */
+    offlineBuffer?: Partial<OfflineBufferSettings>;
+    /** The destinations every record is written to. Default is `[{ type: "api" }]`. Corresponding environment variable: `SINKS` (comma separated list of sink types, e.g. `api,mqtt`) */
+    sinks?: MinimumSinkSettings[];
+    /** Options that configure the embedded HTTP server exposing the recorder's health and metrics. */
+    statusServer?: Partial<StatusServerSettings>;
+    /** Options that configure how a lost connection to the weather station is detected and re-established. */
+    connection?: Partial<ConnectionSettings>;
+    /** Options that configure the simulated weather station. Only used if the model is `"Simulator"`. */
+    simulator?: SimulatorSettings;
+    /** Options that configure the validation of the current conditions before they are written to the sinks. */
+    dataQuality?: Partial<DataQualitySettings>;
+    alarms?: MinimumAlarmSettings;
 }
 
 export default MinimumRecorderSettings;
@@ -52,4 +88,55 @@ export type MinimumCurrentConditionsTaskSettings = {
     interval?: number,
     /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
     preferEnvironmentVariables?: boolean,
-}
\ No newline at end of file
+    /** How the current conditions are uploaded (`"single"` or `"batch"`). Default is `"single"`. Corresponding environment variable: `CURRENT_CONDITIONS_UPLOAD_MODE` */
+    uploadMode?: UploadMode,
+    /** The time (in seconds) records are collected before they are uploaded as one batch. Default is `60`. Corresponding environment variable: `CURRENT_CONDITIONS_BATCH_WINDOW` */
+    batchWindow?: number,
+    /** The maximum number of records per batch. Default is `100`. Corresponding environment variable: `CURRENT_CONDITIONS_BATCH_MAX_SIZE` */
+    batchMaxSize?: number,
+}
+
+
+export type MinimumArchiveTaskSettings = {
+    /** The interval as integer (in seconds) in which the station's archive memory is checked for new records. Default value is `300`. Corresponding environment variable: `ARCHIVE_INTERVAL` */
+    interval?: number,
+    /** The file in which the time of the last archive record written to each sink is stored. Default is `./data/archive-state.json`. Corresponding environment variable: `ARCHIVE_STATE_PATH` */
+    statePath?: string,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    preferEnvironmentVariables?: boolean,
+}
+
+
+export type MinimumHighsAndLowsTaskSettings = {
+    /** The update interval as integer (in seconds) for the highs and lows. Default value is `60`. Corresponding environment variable: `HIGHS_AND_LOWS_INTERVAL` */
+    interval?: number,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    preferEnvironmentVariables?: boolean,
+}
+export type MinimumAggregatesTaskSettings = {
+    /** The interval as integer (in seconds) in which the aggregates are computed and uploaded. Default value is `60`. Corresponding environment variable: `AGGREGATES_INTERVAL` */
+    interval?: number,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    preferEnvironmentVariables?: boolean,
+}
+
+export type MinimumMaintenanceTaskSettings = {
+    /** The interval as integer (in seconds) in which the console is checked. Default value is `3600`. Corresponding environment variable: `MAINTENANCE_INTERVAL` */
+    interval?: number,
+    /** The allowed difference (in seconds) between the console's and the host's clock. If exceeded, the console's clock is set. Default value is `30`. Corresponding environment variable: `MAX_CLOCK_DRIFT` */
+    maxClockDrift?: number,
+    /**
+     * The archive interval (in minutes) the console should use. Restored if the console uses another one. Not checked by default.
+     * **Changing the archive interval clears the console's archive memory**, enable the archive task to upload the records before.
+     * Corresponding environment variable: `ARCHIVE_PERIOD`
+     */
+    archiveInterval?: ArchiveInterval,
+    /**
+     * The time of day (`HH:MM`, host time) at which the console's daily rain and ET counters and its daily highs and lows are reset (additionally to the console's own reset at midnight).
+     * The reset is done by the first check after that time, so choose an interval that is short enough. The first check after the recorder started never resets
+     * (the counters may have been reset before a restart). Not reset by default. Corresponding environment variable: `DAILY_RESET_TIME`
+     */
+    dailyResetTime?: string,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    preferEnvironmentVariables?: boolean,
+}
@@ -1,7 +1,10 @@
 import { defaultUnitSettings, UnitConfiguration } from "vant-environment/units";
-import { AdvancedModel, BaudRate, RainCollectorSize } from "vant-environment/structures";
+import { AdvancedModel, AdvancedModels, BaudRate, RainCollectorSize } from "vant-environment/structures";
 import Recorder from "../Recorder";
 import { defaultLoggerSettings, LoggerSettings, LogLevel } from "vant-environment/log";
+import SinkSettings from "./SinkSettings";
+import AlarmSettings, { defaultAlarmSettings } from "./AlarmSettings";
+import AggregatesRecord from "../structures/AggregatesRecord";
 
 /**
  * The general settings for the recorder. For example this includes the `url` to your running _vant-api_ instance or the serial `path` to your connected weather station.
@@ -13,10 +16,14 @@ export default interface RecorderSettings{
     api: string,
     /** The api key used to communicate with the api. Corresponding environment variable: `API_KEY` */
     key: string,
-    /** The weather station model. Default is `PRO2`. Corresponding environment variable: `MODEL` */
-    model: AdvancedModel,
+    /** Options that configure the TLS connection to the api (custom CA, client certificate). */
+    tls: TlsSettings,
+    /** The weather station model. Default is `PRO2`. Pass `"Simulator"` to use a simulated weather station (see {@link SimulatedStationInterface}). Corresponding environment variable: `MODEL` */
+    model: RecorderModel,
     /** The serial path to the weather station. E.g. `COM3`. Corresponding environment variable: `SERIAL_PATH` */
     path: string,
+    /** The network address (`host:port`) of a _WeatherLinkIP_ data logger or a serial-over-TCP bridge (e.g. ser2net) the weather station is connected to. The port defaults to `22222`. If set, the `path` is ignored. Corresponding environment variable: `STATION_ADDRESS` */
+    address?: string,
     /** The default units. **Important**: Has to match the configured vant-api units! Corresponding environment variables: `RAIN_UNIT`, `TEMPERATURE_UNIT`, ...  */
     units: UnitConfiguration,
     /** The baud rate to use. Default is `19200`. This has to match your weather station's settings! Corresponding environment variable: `BAUD_RATE` */
@@ -27,6 +34,218 @@ export default interface RecorderSettings{
     logOptions: LoggerSettings,
     /** The weather station's rain collector size. */
     rainCollectorSize?: RainCollectorSize,
+    /** Options that configure the local buffer for uploads that failed because the api was unreachable. */
+    offlineBuffer: OfflineBufferSettings,
+    /** The destinations every record is written to. Default is `[{ type: "api" }]`. Corresponding environment variable: `SINKS` (comma separated list of sink types, e.g. `api,mqtt`) */
+    sinks: SinkSettings[],
+    /** Options that configure the embedded HTTP server exposing the recorder's health and metrics. */
+    statusServer: StatusServerSettings,
+    /** Options that configure how a lost connection to the weather station is detected and re-established. */
+    connection: ConnectionSettings,
+    /** Options that configure the simulated weather station. Only used if the model is `"Simulator"`. */
+    simulator: SimulatorSettings,
+    /** Options that configure the validation of the current conditions before they are written to the sinks. */
+    dataQuality: DataQualitySettings,
+    /** The alarm rules evaluated on the current conditions and the notifiers the alarms are sent to. */
+    alarms: AlarmSettings,
+}
+
+/**
+ * The supported weather station models: the _Vantage Pro 2_, the _Vantage Vue_ or a simulated weather station for development and tests.
+ */
+export type RecorderModel = AdvancedModel | "Simulator";
+
+/**
+ * Array holding all supported weather station models.
+ */
+export const RecorderModels = [...AdvancedModels, "Simulator"];
+
+/**
+ * The settings for the simulated weather station (model `"Simulator"`).
+ */
+export interface SimulatorSettings{
+    /** A JSONL file containing recorded `RichRealtimeData` records to replay instead of simulating the weather. Corresponding environment variable: `SIMULATOR_REPLAY_PATH` */
+    replayPath?: string,
+    /** The seed of the random weather. Pass a seed to get reproducible weather. Corresponding environment variable: `SIMULATOR_SEED` */
+    seed?: number,
+    /** The initial offset (in seconds) of the simulated console clock to the host clock, e.g. to test the maintenance task. Default is `0`. Corresponding environment variable: `SIMULATOR_CLOCK_OFFSET` */
+    clockOffset?: number,
+}
+
+/**
+ * The settings for the offline buffer. Uploads that fail (e.g. because your vant-api instance is rebooting) are persisted to a local file
+ * and replayed in order as soon as the api is reachable again. The buffer survives restarts of the recorder.
+ */
+export interface OfflineBufferSettings{
+    /** Whether failed uploads are buffered. Default is `true`. Corresponding environment variable: `OFFLINE_BUFFER` */
+    enabled: boolean,
+    /** The file the buffered uploads are persisted to. Default is `./data/offline-buffer.jsonl`. Corresponding environment variable: `OFFLINE_BUFFER_PATH` */
+    path: string,
+    /** The maximum number of buffered uploads. If exceeded, the oldest uploads are discarded. Default is `10000`. Corresponding environment variable: `OFFLINE_BUFFER_MAX_RECORDS` */
+    maxRecords: number,
+    /** The maximum age (in seconds) of a buffered upload. Older uploads are discarded. Default is `86400` (one day). Corresponding environment variable: `OFFLINE_BUFFER_MAX_AGE` */
+    maxAge: number,
+}
+
+/**
+ * The default offline buffer settings.
+ */
+export const defaultOfflineBufferSettings : OfflineBufferSettings = {
+    enabled: true,
+    path: "./data/offline-buffer.jsonl",
+    maxRecords: 10000,
+    maxAge: 86400,
+}
+
+/**
+ * The settings for the TLS connection to the api (only used if the api's url starts with `https://`). The api's certificate is verified by default.
+ * 
+ * For a vant-api deployment using a self-signed certificate pass the certificate (or the CA that signed it) as `caPath`. If the api requires
+ * client certificates (mutual TLS), pass the client's certificate and private key. All files have to be PEM encoded.
+ * 
+ * Only disable the verification (`insecure`) if you know what you are doing: anyone who can intercept the connection can read the api key.
+ */
+export interface TlsSettings{
+    /** A file containing the CA certificate(s) trusted in addition to the default CAs. Corresponding environment variable: `TLS_CA_PATH` */
+    caPath?: string,
+    /** A file containing the client certificate. Requires `keyPath`. Corresponding environment variable: `TLS_CERT_PATH` */
+    certPath?: string,
+    /** A file containing the client certificate's private key. Requires `certPath`. Corresponding environment variable: `TLS_KEY_PATH` */
+    keyPath?: string,
+    /** The passphrase of an encrypted private key. Corresponding environment variable: `TLS_KEY_PASSPHRASE` */
+    keyPassphrase?: string,
+    /** Whether the api's certificate is accepted without verification. A warning is logged at startup. Default is `false`. Corresponding environment variable: `TLS_INSECURE` */
+    insecure: boolean,
+}
+
+/**
+ * The default TLS settings.
+ */
+export const defaultTlsSettings : TlsSettings = {
+    insecure: false,
+}
+
+/**
+ * The settings for the status server. If enabled, an embedded HTTP server exposes the recorder's health at `/health`
+ * (e.g. for docker healthchecks) and metrics in the Prometheus text format at `/metrics`.
+ */
+export interface StatusServerSettings{
+    /** Whether the status server is started. Default is `false`. Corresponding environment variable: `STATUS_SERVER` */
+    enabled: boolean,
+    /** The host the status server listens on. Default is `0.0.0.0`. Corresponding environment variable: `STATUS_SERVER_HOST` */
+    host: string,
+    /** The port the status server listens on. Default is `9100`. Corresponding environment variable: `STATUS_SERVER_PORT` */
+    port: number,
+    /** The maximum age (in seconds) of the last successful read from the weather station. If exceeded, the recorder is reported as unhealthy. Default is `300`. Corresponding environment variable: `STATUS_SERVER_MAX_READ_AGE` */
+    maxReadAge: number,
+}
+
+/**
+ * The default status server settings.
+ */
+export const defaultStatusServerSettings : StatusServerSettings = {
+    enabled: false,
+    host: "0.0.0.0",
+    port: 9100,
+    maxReadAge: 300,
+}
+
+/**
+ * The settings for the connection to the weather station. The connection is considered dead if the serial port closes unexpectedly
+ * (e.g. because the USB adapter has been unplugged) or if `maxFailures` reads in a row fail. A dead connection is closed and re-created with exponential backoff.
+ * 
+ * If the device's USB `vendorId` and/or `productId` are configured, the serial path is looked up on every (re-)connect. This is useful if the
+ * path changes after re-plugging the adapter (e.g. from `/dev/ttyUSB0` to `/dev/ttyUSB1`).
+ */
+export interface ConnectionSettings{
+    /** Whether a dead connection is re-established automatically. Default is `true`. Corresponding environment variable: `RECONNECT` */
+    reconnect: boolean,
+    /** The number of reads in a row that have to fail until the connection is considered dead. Default is `3`. Corresponding environment variable: `RECONNECT_MAX_FAILURES` */
+    maxFailures: number,
+    /** The delay (in seconds) before the first reconnection attempt. Doubles on every failed attempt. Default is `1`. Corresponding environment variable: `RECONNECT_INITIAL_DELAY` */
+    initialDelay: number,
+    /** The maximum delay (in seconds) between two reconnection attempts. Default is `60`. Corresponding environment variable: `RECONNECT_MAX_DELAY` */
+    maxDelay: number,
+    /** The time (in seconds) the weather station has to answer a request. Otherwise the read fails. Default is `20`. Corresponding environment variable: `READ_TIMEOUT` */
+    readTimeout: number,
+    /** The USB vendor id of the serial adapter (4 hexadecimal digits, e.g. `10c4`). Corresponding environment variable: `USB_VENDOR_ID` */
+    vendorId?: string,
+    /** The USB product id of the serial adapter (4 hexadecimal digits, e.g. `ea60`). Corresponding environment variable: `USB_PRODUCT_ID` */
+    productId?: string,
+}
+
+/**
+ * The default connection settings.
+ */
+export const defaultConnectionSettings : ConnectionSettings = {
+    reconnect: true,
+    maxFailures: 3,
+    initialDelay: 1,
+    maxDelay: 60,
+    readTimeout: 20,
+}
+
+/**
+ * What happens to values that fail a data quality rule: `"null"` replaces them with `null`, `"flag"` keeps them and lists them in the record's
+ * `qualityFlags` property (see {@link DataQualityFlags}).
+ */
+export type DataQualityAction = "null" | "flag";
+
+/**
+ * Array holding all data quality actions.
+ */
+export const DataQualityActions = ["null", "flag"];
+
+/**
+ * A rule the values of a field of the current conditions (e.g. `tempOut`) have to satisfy. All limits are in the configured units.
+ * If the field is a list (e.g. `tempExtra`), the rule applies to every sensor of the list.
+ */
+export interface DataQualityRule{
+    /** The minimum valid value (physical range check). */
+    min?: number,
+    /** The maximum valid value (physical range check). */
+    max?: number,
+    /** The maximum change per minute compared to the last valid value (rate-of-change check, catches spikes). At least one minute's worth of change is allowed between two records. */
+    maxChangePerMinute?: number,
+    /** The maximum time (in seconds) the value may stay unchanged. A value unchanged for longer is considered stale (e.g. a stuck sensor). */
+    maxUnchangedTime?: number,
+    /** Whether the field is a counter that only increases (e.g. the daily rain). A decrease is invalid unless the counter is reset to `0`. */
+    increasing?: boolean,
+}
+
+/**
+ * The settings for the data quality checks. If enabled, the current conditions are validated before they are written to the sinks. Values failing a rule
+ * (e.g. a temperature jumping by 30°, a decreasing rain counter or a pressure of 0 hPa because the ISS battery died) are nulled or flagged and logged.
+ * 
+ * The configured `rules` are merged with the default rules (see {@link createDefaultDataQualityRules}) by field. Pass `false` to disable a field's default rule:
+ * ```yaml
+ * dataQuality:
+ *   enabled: true
+ *   action: flag
+ *   rules:
+ *     tempOut:
+ *       maxChangePerMinute: 3
+ *     humOut:
+ *       maxUnchangedTime: 43200
+ *     uv: false
+ * ```
+ */
+export interface DataQualitySettings{
+    /** Whether the current conditions are validated. Default is `false`. Corresponding environment variable: `DATA_QUALITY` */
+    enabled: boolean,
+    /** What happens to invalid values. Default is `"null"`. Corresponding environment variable: `DATA_QUALITY_ACTION` */
+    action: DataQualityAction,
+    /** The rules by field name (e.g. `tempOut`), merged with the default rules. */
+    rules: Record<string, DataQualityRule | false>,
+}
+
+/**
+ * The default data quality settings.
+ */
+export const defaultDataQualitySettings : DataQualitySettings = {
+    enabled: false,
+    action: "null",
+    rules: {},
 }
 
 /**
@@ -35,12 +254,21 @@ export default interface RecorderSettings{
 export const defaultRecorderSettings : RecorderSettings = {
     api: "",
     key: "",
+    tls: defaultTlsSettings,
     path: "",
     model: "Pro2",
     baudRate: 19200,
     preferEnvironmentVariables: false,
-    logOptions: defaultLoggerSettings,
-    units: defaultUnitSettings
+    // A copy, vant-environment's configureLogger() merges the passed options into its own default logger settings
+    logOptions: { ...defaultLoggerSettings },
+    units: defaultUnitSettings,
+    offlineBuffer: defaultOfflineBufferSettings,
+    sinks: [{ type: "api" }],
+    statusServer: defaultStatusServerSettings,
+    connection: defaultConnectionSettings,
+    simulator: {},
+    dataQuality: defaultDataQualitySettings,
+    alarms: defaultAlarmSettings,
 } 
 
 /**
@@ -52,12 +280,144 @@ export interface CurrentConditionsTaskSettings{
     interval: number,
     /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
     useEnvironmentVariables: boolean,
+    /** How the current conditions are uploaded, see {@link UploadMode}. Default is `"single"`. Corresponding environment variable: `CURRENT_CONDITIONS_UPLOAD_MODE` */
+    uploadMode: UploadMode,
+    /** The time (in seconds) records are collected before they are uploaded as one batch. Only used in the `"batch"` upload mode. Default is `60`. Corresponding environment variable: `CURRENT_CONDITIONS_BATCH_WINDOW` */
+    batchWindow: number,
+    /** The maximum number of records per batch. A full batch is uploaded immediately. Only used in the `"batch"` upload mode. Default is `100`. Corresponding environment variable: `CURRENT_CONDITIONS_BATCH_MAX_SIZE` */
+    batchMaxSize: number,
 }
 
+/**
+ * How the current conditions are uploaded:
+ * - `"single"`: every record is uploaded on its own as soon as it has been read
+ * - `"batch"`: the records are collected over the `batchWindow` and uploaded as one gzip-compressed batch (e.g. to save bandwidth on metered connections).
+ *   Only sinks supporting batches (see {@link Sink.writeBatch}, e.g. the api sink) receive batches, all other sinks still receive every record on its own.
+ *   A pending batch is uploaded when the recorder stops.
+ */
+export type UploadMode = "single" | "batch";
+
+/**
+ * Array holding all upload modes.
+ */
+export const UploadModes = ["single", "batch"];
+
 /**
  * The default settings for the current conditions task.
  */
 export const defaultCurrentConditionsTaskSettings : CurrentConditionsTaskSettings = {
     interval: 1,
+    useEnvironmentVariables: false,
+    uploadMode: "single",
+    batchWindow: 60,
+    batchMaxSize: 100,
+}
+
+/**
+ * The settings for the archive task. This is related to the `api/v1/archive` route.
+ * Call {@link Recorder.configureArchiveTask} to configure. If your recorder is already running you have to restart it using `restart()`.
+ */
+export interface ArchiveTaskSettings{
+    /** The interval as integer (in seconds) in which the station's archive memory is checked for new records. Should not be shorter than the archive interval configured on your console. Default value is `300`. Corresponding environment variable: `ARCHIVE_INTERVAL` */
+    interval: number,
+    /** The file in which the time of the last archive record written to each sink is stored. Default is `./data/archive-state.json`. Corresponding environment variable: `ARCHIVE_STATE_PATH` */
+    statePath: string,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    useEnvironmentVariables: boolean,
+}
+
+/**
+ * The default settings for the archive task.
+ */
+export const defaultArchiveTaskSettings : ArchiveTaskSettings = {
+    interval: 300,
+    statePath: "./data/archive-state.json",
+    useEnvironmentVariables: false
+}
+
+/**
+ * The settings for the highs and lows task. This is related to the `api/v1/highs-and-lows` route.
+ * Call {@link Recorder.configureHighsAndLowsTask} to configure. If your recorder is already running you have to restart it using `restart()`.
+ */
+export interface HighsAndLowsTaskSettings{
+    /** The update interval as integer (in seconds) for the highs and lows. Default value is `60`. Corresponding environment variable: `HIGHS_AND_LOWS_INTERVAL` */
+    interval: number,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    useEnvironmentVariables: boolean,
+}
+
+/**
+ * The default settings for the highs and lows task.
+ */
+export const defaultHighsAndLowsTaskSettings : HighsAndLowsTaskSettings = {
+    interval: 60,
     useEnvironmentVariables: false
-}
\ No newline at end of file
+}
+/**
+ * The settings for the aggregates task. This is related to the `api/v1/aggregates` route.
+ * The aggregates (see {@link AggregatesRecord}) are computed by the recorder from the current conditions, so the current conditions task has to be configured too.
+ * Call {@link Recorder.configureAggregatesTask} to configure. If your recorder is already running you have to restart it using `restart()`.
+ */
+export interface AggregatesTaskSettings{
+    /** The interval as integer (in seconds) in which the aggregates are computed and uploaded. Default value is `60`. Corresponding environment variable: `AGGREGATES_INTERVAL` */
+    interval: number,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    useEnvironmentVariables: boolean,
+}
+
+/**
+ * The default settings for the aggregates task.
+ */
+export const defaultAggregatesTaskSettings : AggregatesTaskSettings = {
+    interval: 60,
+    useEnvironmentVariables: false
+}
+
+/**
+ * The archive intervals (in minutes) supported by the console.
+ */
+export type ArchiveInterval = 1 | 5 | 10 | 15 | 30 | 60 | 120;
+
+/**
+ * Array holding all archive intervals supported by the console.
+ */
+export const ArchiveIntervals : ArchiveInterval[] = [1, 5, 10, 15, 30, 60, 120];
+
+/**
+ * The settings for the maintenance task. The task doesn't upload anything, it keeps the console in shape:
+ * - it compares the console's clock with the host's clock and sets the console's clock if it drifted by more than `maxClockDrift` seconds.
+ *   The console time is used to time stamp the archive records and the highs and lows.
+ * - it restores the configured `archiveInterval` if the console uses another one
+ * - it resets the daily rain and ET counters and the daily highs and lows at `dailyResetTime` (e.g. for a meteorological day starting at 9am)
+ * 
+ * Every change is logged. Call {@link Recorder.configureMaintenanceTask} to configure. If your recorder is already running you have to restart it using `restart()`.
+ */
+export interface MaintenanceTaskSettings{
+    /** The interval as integer (in seconds) in which the console is checked. Default value is `3600`. Corresponding environment variable: `MAINTENANCE_INTERVAL` */
+    interval: number,
+    /** The allowed difference (in seconds) between the console's and the host's clock. If exceeded, the console's clock is set. Default value is `30`. Corresponding environment variable: `MAX_CLOCK_DRIFT` */
+    maxClockDrift: number,
+    /**
+     * The archive interval (in minutes) the console should use. Restored if the console uses another one. Not checked by default.
+     * **Changing the archive interval clears the console's archive memory**, enable the archive task to upload the records before.
+     * Corresponding environment variable: `ARCHIVE_PERIOD`
+     */
+    archiveInterval?: ArchiveInterval,
+    /**
+     * The time of day (`HH:MM`, host time) at which the console's daily rain and ET counters and its daily highs and lows are reset (additionally to the console's own reset at midnight).
+     * The reset is done by the first check after that time, so choose an interval that is short enough. The first check after the recorder started never resets
+     * (the counters may have been reset before a restart). Not reset by default. Corresponding environment variable: `DAILY_RESET_TIME`
+     */
+    dailyResetTime?: string,
+    /** Whether to prefer environment variables configured in the `.env` file. Default is `false`. */
+    useEnvironmentVariables: boolean,
+}
+
+/**
+ * The default settings for the maintenance task.
+ */
+export const defaultMaintenanceTaskSettings : MaintenanceTaskSettings = {
+    interval: 3600,
+    maxClockDrift: 30,
+    useEnvironmentVariables: false
+}
@@ -0,0 +1,199 @@
+/**
+ * The settings for the vant-api sink. Uploads every record to your vant-api instance configured via `api` and `key`.
+ * Failed uploads are persisted to the offline buffer (see `offlineBuffer`).
+ */
+export interface ApiSinkSettings{
+    type: "api",
+}
+
+/**
+ * The settings for the MQTT sink. Publishes every record as JSON to the topic `<topicPrefix>/<kind>` (e.g. `vant-recorder/current`).
+ * Additionally every field of the current conditions is published to its own topic (e.g. `vant-recorder/current/tempOut`) and the
+ * recorder's availability (`online` / `offline`) is published to `<topicPrefix>/status`.
+ */
+export interface MqttSinkSettings{
+    type: "mqtt",
+    /** The broker's URL. Default is `mqtt://localhost:1883`. Corresponding environment variable: `MQTT_URL` */
+    url: string,
+    /** The username used to authenticate at the broker. Corresponding environment variable: `MQTT_USERNAME` */
+    username?: string,
+    /** The password used to authenticate at the broker. Corresponding environment variable: `MQTT_PASSWORD` */
+    password?: string,
+    /** The prefix of all published topics. Default is `vant-recorder`. Corresponding environment variable: `MQTT_TOPIC_PREFIX` */
+    topicPrefix: string,
+    /** Whether every field of the current conditions is published to its own topic. Default is `true`. Corresponding environment variable: `MQTT_FIELD_TOPICS` */
+    fieldTopics: boolean,
+    /** Whether to publish Home Assistant discovery messages (requires `fieldTopics`). Default is `false`. Corresponding environment variable: `MQTT_HOME_ASSISTANT` */
+    homeAssistant: boolean,
+    /** The topic prefix Home Assistant listens to for discovery messages. Default is `homeassistant`. Corresponding environment variable: `MQTT_DISCOVERY_PREFIX` */
+    discoveryPrefix: string,
+    /** The id used to identify the weather station in Home Assistant. Default is `vant-recorder`. Corresponding environment variable: `MQTT_DEVICE_ID` */
+    deviceId: string,
+}
+
+/**
+ * The settings for the file sink. Appends every record to a local file per record kind (e.g. `./data/records/current.jsonl`).
+ */
+export interface FileSinkSettings{
+    type: "file",
+    /** The directory the files are written to. Default is `./data/records`. Corresponding environment variable: `FILE_SINK_DIRECTORY` */
+    directory: string,
+    /** The file format. `"jsonl"` writes one JSON object per line, `"csv"` writes one (flattened) record per row. Default is `"jsonl"`. Corresponding environment variable: `FILE_SINK_FORMAT` */
+    format: "jsonl" | "csv",
+}
+
+/**
+ * The settings for the stdout sink. Writes every record as single line JSON to the standard output.
+ */
+export interface StdoutSinkSettings{
+    type: "stdout",
+}
+
+/**
+ * The settings for the Weather Underground and PWSweather sinks. Both networks use the same `updateweatherstation` protocol.
+ * Only current conditions are uploaded. Values are converted to the imperial units required by the networks.
+ */
+export interface WundergroundSinkSettings{
+    type: "wunderground" | "pwsweather",
+    /** The station id. Corresponding environment variable: `WUNDERGROUND_STATION_ID` / `PWSWEATHER_STATION_ID` */
+    stationId: string,
+    /** The station key / password. Corresponding environment variable: `WUNDERGROUND_PASSWORD` / `PWSWEATHER_PASSWORD` */
+    password: string,
+    /** The upload URL. Default is the network's official upload URL. Corresponding environment variable: `WUNDERGROUND_URL` / `PWSWEATHER_URL` */
+    url: string,
+    /** The minimum interval (in seconds) between two uploads. Records in between are skipped. Default is `60`. Corresponding environment variable: `WUNDERGROUND_INTERVAL` / `PWSWEATHER_INTERVAL` */
+    interval: number,
+}
+
+/**
+ * The settings for the CWOP (Citizen Weather Observer Program) sink. Sends the current conditions as APRS weather packets via TCP.
+ */
+export interface CwopSinkSettings{
+    type: "cwop",
+    /** The station id (e.g. `EW1234`) or your amateur radio callsign. Corresponding environment variable: `CWOP_STATION_ID` */
+    stationId: string,
+    /** The APRS-IS passcode. Default is `-1` (correct for CWOP stations without callsign). Corresponding environment variable: `CWOP_PASSCODE` */
+    passcode: string,
+    /** The APRS-IS server. Default is `cwop.aprs.net`. Corresponding environment variable: `CWOP_HOST` */
+    host: string,
+    /** The APRS-IS server's port. Default is `14580`. Corresponding environment variable: `CWOP_PORT` */
+    port: number,
+    /** The station's latitude in decimal degrees (north is positive). Corresponding environment variable: `CWOP_LATITUDE` */
+    latitude: number,
+    /** The station's longitude in decimal degrees (east is positive). Corresponding environment variable: `CWOP_LONGITUDE` */
+    longitude: number,
+    /** The minimum interval (in seconds) between two uploads. CWOP asks for no more than one packet every five minutes. Default is `300`. Corresponding environment variable: `CWOP_INTERVAL` */
+    interval: number,
+}
+
+/**
+ * The settings for the SQLite sink. Stores every record in a local SQLite database, so a station is useful standalone and records the api never
+ * received can be recovered. The stored records can be queried using the status server (see {@link StatusServerSettings}).
+ *
+ * Records older than `retention` days are deleted. Current conditions older than `downsampleAfter` hours are downsampled to the last record
+ * of every `downsampleInterval` seconds.
+ */
+export interface SqliteSinkSettings{
+    type: "sqlite",
+    /** The database file. Default is `./data/records.db`. Corresponding environment variable: `SQLITE_SINK_PATH` */
+    path: string,
+    /** The time (in days) the records are kept. `0` keeps them forever. Default is `365`. Corresponding environment variable: `SQLITE_SINK_RETENTION` */
+    retention: number,
+    /** The age (in hours) from which on current conditions are downsampled. Default is `24`. Corresponding environment variable: `SQLITE_SINK_DOWNSAMPLE_AFTER` */
+    downsampleAfter: number,
+    /** The interval (in seconds) of which one downsampled current conditions record is kept. `0` disables downsampling. Default is `300`. Corresponding environment variable: `SQLITE_SINK_DOWNSAMPLE_INTERVAL` */
+    downsampleInterval: number,
+}
+
+/**
+ * The settings of a sink. Use the `type` property to choose the sink.
+ */
+type SinkSettings = ApiSinkSettings | MqttSinkSettings | FileSinkSettings | StdoutSinkSettings | WundergroundSinkSettings | CwopSinkSettings | SqliteSinkSettings;
+export default SinkSettings;
+
+/**
+ * The settings of a sink. Only the `type` property is required, all other properties fall back to the sink's default settings.
+ */
+export type MinimumSinkSettings = ApiSinkSettings | StdoutSinkSettings | (Partial<MqttSinkSettings> & { type: "mqtt" }) | (Partial<FileSinkSettings> & { type: "file" })
+    | (Partial<WundergroundSinkSettings> & Pick<WundergroundSinkSettings, "type" | "stationId" | "password">)
+    | (Partial<CwopSinkSettings> & Pick<CwopSinkSettings, "type" | "stationId" | "latitude" | "longitude">)
+    | (Partial<SqliteSinkSettings> & { type: "sqlite" });
+
+/** Array holding all valid sink types. */
+export const SinkTypes = ["api", "mqtt", "file", "stdout", "wunderground", "pwsweather", "cwop", "sqlite"];
+
+/**
+ * The default MQTT sink settings.
+ */
+export const defaultMqttSinkSettings : MqttSinkSettings = {
+    type: "mqtt",
+    url: "mqtt://localhost:1883",
+    topicPrefix: "vant-recorder",
+    fieldTopics: true,
+    homeAssistant: false,
+    discoveryPrefix: "homeassistant",
+    deviceId: "vant-recorder",
+}
+
+/**
+ * The default file sink settings.
+ */
+export const defaultFileSinkSettings : FileSinkSettings = {
+    type: "file",
+    directory: "./data/records",
+    format: "jsonl",
+}
+
+/**
+ * The default Weather Underground sink settings (without station id and password).
+ */
+export const defaultWundergroundSinkSettings : Omit<WundergroundSinkSettings, "stationId" | "password"> = {
+    type: "wunderground",
+    url: "https://weatherstation.wunderground.com/weatherstation/updateweatherstation.php",
+    interval: 60,
+}
+
+/**
+ * The default PWSweather sink settings (without station id and password).
+ */
+export const defaultPwsWeatherSinkSettings : Omit<WundergroundSinkSettings, "stationId" | "password"> = {
+    type: "pwsweather",
+    url: "https://pwsupdate.pwsweather.com/api/v1/submitwx",
+    interval: 60,
+}
+
+/**
+ * The default CWOP sink settings (without station id and location).
+ */
+export const defaultCwopSinkSettings : Omit<CwopSinkSettings, "stationId" | "latitude" | "longitude"> = {
+    type: "cwop",
+    passcode: "-1",
+    host: "cwop.aprs.net",
+    port: 14580,
+    interval: 300,
+}
+
+/**
+ * The default SQLite sink settings.
+ */
+export const defaultSqliteSinkSettings : SqliteSinkSettings = {
+    type: "sqlite",
+    path: "./data/records.db",
+    retention: 365,
+    downsampleAfter: 24,
+    downsampleInterval: 300,
+}
+
+/**
+ * The default settings of every sink type.
+ */
+export const defaultSinkSettings : Record<SinkSettings["type"], Partial<SinkSettings>> = {
+    api: { type: "api" },
+    mqtt: defaultMqttSinkSettings,
+    file: defaultFileSinkSettings,
+    stdout: { type: "stdout" },
+    wunderground: defaultWundergroundSinkSettings,
+    pwsweather: defaultPwsWeatherSinkSettings,
+    cwop: defaultCwopSinkSettings,
+    sqlite: defaultSqliteSinkSettings,
+}
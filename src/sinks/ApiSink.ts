@@ -0,0 +1,254 @@
+import superagent from "superagent";
+import { gzip } from "zlib";
+import { promisify } from "util";
+import { DeepReadonly } from "ts-essentials";
+import RecorderSettings from "../settings/RecorderSettings";
+import OfflineBuffer from "../OfflineBuffer";
+import log from "../log";
+import Sink, { RecordKind, WriteResult } from "./Sink";
+import loadTlsOptions, { applyTlsOptions, TlsOptions } from "../utils/loadTlsOptions";
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * Uploads every record to your vant-api instance using `POST` requests (e.g. `current` records are sent to `api/v1/current`).
+ *
+ * Batches of records (see {@link writeBatch}) are sent gzip-compressed as JSON array to the kind's `batch` route (e.g. `api/v1/current/batch`).
+ *
+ * The api's TLS certificate is verified (using the configured CA, see {@link TlsSettings}) unless the verification has been disabled explicitly.
+ *
+ * Uploads that fail because the api is unreachable are persisted to an {@link OfflineBuffer} and replayed in order once the api answers again.
+ *
+ * To create an api sink write:
+ * ```ts
+ * const sink = await ApiSink.create(settings);
+ * ```
+ */
+export default class ApiSink implements Sink{
+    public readonly name = "api";
+    public readonly settings : DeepReadonly<RecorderSettings>;
+    public readonly offlineBuffer? : OfflineBuffer;
+
+    private readonly tlsOptions : TlsOptions;
+    private running = false;
+    private offlineBufferReplayTimeout? : NodeJS.Timeout;
+    private offlineBufferReplaying = false;
+    private offlineBufferRetryDelay = ApiSink.minimumOfflineBufferRetryDelay;
+
+    /** The initial delay (in milliseconds) before retrying to replay the offline buffer. Doubles on every failed attempt. */
+    private static readonly minimumOfflineBufferRetryDelay = 1000;
+    /** The maximum delay (in milliseconds) before retrying to replay the offline buffer. */
+    private static readonly maximumOfflineBufferRetryDelay = 60000;
+    /** The time (in milliseconds) the api may take to answer a check. */
+    private static readonly checkTimeout = 10000;
+
+    private constructor(settings: DeepReadonly<RecorderSettings>, tlsOptions: TlsOptions, offlineBuffer?: OfflineBuffer){
+        this.settings = settings;
+        this.tlsOptions = tlsOptions;
+        this.offlineBuffer = offlineBuffer;
+    }
+
+    /**
+     * Creates a new api sink. Loads the TLS files and the offline buffer if it is enabled.
+     * @param settings the recorder's settings (`api`, `key`, `tls` and `offlineBuffer` are used)
+     * @returns the api sink
+     * @throws {@link InvalidRecorderConfigurationError} if a TLS file can't be read
+     */
+    public static create = async(settings: DeepReadonly<RecorderSettings>) => {
+        const tlsOptions = await loadTlsOptions(settings.tls);
+        if(settings.tls.insecure){
+            log.warn("The api's TLS certificate isn't verified (insecure mode), anyone who can intercept the connection can read the api key!");
+        }
+        const offlineBuffer = settings.offlineBuffer.enabled ? await OfflineBuffer.load(settings.offlineBuffer) : undefined;
+        return new ApiSink(settings, tlsOptions, offlineBuffer);
+    }
+
+    /**
+     * Checks whether the api is reachable using the configured key by requesting the current conditions (`GET api/v1/current`).
+     * @param settings the recorder's settings (`api`, `key` and `tls` are used)
+     * @returns the response's status code (`401` or `403` if the api rejects the key)
+     * @throws if the api is unreachable (or its TLS certificate is invalid)
+     */
+    public static check = async(settings: DeepReadonly<RecorderSettings>) => {
+        const tlsOptions = await loadTlsOptions(settings.tls);
+        return await new Promise<number>((resolve, reject) => {
+            applyTlsOptions(superagent.get(settings.api + "/v1/current"), tlsOptions)
+                .timeout(ApiSink.checkTimeout)
+                .set('accept', 'json')
+                .set('x-api-key', settings.key)
+                .end((err, res?: superagent.Response) => {
+                    if(res){
+                        resolve(res.status);
+                    }else{
+                        reject(err);
+                    }
+                });
+        });
+    }
+
+    public start = () => {
+        this.running = true;
+        if(this.offlineBuffer && !this.offlineBuffer.isEmpty()){
+            log.info(`Replaying ${this.offlineBuffer.size()} buffered upload(s)...`);
+            this.scheduleOfflineBufferReplay(0);
+        }
+    }
+
+    public stop = () => {
+        this.running = false;
+        clearTimeout(this.offlineBufferReplayTimeout);
+        this.offlineBufferReplayTimeout = undefined;
+    }
+
+    public close = async() => {
+        this.stop();
+        await this.offlineBuffer?.flush();
+    }
+
+    public queueSize = () => this.offlineBuffer?.size() ?? 0;
+
+    /**
+     * Uploads the passed record to the api. If the upload fails (or older uploads are still waiting in the offline buffer)
+     * the record is appended to the offline buffer and replayed later on. Rejects only if the record is lost.
+     * @param kind the record's kind, determines the api route
+     * @param record the record to send
+     * @returns whether the record has been sent or buffered
+     */
+    public write = async(kind: RecordKind, record: any) => {
+        return await this.upload(`/v1/${kind}`, record, `${kind} record`);
+    }
+
+    /**
+     * Uploads the passed records as one gzip-compressed batch to the api (e.g. `current` records are sent to `api/v1/current/batch`).
+     * A failed batch is buffered and replayed as a whole, see {@link write}.
+     * @param kind the records' kind, determines the api route
+     * @param records the records to send
+     * @returns whether the batch has been sent or buffered
+     */
+    public writeBatch = async(kind: RecordKind, records: any[]) => {
+        return await this.upload(`/v1/${kind}/batch`, records, `batch of ${records.length} ${kind} record(s)`);
+    }
+
+    private upload = async(route: string, payload: any, description: string) : Promise<WriteResult> => {
+        if(this.offlineBuffer && !this.offlineBuffer.isEmpty()){
+            log.debug(`Buffering ${description}, older uploads are pending.`);
+            this.offlineBuffer.push(route, payload);
+            this.scheduleOfflineBufferReplay(this.offlineBufferRetryDelay);
+            return "buffered";
+        }
+
+        try{
+            await this.post(route, payload);
+            return "written";
+        }catch(err){
+            this.logUploadError(err);
+            if(this.offlineBuffer && ApiSink.isRetryable(err)){
+                log.warn(`Buffering ${description} in the offline buffer.`);
+                this.offlineBuffer.push(route, payload);
+                this.scheduleOfflineBufferReplay(this.offlineBufferRetryDelay);
+                return "buffered";
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Sends the passed payload to the api using a `POST` request. Payloads sent to a `batch` route are gzip-compressed.
+     * Rejects if the api is unreachable or doesn't respond with a success status.
+     * @param route the api route, e.g. `/v1/current`
+     * @param payload the payload to send
+     * @hidden
+     */
+    protected post = async(route: string, payload: any) => {
+        const compressed = route.endsWith("/batch") ? await gzipAsync(JSON.stringify(payload)) : undefined;
+        return await new Promise<superagent.Response>((resolve, reject) => {
+            const request = applyTlsOptions(superagent.post(this.settings.api + route), this.tlsOptions)
+                .set('accept', 'json')
+                .set('x-api-key', this.settings.key);
+            if(compressed){
+                // The compressed body must not be serialized as json
+                request.set('content-type', 'application/json').set('content-encoding', 'gzip').serialize(body => body).send(compressed);
+            }else{
+                request.send(payload);
+            }
+            request.end((err, res: superagent.Response) => {
+                if(!res || !res.ok){
+                    reject(err || new Error(`Received status ${res.status}`));
+                }else{
+                    resolve(res);
+                }
+            });
+        });
+    }
+
+    /**
+     * Returns whether a failed upload is worth retrying. This is the case if the api is unreachable or responds with a server error.
+     * Client errors (e.g. an invalid api key or a malformed record) won't disappear by retrying.
+     * @param err the error the upload failed with
+     */
+    private static isRetryable(err: any){
+        return !err || !err.response || err.status >= 500;
+    }
+
+    private logUploadError(err: any){
+        log.error(`Failed to send data to '${this.settings.api}'!`);
+        if(err && err.response && err.response.body && err.response.body.message){
+            log.error("Server message: '" + err.response.body.message + "'");
+        }else{
+            log.error("Is your api running?");
+            log.error(err);
+        }
+    }
+
+    /**
+     * Schedules the next replay attempt of the offline buffer. Does nothing if a replay is already scheduled or in progress.
+     * @param delay the delay in milliseconds
+     */
+    private scheduleOfflineBufferReplay(delay: number){
+        if(!this.running || this.offlineBufferReplaying || this.offlineBufferReplayTimeout){
+            return;
+        }
+        this.offlineBufferReplayTimeout = setTimeout(this.replayOfflineBuffer, delay);
+    }
+
+    /**
+     * Replays the offline buffer in order, one upload at a time. On failure the replay is retried with exponential backoff.
+     * @hidden
+     */
+    protected replayOfflineBuffer = async() => {
+        this.offlineBufferReplayTimeout = undefined;
+        if(!this.offlineBuffer || !this.running){
+            return;
+        }
+
+        this.offlineBufferReplaying = true;
+        let entry;
+        try{
+            while(this.running && (entry = this.offlineBuffer.peek())){
+                try{
+                    await this.post(entry.route, entry.payload);
+                }catch(err){
+                    if(ApiSink.isRetryable(err)){
+                        throw err;
+                    }
+                    log.error(`The api rejected a buffered upload to '${entry.route}', discarding it!`);
+                    this.logUploadError(err);
+                }
+                this.offlineBuffer.shift(entry);
+                this.offlineBufferRetryDelay = ApiSink.minimumOfflineBufferRetryDelay;
+            }
+            if(this.offlineBuffer.isEmpty()){
+                log.info("Replayed all buffered uploads!");
+            }
+        }catch(err){
+            log.warn(`Failed to replay buffered uploads (${this.offlineBuffer.size()} pending). Retrying in ${this.offlineBufferRetryDelay / 1000}s...`);
+            log.debug(String(err));
+            const delay = this.offlineBufferRetryDelay;
+            this.offlineBufferRetryDelay = Math.min(this.offlineBufferRetryDelay * 2, ApiSink.maximumOfflineBufferRetryDelay);
+            this.offlineBufferReplaying = false;
+            this.scheduleOfflineBufferReplay(delay);
+            return;
+        }
+        this.offlineBufferReplaying = false;
+    }
+}
@@ -0,0 +1,131 @@
+import net from "net";
+import { DeepReadonly } from "ts-essentials";
+import { UnitConfiguration } from "vant-environment/units";
+import { RichRealtimeData } from "vant-environment/structures";
+import { CwopSinkSettings } from "../settings/SinkSettings";
+import createImperialConverters from "../units/imperialUnits";
+import Sink, { RecordKind, WriteResult } from "./Sink";
+
+/** The timeout (in milliseconds) of a whole APRS-IS session. */
+const SESSION_TIMEOUT = 15000;
+
+/**
+ * Sends the current conditions as APRS weather packet to the Citizen Weather Observer Program (CWOP). For every upload a short
+ * APRS-IS session is opened: wait for the server's banner, log in, send the packet, disconnect.
+ *
+ * Uploads are rate limited: records arriving earlier than `interval` seconds after the last upload are skipped. Other record kinds are ignored.
+ */
+export default class CwopSink implements Sink{
+    public readonly name = "cwop";
+    public readonly settings : DeepReadonly<CwopSinkSettings>;
+
+    private readonly convert : ReturnType<typeof createImperialConverters>;
+    private lastUpload = 0;
+
+    constructor(settings: DeepReadonly<CwopSinkSettings>, units: DeepReadonly<UnitConfiguration>){
+        this.settings = settings;
+        this.convert = createImperialConverters(units);
+    }
+
+    public write = async(kind: RecordKind, record: RichRealtimeData) : Promise<WriteResult> => {
+        if(kind !== "current" || Date.now() - this.lastUpload < this.settings.interval * 1000){
+            return "skipped";
+        }
+        this.lastUpload = Date.now();
+        await this.send(this.createPacket(record));
+        return "written";
+    }
+
+    /**
+     * Creates an APRS weather report (position with timestamp) from the passed record, e.g.
+     * `EW1234>APRS,TCPIP*:@191230z4903.50N/07201.75W_220/004g005t077r000p000P000h50b09900L500vant-recorder`.
+     * @param record the current conditions
+     * @returns the APRS packet
+     */
+    public createPacket = (record: RichRealtimeData) => {
+        const time = new Date(record.time);
+        const timestamp = pad(time.getUTCDate(), 2) + pad(time.getUTCHours(), 2) + pad(time.getUTCMinutes(), 2) + "z";
+
+        const rainInHundredths = (value: number | null) => value === null ? null : this.convert.rain(value)! * 100;
+        const pressure = this.convert.pressure(record.press);
+        const solarRadiation = record.solarRadiation === null ? "" : record.solarRadiation < 1000 ? "L" + field(record.solarRadiation, 3) : "l" + field(record.solarRadiation - 1000, 3);
+
+        return `${this.settings.stationId}>APRS,TCPIP*:@${timestamp}${formatLatitude(this.settings.latitude)}/${formatLongitude(this.settings.longitude)}`
+            + `_${field(record.windDirDeg, 3)}/${field(this.convert.wind(record.wind), 3)}g${field(this.convert.wind(record.windGust), 3)}`
+            + `t${field(this.convert.temperature(record.tempOut), 3)}`
+            + `r${field(rainInHundredths(record.rain1h), 3)}p${field(rainInHundredths(record.rain24h), 3)}P${field(rainInHundredths(record.rainDay), 3)}`
+            + `h${field(record.humOut === null ? null : record.humOut % 100, 2)}`
+            + `b${field(pressure === null ? null : pressure * 33.86389 * 10, 5)}`
+            + `${solarRadiation}vant-recorder`;
+    }
+
+    private send(packet: string){
+        return new Promise<void>((resolve, reject) => {
+            const socket = net.createConnection({ host: this.settings.host, port: this.settings.port });
+            let state : "banner" | "login" | "sent" = "banner";
+            let received = "";
+
+            socket.setTimeout(SESSION_TIMEOUT, () => socket.destroy(new Error(`CWOP session with '${this.settings.host}:${this.settings.port}' timed out!`)));
+            socket.on("data", (chunk) => {
+                received += chunk.toString("ascii");
+                if(!received.includes("\n")){
+                    return;
+                }
+                if(state === "banner"){
+                    state = "login";
+                    received = "";
+                    socket.write(`user ${this.settings.stationId} pass ${this.settings.passcode} vers vant-recorder 1.0\r\n`);
+                }else if(state === "login"){
+                    if(!received.includes("logresp")){
+                        received = "";
+                        return;
+                    }
+                    state = "sent";
+                    socket.end(packet + "\r\n");
+                }
+            });
+            socket.on("error", reject);
+            socket.on("close", (hadError) => {
+                if(state === "sent" && !hadError){
+                    resolve();
+                }else if(!hadError){
+                    reject(new Error(`CWOP server '${this.settings.host}:${this.settings.port}' closed the connection before the packet was sent!`));
+                }
+            });
+        });
+    }
+}
+
+function pad(value: number, width: number){
+    return String(value).padStart(width, "0");
+}
+
+/**
+ * Formats a value as fixed width APRS field. Unavailable values are replaced by dots, negative values keep their sign.
+ */
+function field(value: number | null, width: number){
+    if(value === null){
+        return ".".repeat(width);
+    }
+    const rounded = Math.round(value);
+    return rounded < 0 ? "-" + pad(-rounded, width - 1) : pad(rounded, width);
+}
+
+function formatCoordinate(value: number, degreeWidth: number){
+    const absolute = Math.abs(value);
+    let degrees = Math.floor(absolute);
+    let minutes = Math.round((absolute - degrees) * 60 * 100) / 100;
+    if(minutes >= 60){
+        degrees++;
+        minutes = 0;
+    }
+    return pad(degrees, degreeWidth) + minutes.toFixed(2).padStart(5, "0");
+}
+
+function formatLatitude(latitude: number){
+    return formatCoordinate(latitude, 2) + (latitude >= 0 ? "N" : "S");
+}
+
+function formatLongitude(longitude: number){
+    return formatCoordinate(longitude, 3) + (longitude >= 0 ? "E" : "W");
+}
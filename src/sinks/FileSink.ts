@@ -0,0 +1,102 @@
+import fs from "fs/promises";
+import path from "path";
+import { DeepReadonly } from "ts-essentials";
+import { FileSinkSettings } from "../settings/SinkSettings";
+import Sink, { RecordKind } from "./Sink";
+
+/**
+ * Appends every record to a local file per record kind, e.g. `current.jsonl` or `archive.csv`.
+ *
+ * In `"csv"` mode nested values are flattened (e.g. `tempExtra.0`). The columns are taken from the file's header (or from the first record
+ * if the file is new), values of unknown columns are dropped.
+ */
+export default class FileSink implements Sink{
+    public readonly name = "file";
+    public readonly settings : DeepReadonly<FileSinkSettings>;
+
+    private columns = new Map<RecordKind, string[]>();
+    private pendingWrite : Promise<void> = Promise.resolve();
+
+    constructor(settings: DeepReadonly<FileSinkSettings>){
+        this.settings = settings;
+    }
+
+    public write = (kind: RecordKind, record: any) => {
+        const result = this.pendingWrite.then(() => this.append(kind, record));
+        this.pendingWrite = result.catch(() => {});
+        return result;
+    }
+
+    public close = () => this.pendingWrite;
+
+    /**
+     * Returns the path of the file the records of the passed kind are written to.
+     * @param kind the record kind
+     * @returns the file's path
+     */
+    public filePath = (kind: RecordKind) => path.join(this.settings.directory, `${kind}.${this.settings.format}`);
+
+    private async append(kind: RecordKind, record: any){
+        const filePath = this.filePath(kind);
+        await fs.mkdir(this.settings.directory, { recursive: true });
+
+        if(this.settings.format === "jsonl"){
+            await fs.appendFile(filePath, JSON.stringify(record) + "\n");
+            return;
+        }
+
+        const values = FileSink.flatten(record);
+        let columns = this.columns.get(kind);
+        if(!columns){
+            columns = await FileSink.readHeader(filePath);
+            if(!columns){
+                columns = Object.keys(values);
+                await fs.appendFile(filePath, columns.map(FileSink.escape).join(",") + "\n");
+            }
+            this.columns.set(kind, columns);
+        }
+        await fs.appendFile(filePath, columns.map(column => FileSink.escape(values[column])).join(",") + "\n");
+    }
+
+    private static async readHeader(filePath: string){
+        let file;
+        try{
+            file = await fs.open(filePath, "r");
+        }catch(err: any){
+            if(err.code === "ENOENT"){
+                return undefined;
+            }
+            throw err;
+        }
+        const buffer = Buffer.alloc(65536);
+        try{
+            await file.read(buffer, 0, buffer.length, 0);
+        }finally{
+            await file.close();
+        }
+        const header = buffer.toString("utf-8").split("\n")[0].replace(/\0+$/, "");
+        return header ? header.split(",").map(column => column.replace(/^"|"$/g, "").replace(/""/g, "\"")) : undefined;
+    }
+
+    /**
+     * Flattens nested objects and arrays, e.g. `{ tempExtra: [1, 2] }` becomes `{ "tempExtra.0": 1, "tempExtra.1": 2 }`.
+     */
+    private static flatten(value: any, prefix = "", result : Record<string, any> = {}){
+        if(value !== null && typeof value === "object" && !(value instanceof Date)){
+            for(const key of Object.keys(value)){
+                FileSink.flatten(value[key], prefix ? `${prefix}.${key}` : key, result);
+            }
+        }else{
+            result[prefix] = value;
+        }
+        return result;
+    }
+
+    private static escape(value: any){
+        if(value === null || value === undefined){
+            return "";
+        }
+        const text = value instanceof Date ? value.toISOString() : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+    }
+}
@@ -0,0 +1,139 @@
+import mqtt from "mqtt";
+import { DeepReadonly } from "ts-essentials";
+import { MqttSinkSettings } from "../settings/SinkSettings";
+import RecorderSettings from "../settings/RecorderSettings";
+import log from "../log";
+import Sink, { RecordKind } from "./Sink";
+import { homeAssistantSensors } from "./homeAssistantSensors";
+
+/**
+ * Publishes every record as JSON to the topic `<topicPrefix>/<kind>` (e.g. `vant-recorder/current`) of an MQTT broker.
+ * If `fieldTopics` is enabled every field of the current conditions is also published to its own topic, e.g. `vant-recorder/current/tempOut`
+ * (array fields like `tempExtra` are published as `vant-recorder/current/tempExtra/0`, ...). Unavailable values are published as `None`.
+ *
+ * The recorder's availability is published (retained) to `<topicPrefix>/status`: `online` on `start()`, `offline` on `stop()`. If the recorder
+ * dies unexpectedly the broker publishes `offline` (last will).
+ *
+ * If `homeAssistant` is enabled, retained discovery messages are published on every (re-)connect, so that the current conditions automatically
+ * show up as sensors in Home Assistant.
+ *
+ * The connection is established in the background and re-established automatically if it is lost.
+ * Records written while the broker is unreachable are rejected (and therefore lost for this sink).
+ */
+export default class MqttSink implements Sink{
+    public readonly name = "mqtt";
+    public readonly settings : DeepReadonly<MqttSinkSettings>;
+    public readonly recorderSettings : DeepReadonly<RecorderSettings>;
+    public readonly client : mqtt.MqttClient;
+
+    private running = false;
+
+    constructor(settings: DeepReadonly<MqttSinkSettings>, recorderSettings: DeepReadonly<RecorderSettings>){
+        this.settings = settings;
+        this.recorderSettings = recorderSettings;
+        this.client = mqtt.connect(settings.url, {
+            username: settings.username,
+            password: settings.password,
+            will: {
+                topic: this.availabilityTopic(),
+                payload: Buffer.from("offline"),
+                qos: 1,
+                retain: true,
+            },
+        });
+        this.client.on("connect", this.onConnect);
+        this.client.on("offline", () => log.warn(`Lost connection to MQTT broker '${settings.url}'!`));
+        this.client.on("error", (err) => {
+            log.error(`MQTT error (${settings.url})`);
+            log.error(err);
+        });
+    }
+
+    /**
+     * Returns the topic the recorder's availability (`online` / `offline`) is published to.
+     * @returns the availability topic
+     */
+    public availabilityTopic = () => `${this.settings.topicPrefix}/status`;
+
+    public start = () => {
+        this.running = true;
+        this.publishAvailability();
+    }
+
+    public stop = () => {
+        this.running = false;
+        this.publishAvailability();
+    }
+
+    public write = async(kind: RecordKind, record: any) => {
+        if(!this.client.connected){
+            throw new Error(`Not connected to MQTT broker '${this.settings.url}'!`);
+        }
+        const publications = [this.client.publishAsync(`${this.settings.topicPrefix}/${kind}`, JSON.stringify(record), { qos: 1 })];
+        if(this.settings.fieldTopics && kind === "current"){
+            for(const [field, value] of Object.entries(record)){
+                if(Array.isArray(value)){
+                    value.forEach((element, index) => publications.push(this.publishField(`${field}/${index}`, element)));
+                }else{
+                    publications.push(this.publishField(field, value));
+                }
+            }
+        }
+        await Promise.all(publications);
+    }
+
+    public close = async() => {
+        this.running = false;
+        if(this.client.connected){
+            await this.client.publishAsync(this.availabilityTopic(), "offline", { qos: 1, retain: true });
+        }
+        await this.client.endAsync();
+    }
+
+    private publishField(field: string, value: any){
+        const payload = value === null || value === undefined ? "None" : value instanceof Date ? value.toISOString() : String(value);
+        return this.client.publishAsync(`${this.settings.topicPrefix}/current/${field}`, payload, { qos: 0 });
+    }
+
+    private publishAvailability(){
+        if(this.client.connected){
+            this.client.publish(this.availabilityTopic(), this.running ? "online" : "offline", { qos: 1, retain: true });
+        }
+    }
+
+    private onConnect = () => {
+        log.info(`Connected to MQTT broker '${this.settings.url}'!`);
+        this.publishAvailability();
+        if(this.settings.homeAssistant){
+            this.publishHomeAssistantDiscovery();
+        }
+    }
+
+    /**
+     * Publishes a retained Home Assistant discovery message for every supported field of the current conditions.
+     */
+    private publishHomeAssistantDiscovery(){
+        const device = {
+            identifiers: [this.settings.deviceId],
+            name: { Pro2: "Vantage Pro 2", Vue: "Vantage Vue", Simulator: "Simulated weather station" }[this.recorderSettings.model],
+            manufacturer: "Davis Instruments",
+            model: this.recorderSettings.model,
+        };
+        for(const sensor of homeAssistantSensors){
+            const config = {
+                name: sensor.name,
+                unique_id: `${this.settings.deviceId}_${sensor.field}`,
+                state_topic: `${this.settings.topicPrefix}/current/${sensor.field}`,
+                availability_topic: this.availabilityTopic(),
+                payload_available: "online",
+                payload_not_available: "offline",
+                device_class: sensor.deviceClass,
+                state_class: sensor.measurement ? "measurement" : undefined,
+                unit_of_measurement: sensor.unit?.(this.recorderSettings.units),
+                device,
+            };
+            this.client.publish(`${this.settings.discoveryPrefix}/sensor/${this.settings.deviceId}/${sensor.field}/config`, JSON.stringify(config), { qos: 1, retain: true });
+        }
+        log.debug(`Published ${homeAssistantSensors.length} Home Assistant discovery messages.`);
+    }
+}
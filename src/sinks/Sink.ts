@@ -0,0 +1,63 @@
+/**
+ * The kind of data passed to a {@link Sink}:
+ * - `"current"`: a `RichRealtimeData` record (current conditions task)
+ * - `"archive"`: an {@link ArchiveRecord} (archive task)
+ * - `"highs-and-lows"`: a `HighsAndLows` record (highs and lows task)
+ * - `"aggregates"`: an {@link AggregatesRecord} computed by the recorder (aggregates task)
+ */
+export type RecordKind = "current" | "archive" | "highs-and-lows" | "aggregates";
+
+/**
+ * The result of a {@link Sink}'s write:
+ * - `"written"`: the record has been written (sinks may resolve with nothing instead)
+ * - `"buffered"`: the destination is unreachable, the record has been buffered and is written later on (e.g. by the api sink's offline buffer)
+ * - `"skipped"`: the sink doesn't write the record on purpose (e.g. because of a rate limit or because it only accepts some record kinds)
+ */
+export type WriteResult = "written" | "buffered" | "skipped";
+
+/**
+ * A destination the recorder writes its records to, e.g. your vant-api instance, an MQTT broker or a local file.
+ * Every record is passed to all configured sinks. A failing sink doesn't affect the other ones.
+ * 
+ * Implement this interface to write records to your own destination and pass your sink to {@link Recorder.addSink}:
+ * ```ts
+ * recorder.addSink({
+ *      name: "my-sink",
+ *      write: async(kind, record) => { ... },
+ * });
+ * ```
+ */
+export default interface Sink{
+    /** A human readable name of the sink, used for logging. */
+    readonly name: string;
+
+    /**
+     * Writes the passed record. Should reject if the record could not be written (and therefore is lost).
+     * @param kind the kind of the record
+     * @param record the record to write
+     * @returns `"buffered"` if the record is written later on or `"skipped"` if it isn't written on purpose, see {@link WriteResult}
+     */
+    write(kind: RecordKind, record: any): Promise<WriteResult | void>;
+
+    /**
+     * Writes the passed records at once (e.g. as one compressed upload). Optional, if implemented the current conditions task passes its records
+     * to this method instead of {@link write} if it uploads in batches (see {@link CurrentConditionsTaskSettings.uploadMode}).
+     * Should reject if the records could not be written (and therefore are lost).
+     * @param kind the kind of the records
+     * @param records the records to write (oldest first)
+     * @returns `"buffered"` if the records are written later on or `"skipped"` if they aren't written on purpose, see {@link WriteResult}
+     */
+    writeBatch?(kind: RecordKind, records: any[]): Promise<WriteResult | void>;
+
+    /** Called when the recorder starts. */
+    start?(): void;
+
+    /** Called when the recorder stops. */
+    stop?(): void;
+
+    /** Called when the recorder is closed. Should release all resources (connections, file handles, ...). */
+    close?(): Promise<void>;
+
+    /** Returns the number of records waiting to be written (e.g. buffered because the destination is unreachable). Exposed as metric. */
+    queueSize?(): number;
+}
@@ -0,0 +1,148 @@
+import fs from "fs/promises";
+import path from "path";
+import Database from "better-sqlite3";
+import { DeepReadonly } from "ts-essentials";
+import { SqliteSinkSettings } from "../settings/SinkSettings";
+import log from "../log";
+import Sink, { RecordKind } from "./Sink";
+
+/** The interval (in milliseconds) in which old records are deleted and downsampled. */
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+/** The maximum number of records returned by a query if no limit is passed. */
+const DEFAULT_QUERY_LIMIT = 1000;
+
+/**
+ * A query of stored records, see {@link SqliteSink.query}.
+ */
+export interface RecordQuery{
+    /** The oldest record time (inclusive). Default: no lower bound. */
+    from?: Date,
+    /** The newest record time (inclusive). Default: no upper bound. */
+    to?: Date,
+    /** The maximum number of returned records. Default is `1000`. */
+    limit?: number,
+}
+
+/**
+ * Stores every record in a local SQLite database (one row per record holding the record as JSON). Records are stored by their `time`
+ * (highs and lows by the time they have been written).
+ *
+ * Once an hour (and when the recorder starts) records older than the retention are deleted and old current conditions are downsampled.
+ *
+ * To create a SQLite sink write:
+ * ```ts
+ * const sink = await SqliteSink.create(settings);
+ * ```
+ */
+export default class SqliteSink implements Sink{
+    public readonly name = "sqlite";
+    public readonly settings : DeepReadonly<SqliteSinkSettings>;
+
+    private readonly database : Database.Database;
+    private readonly insertStatement : Database.Statement<[string, number, string]>;
+    private cleanupInterval? : NodeJS.Timeout;
+
+    private constructor(settings: DeepReadonly<SqliteSinkSettings>, database: Database.Database){
+        this.settings = settings;
+        this.database = database;
+        this.insertStatement = database.prepare("INSERT INTO records (kind, time, data) VALUES (?, ?, ?)");
+    }
+
+    /**
+     * Opens (or creates) the SQLite database configured in the passed settings.
+     * @param settings the sink's settings
+     * @returns the SQLite sink
+     */
+    public static create = async(settings: DeepReadonly<SqliteSinkSettings>) => {
+        await fs.mkdir(path.dirname(settings.path), { recursive: true });
+        const database = new Database(settings.path);
+        database.pragma("journal_mode = WAL");
+        database.exec(`
+            CREATE TABLE IF NOT EXISTS records (kind TEXT NOT NULL, time INTEGER NOT NULL, data TEXT NOT NULL);
+            CREATE INDEX IF NOT EXISTS records_kind_time ON records (kind, time);
+        `);
+        return new SqliteSink(settings, database);
+    }
+
+    public write = async(kind: RecordKind, record: any) => {
+        this.insertStatement.run(kind, SqliteSink.timeOf(record), JSON.stringify(record));
+    }
+
+    public writeBatch = async(kind: RecordKind, records: any[]) => {
+        this.database.transaction(() => {
+            for(const record of records){
+                this.insertStatement.run(kind, SqliteSink.timeOf(record), JSON.stringify(record));
+            }
+        })();
+    }
+
+    public start = () => {
+        this.cleanup();
+        clearInterval(this.cleanupInterval);
+        this.cleanupInterval = setInterval(this.cleanup, CLEANUP_INTERVAL);
+    }
+
+    public stop = () => {
+        clearInterval(this.cleanupInterval);
+    }
+
+    public close = async() => {
+        this.stop();
+        this.database.close();
+    }
+
+    /**
+     * Returns the stored records of the passed kind (oldest first). Dates are returned as ISO strings.
+     * @param kind the record kind
+     * @param query the time range and the maximum number of records
+     * @returns the records
+     */
+    public query = (kind: RecordKind, query: RecordQuery = {}) : any[] => {
+        const rows = this.database.prepare("SELECT data FROM records WHERE kind = ? AND time >= ? AND time <= ? ORDER BY time LIMIT ?")
+            .all(kind, query.from?.getTime() ?? 0, query.to?.getTime() ?? Number.MAX_SAFE_INTEGER, query.limit ?? DEFAULT_QUERY_LIMIT) as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    /**
+     * Returns the newest stored record of the passed kind. Dates are returned as ISO strings.
+     * @param kind the record kind
+     * @returns the record or `undefined` if no record of this kind has been stored
+     */
+    public latest = (kind: RecordKind) : any | undefined => {
+        const row = this.database.prepare("SELECT data FROM records WHERE kind = ? ORDER BY time DESC LIMIT 1").get(kind) as { data: string } | undefined;
+        return row ? JSON.parse(row.data) : undefined;
+    }
+
+    /**
+     * Deletes the records older than the retention and downsamples the current conditions older than `downsampleAfter`.
+     * @param now the current time
+     */
+    public cleanup = (now = new Date()) => {
+        try{
+            let deleted = 0;
+            if(this.settings.retention > 0){
+                deleted += this.database.prepare("DELETE FROM records WHERE time < ?")
+                    .run(now.getTime() - this.settings.retention * 24 * 60 * 60 * 1000).changes;
+            }
+            if(this.settings.downsampleInterval > 0){
+                // Only complete intervals are downsampled, of every interval the newest record is kept
+                const interval = this.settings.downsampleInterval * 1000;
+                const before = Math.floor((now.getTime() - this.settings.downsampleAfter * 60 * 60 * 1000) / interval) * interval;
+                deleted += this.database.prepare(`DELETE FROM records WHERE kind = 'current' AND time < @before AND rowid NOT IN (
+                    SELECT id FROM (SELECT rowid AS id, MAX(time) FROM records WHERE kind = 'current' AND time < @before GROUP BY CAST(time / @interval AS INTEGER))
+                )`).run({ before, interval }).changes;
+            }
+            if(deleted > 0){
+                log.info(`Deleted ${deleted} old or downsampled record(s) from '${this.settings.path}'.`);
+            }
+        }catch(err){
+            log.error(`Failed to clean up the SQLite database '${this.settings.path}'!`);
+            log.error(err);
+        }
+    }
+
+    private static timeOf(record: any){
+        const time = record.time instanceof Date ? record.time.getTime() : typeof record.time === "string" ? Date.parse(record.time) : NaN;
+        return isNaN(time) ? Date.now() : time;
+    }
+}
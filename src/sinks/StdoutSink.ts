@@ -0,0 +1,12 @@
+import Sink, { RecordKind } from "./Sink";
+
+/**
+ * Writes every record as single line JSON (`{"kind": ..., "record": ...}`) to the standard output.
+ */
+export default class StdoutSink implements Sink{
+    public readonly name = "stdout";
+
+    public write = (kind: RecordKind, record: any) => new Promise<void>((resolve, reject) => {
+        process.stdout.write(JSON.stringify({ kind, record }) + "\n", (err) => err ? reject(err) : resolve());
+    });
+}
@@ -0,0 +1,82 @@
+import superagent from "superagent";
+import { DeepReadonly } from "ts-essentials";
+import { UnitConfiguration } from "vant-environment/units";
+import { RichRealtimeData } from "vant-environment/structures";
+import { WundergroundSinkSettings } from "../settings/SinkSettings";
+import createImperialConverters from "../units/imperialUnits";
+import Sink, { RecordKind, WriteResult } from "./Sink";
+
+/**
+ * Uploads the current conditions to Weather Underground or PWSweather using their `updateweatherstation` protocol (a `GET` request
+ * with the weather data as query parameters). Values are converted to the required imperial units.
+ *
+ * Uploads are rate limited: records arriving earlier than `interval` seconds after the last upload are skipped. Other record kinds are ignored.
+ */
+export default class WundergroundSink implements Sink{
+    public readonly name : string;
+    public readonly settings : DeepReadonly<WundergroundSinkSettings>;
+
+    private readonly convert : ReturnType<typeof createImperialConverters>;
+    private lastUpload = 0;
+
+    constructor(settings: DeepReadonly<WundergroundSinkSettings>, units: DeepReadonly<UnitConfiguration>){
+        this.name = settings.type;
+        this.settings = settings;
+        this.convert = createImperialConverters(units);
+    }
+
+    public write = async(kind: RecordKind, record: RichRealtimeData) : Promise<WriteResult> => {
+        if(kind !== "current" || Date.now() - this.lastUpload < this.settings.interval * 1000){
+            return "skipped";
+        }
+        this.lastUpload = Date.now();
+
+        const res = await superagent
+            .get(this.settings.url)
+            .query(this.createQuery(record))
+            .ok(() => true);
+        if(!res.ok){
+            throw new Error(`${this.name} responded with status ${res.status}: ${res.text}`);
+        }
+        return "written";
+    }
+
+    /**
+     * Creates the query parameters of the `updateweatherstation` protocol. Unavailable values are omitted.
+     * @param record the current conditions
+     * @returns the query parameters
+     */
+    public createQuery = (record: RichRealtimeData) => {
+        const time = new Date(record.time);
+        const query : Record<string, string> = {
+            ID: this.settings.stationId,
+            PASSWORD: this.settings.password,
+            dateutc: time.toISOString().slice(0, 19).replace("T", " "),
+            action: "updateraw",
+            softwaretype: "vant-recorder",
+        };
+        const values : Record<string, number | null> = {
+            tempf: this.convert.temperature(record.tempOut),
+            humidity: record.humOut,
+            dewptf: this.convert.temperature(record.dewpoint),
+            baromin: this.convert.pressure(record.press),
+            windspeedmph: this.convert.wind(record.wind),
+            winddir: record.windDirDeg,
+            windgustmph: this.convert.wind(record.windGust),
+            windgustdir: record.windGustDirDeg,
+            windspdmph_avg2m: this.convert.wind(record.windAvg2m),
+            rainin: this.convert.rain(record.rain1h),
+            dailyrainin: this.convert.rain(record.rainDay),
+            solarradiation: record.solarRadiation,
+            UV: record.uv,
+            indoortempf: this.convert.temperature(record.tempIn),
+            indoorhumidity: record.humIn,
+        };
+        for(const [parameter, value] of Object.entries(values)){
+            if(value !== null && value !== undefined){
+                query[parameter] = String(Math.round(value * 1000) / 1000);
+            }
+        }
+        return query;
+    }
+}
@@ -0,0 +1,38 @@
+import { DeepReadonly } from "ts-essentials";
+import RecorderSettings from "../settings/RecorderSettings";
+import SinkSettings from "../settings/SinkSettings";
+import ApiSink from "./ApiSink";
+import FileSink from "./FileSink";
+import MqttSink from "./MqttSink";
+import Sink from "./Sink";
+import StdoutSink from "./StdoutSink";
+import WundergroundSink from "./WundergroundSink";
+import CwopSink from "./CwopSink";
+import SqliteSink from "./SqliteSink";
+
+/**
+ * Creates the sink described by the passed sink settings.
+ * @param sinkSettings the sink's settings
+ * @param settings the recorder's settings
+ * @returns the created sink
+ * @hidden
+ */
+export default async function createSink(sinkSettings: DeepReadonly<SinkSettings>, settings: DeepReadonly<RecorderSettings>) : Promise<Sink>{
+    switch(sinkSettings.type){
+        case "api":
+            return await ApiSink.create(settings);
+        case "mqtt":
+            return new MqttSink(sinkSettings, settings);
+        case "file":
+            return new FileSink(sinkSettings);
+        case "stdout":
+            return new StdoutSink();
+        case "wunderground":
+        case "pwsweather":
+            return new WundergroundSink(sinkSettings, settings.units);
+        case "cwop":
+            return new CwopSink(sinkSettings, settings.units);
+        case "sqlite":
+            return await SqliteSink.create(sinkSettings);
+    }
+}
@@ -0,0 +1,77 @@
+import { UnitConfiguration } from "vant-environment/units";
+import { DeepReadonly } from "ts-essentials";
+
+/**
+ * Describes a `RichRealtimeData` field exposed as Home Assistant sensor.
+ * @hidden
+ */
+export interface HomeAssistantSensor{
+    /** The record's field (also the last part of the sensor's state topic) */
+    field: string,
+    /** The sensor's display name */
+    name: string,
+    /** The Home Assistant device class */
+    deviceClass?: string,
+    /** Whether the sensor is a measurement (enables long-term statistics) */
+    measurement?: boolean,
+    /** Returns the unit of measurement for the configured units */
+    unit?: (units: DeepReadonly<UnitConfiguration>) => string,
+}
+
+const homeAssistantUnits : Record<string, string> = {
+    "mb": "mbar",
+    "knots": "kn",
+    "Bft": "Beaufort",
+};
+
+const temperature = (units: DeepReadonly<UnitConfiguration>) => units.temperature;
+const pressure = (units: DeepReadonly<UnitConfiguration>) => homeAssistantUnits[units.pressure] ?? units.pressure;
+const wind = (units: DeepReadonly<UnitConfiguration>) => homeAssistantUnits[units.wind] ?? units.wind;
+const rain = (units: DeepReadonly<UnitConfiguration>) => units.rain;
+const rainRate = (units: DeepReadonly<UnitConfiguration>) => `${units.rain}/h`;
+const percent = () => "%";
+const degrees = () => "°";
+
+/**
+ * The `RichRealtimeData` fields announced to Home Assistant via MQTT discovery.
+ * @hidden
+ */
+export const homeAssistantSensors : HomeAssistantSensor[] = [
+    { field: "time", name: "Record time", deviceClass: "timestamp" },
+    { field: "press", name: "Pressure", deviceClass: "atmospheric_pressure", measurement: true, unit: pressure },
+    { field: "pressAbs", name: "Absolute pressure", deviceClass: "atmospheric_pressure", measurement: true, unit: pressure },
+    { field: "pressTrend", name: "Pressure trend" },
+    { field: "tempOut", name: "Outside temperature", deviceClass: "temperature", measurement: true, unit: temperature },
+    { field: "tempIn", name: "Inside temperature", deviceClass: "temperature", measurement: true, unit: temperature },
+    { field: "heat", name: "Heat index", deviceClass: "temperature", measurement: true, unit: temperature },
+    { field: "chill", name: "Wind chill", deviceClass: "temperature", measurement: true, unit: temperature },
+    { field: "dewpoint", name: "Dew point", deviceClass: "temperature", measurement: true, unit: temperature },
+    { field: "thsw", name: "THSW index", deviceClass: "temperature", measurement: true, unit: temperature },
+    { field: "humOut", name: "Outside humidity", deviceClass: "humidity", measurement: true, unit: percent },
+    { field: "humIn", name: "Inside humidity", deviceClass: "humidity", measurement: true, unit: percent },
+    { field: "wind", name: "Wind speed", deviceClass: "wind_speed", measurement: true, unit: wind },
+    { field: "windAvg2m", name: "Wind speed (2 min average)", deviceClass: "wind_speed", measurement: true, unit: wind },
+    { field: "windAvg10m", name: "Wind speed (10 min average)", deviceClass: "wind_speed", measurement: true, unit: wind },
+    { field: "windGust", name: "Wind gust", deviceClass: "wind_speed", measurement: true, unit: wind },
+    { field: "windDir", name: "Wind direction" },
+    { field: "windDirDeg", name: "Wind direction (degrees)", measurement: true, unit: degrees },
+    { field: "windGustDir", name: "Wind gust direction" },
+    { field: "windGustDirDeg", name: "Wind gust direction (degrees)", measurement: true, unit: degrees },
+    { field: "rainRate", name: "Rain rate", deviceClass: "precipitation_intensity", measurement: true, unit: rainRate },
+    { field: "rain15m", name: "Rain (15 min)", deviceClass: "precipitation", unit: rain },
+    { field: "rain1h", name: "Rain (1 hour)", deviceClass: "precipitation", unit: rain },
+    { field: "rain24h", name: "Rain (24 hours)", deviceClass: "precipitation", unit: rain },
+    { field: "rainDay", name: "Rain (day)", deviceClass: "precipitation", unit: rain },
+    { field: "rainMonth", name: "Rain (month)", deviceClass: "precipitation", unit: rain },
+    { field: "rainYear", name: "Rain (year)", deviceClass: "precipitation", unit: rain },
+    { field: "stormRain", name: "Storm rain", deviceClass: "precipitation", unit: rain },
+    { field: "etDay", name: "Evapotranspiration (day)", deviceClass: "precipitation", unit: rain },
+    { field: "etMonth", name: "Evapotranspiration (month)", deviceClass: "precipitation", unit: rain },
+    { field: "etYear", name: "Evapotranspiration (year)", deviceClass: "precipitation", unit: rain },
+    { field: "uv", name: "UV index", measurement: true, unit: () => "UV index" },
+    { field: "solarRadiation", name: "Solar radiation", deviceClass: "irradiance", measurement: true, unit: (units) => units.solarRadiation },
+    { field: "forecast", name: "Forecast" },
+    { field: "consoleBatteryVoltage", name: "Console battery", deviceClass: "voltage", measurement: true, unit: () => "V" },
+    { field: "sunrise", name: "Sunrise" },
+    { field: "sunset", name: "Sunset" },
+];
@@ -0,0 +1,201 @@
+import { DataQualityCheck } from "../quality/DataQualityFilter";
+
+/**
+ * The names of the recorder's tasks as used in the metrics' `task` label.
+ */
+export type TaskName = "current-conditions" | "archive" | "highs-and-lows" | "aggregates" | "maintenance";
+
+/** The upper bounds (in seconds) of the upload duration histogram's buckets. */
+const UPLOAD_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * The recorder's state at the time the metrics are collected.
+ */
+export interface RecorderState{
+    /** Whether the recorder is running. */
+    running: boolean,
+    /** Whether the serial connection to the weather station is open. */
+    serialConnected: boolean,
+    /** The number of records waiting to be written per sink (only sinks that queue records, e.g. the api sink's offline buffer). */
+    queueSizes: Map<string, number>,
+}
+
+/**
+ * The outcome of an upload to a sink: the record has been written, buffered to be written later on (e.g. by the api sink's offline buffer) or is lost.
+ */
+export type UploadResult = "succeeded" | "buffered" | "failed";
+
+interface UploadStatistics{
+    uploads: number,
+    failures: number,
+    buffered: number,
+    durationSum: number,
+    /** The cumulative bucket counts, one per entry in {@link UPLOAD_DURATION_BUCKETS}. */
+    buckets: number[],
+}
+
+/**
+ * Collects the recorder's counters (task runs, reads from the weather station, invalid values, uploads to the sinks) and renders them
+ * in the Prometheus text format. Every write of a record to a sink counts as upload.
+ */
+export default class RecorderMetrics{
+    /** The time of the last successful read from the weather station. */
+    public lastReadTime? : Date;
+    /** The time of the last successful upload to any sink. */
+    public lastUploadTime? : Date;
+    /** The difference (in seconds) between the console's and the host's clock measured by the last maintenance run. Positive if the console is ahead. */
+    public clockDrift? : number;
+    /** The number of times the console's clock has been set. */
+    public clockAdjustments = 0;
+
+    private readonly taskRuns = new Map<TaskName, number>();
+    private readonly taskFailures = new Map<TaskName, number>();
+    private readonly reads = new Map<TaskName, number>();
+    private readonly readFailures = new Map<TaskName, number>();
+    private readonly uploads = new Map<string, UploadStatistics>();
+    private readonly invalidValues = new Map<string, { field: string, check: DataQualityCheck, count: number }>();
+    private readonly alarms = new Map<string, { rule: string, state: string, count: number }>();
+    private readonly notificationFailures = new Map<string, number>();
+
+    /**
+     * Counts a read from the weather station.
+     * @param task the task that read the data
+     * @param succeeded whether the read succeeded
+     */
+    public readCompleted = (task: TaskName, succeeded: boolean) => {
+        increment(succeeded ? this.reads : this.readFailures, task);
+        if(succeeded){
+            this.lastReadTime = new Date();
+        }
+    }
+
+    /**
+     * Counts a value of the current conditions that failed a data quality check.
+     * @param field the field (e.g. `tempOut`)
+     * @param check the failed check
+     */
+    public invalidValue = (field: string, check: DataQualityCheck) => {
+        const key = `${field} ${check}`;
+        const counter = this.invalidValues.get(key) ?? { field, check, count: 0 };
+        counter.count++;
+        this.invalidValues.set(key, counter);
+    }
+
+    /**
+     * Counts an alarm that triggered or has been cleared (and is notified).
+     * @param rule the alarm rule's name
+     * @param state whether the alarm triggered or has been cleared
+     */
+    public alarmNotified = (rule: string, state: "triggered" | "cleared") => {
+        const key = `${rule} ${state}`;
+        const counter = this.alarms.get(key) ?? { rule, state, count: 0 };
+        counter.count++;
+        this.alarms.set(key, counter);
+    }
+
+    /**
+     * Counts a notification that couldn't be sent.
+     * @param notifier the notifier's name
+     */
+    public notificationFailed = (notifier: string) => {
+        increment(this.notificationFailures, notifier);
+    }
+
+    /**
+     * Counts a run of a task.
+     * @param task the task
+     * @param succeeded whether the run succeeded (i.e. the data has been read and written to all sinks)
+     */
+    public taskCompleted = (task: TaskName, succeeded: boolean) => {
+        increment(this.taskRuns, task);
+        if(!succeeded){
+            increment(this.taskFailures, task);
+        }
+    }
+
+    /**
+     * Counts an upload of a record to a sink. Only successful uploads update the {@link lastUploadTime}.
+     * @param sink the sink's name
+     * @param duration the upload's duration in seconds
+     * @param result whether the record has been written, buffered or is lost
+     */
+    public uploadCompleted = (sink: string, duration: number, result: UploadResult) => {
+        let statistics = this.uploads.get(sink);
+        if(!statistics){
+            statistics = { uploads: 0, failures: 0, buffered: 0, durationSum: 0, buckets: UPLOAD_DURATION_BUCKETS.map(() => 0) };
+            this.uploads.set(sink, statistics);
+        }
+        statistics.uploads++;
+        statistics.durationSum += duration;
+        UPLOAD_DURATION_BUCKETS.forEach((bound, index) => {
+            if(duration <= bound){
+                statistics!.buckets[index]++;
+            }
+        });
+        if(result === "succeeded"){
+            this.lastUploadTime = new Date();
+        }else if(result === "buffered"){
+            statistics.buffered++;
+        }else{
+            statistics.failures++;
+        }
+    }
+
+    /**
+     * Renders all metrics in the Prometheus text format (version 0.0.4).
+     * @param state the recorder's current state
+     * @returns the metrics
+     */
+    public toPrometheus = (state: RecorderState) => {
+        const lines : string[] = [];
+        const metric = (name: string, type: "counter" | "gauge" | "histogram", help: string, samples: [string, number][]) => {
+            lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+            for(const [labels, value] of samples){
+                lines.push(`${name}${labels} ${value}`);
+            }
+        };
+
+        metric("vant_recorder_running", "gauge", "Whether the recorder is running.", [["", state.running ? 1 : 0]]);
+        metric("vant_recorder_serial_connected", "gauge", "Whether the serial connection to the weather station is open.", [["", state.serialConnected ? 1 : 0]]);
+        metric("vant_recorder_last_read_timestamp_seconds", "gauge", "Time of the last successful read from the weather station.", this.lastReadTime ? [["", this.lastReadTime.getTime() / 1000]] : []);
+        metric("vant_recorder_last_upload_timestamp_seconds", "gauge", "Time of the last successful upload to any sink.", this.lastUploadTime ? [["", this.lastUploadTime.getTime() / 1000]] : []);
+
+        metric("vant_recorder_console_clock_drift_seconds", "gauge", "Difference between the console's and the host's clock measured by the last maintenance run.", this.clockDrift !== undefined ? [["", this.clockDrift]] : []);
+        metric("vant_recorder_console_clock_adjustments_total", "counter", "Number of times the console's clock has been set.", [["", this.clockAdjustments]]);
+
+        metric("vant_recorder_task_runs_total", "counter", "Number of task runs.", taskSamples(this.taskRuns));
+        metric("vant_recorder_task_failures_total", "counter", "Number of task runs that failed to read or write their data.", taskSamples(this.taskFailures));
+        metric("vant_recorder_reads_total", "counter", "Number of successful reads from the weather station.", taskSamples(this.reads));
+        metric("vant_recorder_read_failures_total", "counter", "Number of failed reads from the weather station.", taskSamples(this.readFailures));
+        metric("vant_recorder_invalid_values_total", "counter", "Number of values that failed a data quality check.", [...this.invalidValues.values()].map(({ field, check, count }) => [labels({ field, check }), count]));
+        metric("vant_recorder_alarms_total", "counter", "Number of notified alarms that triggered or have been cleared.", [...this.alarms.values()].map(({ rule, state, count }) => [labels({ rule, state }), count]));
+        metric("vant_recorder_notification_failures_total", "counter", "Number of notifications that couldn't be sent.", [...this.notificationFailures.entries()].map(([notifier, count]) => [labels({ notifier }), count]));
+
+        const uploads = [...this.uploads.entries()];
+        metric("vant_recorder_uploads_total", "counter", "Number of uploads to a sink.", uploads.map(([sink, statistics]) => [labels({ sink }), statistics.uploads]));
+        metric("vant_recorder_upload_failures_total", "counter", "Number of failed uploads to a sink.", uploads.map(([sink, statistics]) => [labels({ sink }), statistics.failures]));
+        metric("vant_recorder_buffered_uploads_total", "counter", "Number of uploads a sink buffered to write them later on (e.g. because the api is unreachable).", uploads.map(([sink, statistics]) => [labels({ sink }), statistics.buffered]));
+        metric("vant_recorder_upload_duration_seconds", "histogram", "Duration of uploads to a sink.", uploads.flatMap(([sink, statistics]) : [string, number][] => [
+            ...UPLOAD_DURATION_BUCKETS.map((bound, index) : [string, number] => ["_bucket" + labels({ sink, le: String(bound) }), statistics.buckets[index]]),
+            ["_bucket" + labels({ sink, le: "+Inf" }), statistics.uploads],
+            ["_sum" + labels({ sink }), statistics.durationSum],
+            ["_count" + labels({ sink }), statistics.uploads],
+        ]));
+        metric("vant_recorder_queue_depth", "gauge", "Number of records waiting to be written to a sink.", [...state.queueSizes.entries()].map(([sink, size]) => [labels({ sink }), size]));
+
+        return lines.join("\n") + "\n";
+    }
+}
+
+function increment<K>(counters: Map<K, number>, key: K){
+    counters.set(key, (counters.get(key) ?? 0) + 1);
+}
+
+function taskSamples(counters: Map<TaskName, number>) : [string, number][]{
+    return [...counters.entries()].map(([task, value]) => [labels({ task }), value]);
+}
+
+function labels(values: Record<string, string>){
+    const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+    return "{" + Object.entries(values).map(([name, value]) => `${name}="${escape(value)}"`).join(",") + "}";
+}
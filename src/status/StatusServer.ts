@@ -0,0 +1,106 @@
+import http from "http";
+import { DeepReadonly } from "ts-essentials";
+import { StatusServerSettings } from "../settings/RecorderSettings";
+import type Recorder from "../Recorder";
+import { RecordKind } from "../sinks/Sink";
+import log from "../log";
+
+/** The record kinds that can be queried. */
+const RECORD_KINDS : RecordKind[] = ["current", "archive", "highs-and-lows", "aggregates"];
+/** The maximum number of records returned by one query. */
+const MAX_QUERY_LIMIT = 10000;
+
+/**
+ * Embedded HTTP server exposing the recorder's health and metrics:
+ * - `GET /health`: the recorder's health as JSON (see {@link Recorder.getHealth}). Responds with `200` if the recorder is healthy, otherwise with `503`.
+ * - `GET /metrics`: the recorder's metrics in the Prometheus text format (see {@link Recorder.getMetrics}).
+ * - `GET /records/<kind>?from=<time>&to=<time>&limit=<n>`: the locally stored records of the kind (`current`, `archive`, `highs-and-lows`, `aggregates`)
+ *   in the time range as JSON array (oldest first). All parameters are optional, the times are ISO 8601 strings. Requires a SQLite sink (see {@link SqliteSinkSettings}).
+ * - `GET /records/<kind>/latest`: the newest locally stored record of the kind as JSON. Responds with `404` if there is none.
+ *
+ * Create an instance using {@link StatusServer.start}.
+ */
+export default class StatusServer{
+    public readonly settings : DeepReadonly<StatusServerSettings>;
+    public readonly server : http.Server;
+
+    private constructor(settings: DeepReadonly<StatusServerSettings>, server: http.Server){
+        this.settings = settings;
+        this.server = server;
+    }
+
+    /**
+     * Starts a status server for the passed recorder. Resolves as soon as the server is listening.
+     * @param settings the status server's settings
+     * @param recorder the recorder whose health and metrics are exposed
+     * @returns the started status server
+     */
+    public static start = (settings: DeepReadonly<StatusServerSettings>, recorder: Recorder) => {
+        const server = http.createServer((req, res) => {
+            const route = new URL(req.url ?? "/", "http://localhost").pathname;
+            if(req.method !== "GET" && req.method !== "HEAD"){
+                res.writeHead(405, { "Allow": "GET, HEAD" }).end();
+            }else if(route === "/health"){
+                const health = recorder.getHealth();
+                res.writeHead(health.healthy ? 200 : 503, { "Content-Type": "application/json" }).end(JSON.stringify(health));
+            }else if(route === "/metrics"){
+                res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" }).end(recorder.getMetrics());
+            }else if(route.startsWith("/records/")){
+                StatusServer.queryRecords(recorder, route, new URL(req.url ?? "/", "http://localhost").searchParams, res);
+            }else{
+                res.writeHead(404).end();
+            }
+        });
+
+        return new Promise<StatusServer>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(settings.port, settings.host, () => {
+                server.removeListener("error", reject);
+                server.on("error", (err) => {
+                    log.error("Status server error");
+                    log.error(err);
+                });
+                log.info(`Status server is listening on '${settings.host}:${settings.port}'!`);
+                resolve(new StatusServer(settings, server));
+            });
+        });
+    }
+
+    private static queryRecords(recorder: Recorder, route: string, params: URLSearchParams, res: http.ServerResponse){
+        const storage = recorder.getStorage();
+        const [kind, latest, ...rest] = route.slice("/records/".length).split("/");
+        if(!storage || !RECORD_KINDS.includes(kind as RecordKind) || (latest !== undefined && latest !== "latest") || rest.length > 0){
+            res.writeHead(404).end();
+            return;
+        }
+
+        const from = params.has("from") ? new Date(params.get("from")!) : undefined;
+        const to = params.has("to") ? new Date(params.get("to")!) : undefined;
+        const limit = params.has("limit") ? Number(params.get("limit")) : undefined;
+        if((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= MAX_QUERY_LIMIT))){
+            res.writeHead(400, { "Content-Type": "application/json" })
+                .end(JSON.stringify({ error: `Invalid query, 'from' and 'to' have to be ISO 8601 times and 'limit' an integer between 1 and ${MAX_QUERY_LIMIT}` }));
+            return;
+        }
+        try{
+            const result = latest ? storage.latest(kind as RecordKind) : storage.query(kind as RecordKind, { from, to, limit });
+            if(result === undefined){
+                res.writeHead(404).end();
+            }else{
+                res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(result));
+            }
+        }catch(err){
+            log.error("Failed to query the stored records!");
+            log.error(err);
+            res.writeHead(500).end();
+        }
+    }
+
+    /**
+     * Stops the status server.
+     */
+    public close = () => new Promise<void>((resolve) => {
+        this.server.close(() => resolve());
+        this.server.closeAllConnections();
+    });
+}
@@ -0,0 +1,59 @@
+/**
+ * A pressure trend over the last three hours (the same classification as the console's `pressTrend`).
+ */
+export type PressureTrend = "Falling Rapidly" | "Falling Slowly" | "Steady" | "Rising Slowly" | "Rising Rapidly";
+
+/**
+ * Aggregates computed by the recorder from the current conditions of the last minute, ten minutes, hour, day and three hours (aggregates task).
+ * Values are in the configured units. Values are `null` if no current conditions (or not enough history) are available.
+ */
+export default interface AggregatesRecord{
+    /** The time the aggregates have been computed */
+    time: Date,
+    /** The number of current conditions records the aggregates of the last hour are computed from */
+    samples1h: number,
+    /** The average wind speed over the last minute */
+    windAvg1m: number | null,
+    /** The average wind speed over the last ten minutes */
+    windAvg10m: number | null,
+    /** The average wind speed over the last hour */
+    windAvg1h: number | null,
+    /** The highest wind speed measured in the last minute */
+    windGust1m: number | null,
+    /** The highest wind speed measured in the last ten minutes */
+    windGust10m: number | null,
+    /** The highest wind speed measured in the last hour */
+    windGust1h: number | null,
+    /** The lowest outside temperature of the last minute */
+    tempOutMin1m: number | null,
+    /** The highest outside temperature of the last minute */
+    tempOutMax1m: number | null,
+    /** The mean outside temperature of the last minute */
+    tempOutMean1m: number | null,
+    /** The lowest outside temperature of the last ten minutes */
+    tempOutMin10m: number | null,
+    /** The highest outside temperature of the last ten minutes */
+    tempOutMax10m: number | null,
+    /** The mean outside temperature of the last ten minutes */
+    tempOutMean10m: number | null,
+    /** The lowest outside temperature of the last hour */
+    tempOutMin1h: number | null,
+    /** The highest outside temperature of the last hour */
+    tempOutMax1h: number | null,
+    /** The mean outside temperature of the last hour */
+    tempOutMean1h: number | null,
+    /** The amount of rain that fell in the last hour (computed from the daily rain counter, resets of the counter are handled) */
+    rain1h: number | null,
+    /** The amount of rain that fell today (since midnight, recorder time). Isn't affected by resets of the console's rain counter. */
+    rainDay: number | null,
+    /** The highest rain rate of the last hour */
+    rainRateMax1h: number | null,
+    /** The evapotranspiration (ET) of the last hour (computed from the daily ET counter) */
+    et1h: number | null,
+    /** The evapotranspiration (ET) of today (since midnight, recorder time) */
+    etDay: number | null,
+    /** The change of the barometric pressure over the last three hours */
+    pressChange3h: number | null,
+    /** The pressure trend over the last three hours */
+    pressTrend3h: PressureTrend | null,
+}
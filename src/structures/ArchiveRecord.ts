@@ -0,0 +1,69 @@
+/**
+ * A compass direction as used by the vantage console (e.g. `"NNE"`).
+ */
+export type WindDirection = "N" | "NNE" | "NE" | "ENE" | "E" | "ESE" | "SE" | "SSE" | "S" | "SSW" | "SW" | "WSW" | "W" | "WNW" | "NW" | "NNW";
+
+/**
+ * A single record of the weather station's archive memory (revision B format). The console writes one record per archive interval.
+ * Values are converted to the interface's configured units. Dashed (unavailable) values are `null`.
+ */
+export default interface ArchiveRecord{
+    /** The time the archive interval ended (console time) */
+    time: Date,
+    /** The average outside temperature over the archive interval */
+    tempOut: number | null,
+    /** The highest outside temperature over the archive interval */
+    tempOutHi: number | null,
+    /** The lowest outside temperature over the archive interval */
+    tempOutLo: number | null,
+    /** The amount of rain that has fallen during the archive interval */
+    rain: number | null,
+    /** The highest rain rate over the archive interval */
+    rainRateHi: number | null,
+    /** The barometric pressure at the end of the archive interval */
+    press: number | null,
+    /** The average solar radiation over the archive interval */
+    solarRadiation: number | null,
+    /** The highest solar radiation over the archive interval */
+    solarRadiationHi: number | null,
+    /** The number of wind samples received from the ISS during the archive interval. Useful to judge the reception quality. */
+    windSamples: number | null,
+    /** The inside temperature at the end of the archive interval */
+    tempIn: number | null,
+    /** The inside humidity at the end of the archive interval */
+    humIn: number | null,
+    /** The outside humidity at the end of the archive interval */
+    humOut: number | null,
+    /** The average wind speed over the archive interval */
+    windAvg: number | null,
+    /** The highest wind speed over the archive interval */
+    windHi: number | null,
+    /** The direction of the highest wind speed */
+    windHiDir: WindDirection | null,
+    /** The direction of the highest wind speed in degrees (from `22.5` to `360`) */
+    windHiDirDeg: number | null,
+    /** The prevailing wind direction over the archive interval */
+    windDir: WindDirection | null,
+    /** The prevailing wind direction in degrees (from `22.5` to `360`) */
+    windDirDeg: number | null,
+    /** The average UV index over the archive interval */
+    uv: number | null,
+    /** The highest UV index over the archive interval */
+    uvHi: number | null,
+    /** The accumulated evapotranspiration. Only calculated on the hour. */
+    et: number | null,
+    /** The forecast rule at the end of the archive interval */
+    forecastRule: number | null,
+    /** Leaf temperatures (from up to 2 sensors) */
+    leafTemps: [number | null, number | null],
+    /** Leaf wetnesses (from up to 2 sensors) */
+    leafWetnesses: [number | null, number | null],
+    /** Soil temperatures (from up to 4 sensors) */
+    soilTemps: [number | null, number | null, number | null, number | null],
+    /** Extra humidities (from up to 2 sensors) */
+    humExtra: [number | null, number | null],
+    /** Extra temperatures (from up to 3 sensors) */
+    tempExtra: [number | null, number | null, number | null],
+    /** Soil moistures (from up to 4 sensors) */
+    soilMoistures: [number | null, number | null, number | null, number | null],
+}
@@ -0,0 +1,111 @@
+import { UnitConfiguration } from "vant-environment/units";
+import { DeepReadonly } from "ts-essentials";
+
+/** The (upper) wind speed limits of the beaufort scale in mph. Used to approximate beaufort values. */
+const beaufortLimits = [1.1, 3.4, 7.4, 12.3, 17.9, 24.2, 30.9, 38.3, 46.3, 54.6, 63.8, 72.9, 80];
+
+/**
+ * Converts values from the configured units back to the imperial units required by most weather networks.
+ * Every converter passes `null` through.
+ * @param units the units the values are measured in
+ * @hidden
+ */
+export default function createImperialConverters(units: DeepReadonly<UnitConfiguration>){
+    return {
+        /** Converts a temperature to °F */
+        temperature: (value: number | null) => {
+            if(value === null) return null;
+            return units.temperature === "°C" ? value * 9 / 5 + 32 : value;
+        },
+        /** Converts a pressure to inHg */
+        pressure: (value: number | null) => {
+            if(value === null) return null;
+            switch(units.pressure){
+                case "hPa":
+                case "mb":
+                    return value / 33.86389;
+                case "mmHg":
+                    return value / 25.4000003000246;
+                default:
+                    return value;
+            }
+        },
+        /** Converts a wind speed to mph. Beaufort values are approximated by the middle of their range. */
+        wind: (value: number | null) => {
+            if(value === null) return null;
+            switch(units.wind){
+                case "km/h":
+                    return value / 1.609344;
+                case "ft/s":
+                    return value / 1.4666666666666666;
+                case "knots":
+                    return value / 0.8689762419006478;
+                case "m/s":
+                    return value / 0.44704;
+                case "Bft":
+                    const beaufort = Math.max(0, Math.min(12, Math.round(value)));
+                    return beaufort === 0 ? 0 : (beaufortLimits[beaufort - 1] + beaufortLimits[beaufort]) / 2;
+                default:
+                    return value;
+            }
+        },
+        /** Converts a rain amount (or rain rate) to in (or in/h) */
+        rain: (value: number | null) => {
+            if(value === null) return null;
+            return units.rain === "mm" ? value / 25.4 : value;
+        },
+    };
+}
+
+/**
+ * Converts values from imperial units (the units the console measures in) to the configured units. Counterpart of {@link createImperialConverters}.
+ * Every converter passes `null` through.
+ * @param units the units to convert to
+ * @hidden
+ */
+export function createUnitConverters(units: DeepReadonly<UnitConfiguration>){
+    return {
+        /** Converts a temperature in °F */
+        temperature: (value: number | null) => {
+            if(value === null) return null;
+            return units.temperature === "°C" ? (value - 32) * 5 / 9 : value;
+        },
+        /** Converts a pressure in inHg */
+        pressure: (value: number | null) => {
+            if(value === null) return null;
+            switch(units.pressure){
+                case "hPa":
+                case "mb":
+                    return value * 33.86389;
+                case "mmHg":
+                    return value * 25.4000003000246;
+                default:
+                    return value;
+            }
+        },
+        /** Converts a wind speed in mph */
+        wind: (value: number | null) => {
+            if(value === null) return null;
+            switch(units.wind){
+                case "km/h":
+                    return value * 1.609344;
+                case "ft/s":
+                    return value * 1.4666666666666666;
+                case "knots":
+                    return value * 0.8689762419006478;
+                case "m/s":
+                    return value * 0.44704;
+                case "Bft":
+                    const beaufort = beaufortLimits.findIndex(limit => value < limit);
+                    return beaufort === -1 ? 12 : beaufort;
+                default:
+                    return value;
+            }
+        },
+        /** Converts a rain amount (or rain rate) in in (or in/h) */
+        rain: (value: number | null) => {
+            if(value === null) return null;
+            return units.rain === "mm" ? value * 25.4 : value;
+        },
+    };
+}
@@ -0,0 +1,79 @@
+import fs from "fs/promises";
+import tls from "tls";
+import { createPrivateKey } from "crypto";
+import superagent from "superagent";
+import { DeepReadonly } from "ts-essentials";
+import { TlsSettings } from "../settings/RecorderSettings";
+import InvalidRecorderConfigurationError from "../InvalidRecorderConfigurationError";
+import log from "../log";
+
+/**
+ * The loaded TLS options (the content of the configured files), see {@link TlsSettings}.
+ * @hidden
+ */
+export interface TlsOptions{
+    /** The trusted CA certificates (the default CAs and the configured ones). `undefined` if only the default CAs are trusted. */
+    ca?: string[],
+    /** The client certificate. */
+    cert?: string,
+    /** The client certificate's (decrypted) private key. */
+    key?: string,
+    /** Whether the server's certificate is verified. */
+    rejectUnauthorized: boolean,
+}
+
+/**
+ * Reads the files configured in the passed TLS settings.
+ * @param settings the TLS settings
+ * @returns the TLS options
+ * @throws {@link InvalidRecorderConfigurationError} if a file can't be read or the private key can't be decrypted
+ * @hidden
+ */
+export default async function loadTlsOptions(settings: DeepReadonly<TlsSettings>) : Promise<TlsOptions>{
+    const options : TlsOptions = { rejectUnauthorized: !settings.insecure };
+    if(settings.caPath){
+        options.ca = [...tls.rootCertificates, await readFile(settings.caPath, "CA")];
+    }
+    if(settings.certPath){
+        options.cert = await readFile(settings.certPath, "client certificate");
+    }
+    if(settings.keyPath){
+        const key = await readFile(settings.keyPath, "private key");
+        try{
+            options.key = createPrivateKey({ key, passphrase: settings.keyPassphrase }).export({ type: "pkcs8", format: "pem" }) as string;
+        }catch(err){
+            log.error(`Failed to decrypt the private key '${settings.keyPath}' (wrong passphrase?)!`);
+            throw new InvalidRecorderConfigurationError(`Failed to decrypt the private key '${settings.keyPath}' (wrong passphrase?)!`);
+        }
+    }
+    return options;
+}
+
+/**
+ * Applies the passed TLS options to the passed request.
+ * @param request the request
+ * @param options the TLS options
+ * @returns the request
+ * @hidden
+ */
+export function applyTlsOptions(request: superagent.SuperAgentRequest, options: TlsOptions){
+    if(!options.rejectUnauthorized){
+        request.disableTLSCerts();
+    }
+    if(options.ca){
+        request.ca(options.ca);
+    }
+    if(options.cert && options.key){
+        request.cert(options.cert).key(options.key);
+    }
+    return request;
+}
+
+async function readFile(path: string, description: string){
+    try{
+        return await fs.readFile(path, "utf-8");
+    }catch(err){
+        log.error(`Failed to read the TLS ${description} '${path}'!`);
+        throw new InvalidRecorderConfigurationError(`Failed to read the TLS ${description} '${path}': ${(err as Error).message}`);
+    }
+}
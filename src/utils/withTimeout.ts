@@ -0,0 +1,15 @@
+/**
+ * Rejects with an error containing the passed message if the passed promise doesn't settle within the passed timeout.
+ * @param promise the promise
+ * @param timeout the timeout in seconds
+ * @param message the error message
+ * @returns a promise settling like the passed one (or rejecting on timeout)
+ * @hidden
+ */
+export default function withTimeout<T>(promise: Promise<T>, timeout: number, message: string){
+    let timer : NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), timeout * 1000);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,120 @@
+import { describe, it, beforeEach, afterEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { RichRealtimeData } from "vant-environment/structures";
+import AlarmEvaluator, { AlarmNotification } from "../src/alarms/AlarmEvaluator";
+import SmtpNotifier from "../src/alarms/SmtpNotifier";
+import WebhookNotifier from "../src/alarms/WebhookNotifier";
+import { SmtpNotifierSettings } from "../src/settings/AlarmSettings";
+import MockSmtpServer from "./mocks/MockSmtpServer";
+import MockVantApi from "./mocks/MockVantApi";
+import { mockLog } from "./helpers";
+
+const START = new Date("2026-01-01T12:00:00Z").getTime();
+
+/** Creates current conditions whose time is the passed (console) time. */
+function recordAt(time: number){
+    const record = new RichRealtimeData();
+    record.time = new Date(time);
+    return record;
+}
+
+describe("AlarmEvaluator", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    it("measures the time without current conditions using the host's clock", () => {
+        const evaluator = new AlarmEvaluator([{ type: "no-data", name: "no-data", duration: 60, cooldown: 0 }], new Date(START));
+
+        // The console's clock is 10 minutes behind
+        for(let seconds = 0; seconds < 300; seconds += 10){
+            const now = START + seconds * 1000;
+            assert.deepEqual(evaluator.evaluate(recordAt(now - 600_000), new Date(now)), []);
+            assert.deepEqual(evaluator.checkNoData(new Date(now + 5000)), []);
+        }
+
+        const [notification] = evaluator.checkNoData(new Date(START + 400_000));
+        assert.equal(notification.state, "triggered");
+    });
+});
+
+const notification : AlarmNotification = {
+    rule: "gust",
+    type: "above",
+    state: "triggered",
+    time: new Date(START),
+    field: "windGust",
+    value: 62,
+    threshold: 60,
+    message: "windGust is above 60 (62)",
+};
+
+describe("WebhookNotifier", () => {
+    let server : MockVantApi;
+
+    beforeEach(async(t) => {
+        mockLog(t as TestContext);
+        server = await MockVantApi.start();
+    });
+
+    afterEach(async() => {
+        await server.close();
+    });
+
+    it("posts the notification as JSON with the configured headers", async() => {
+        const notifier = new WebhookNotifier({ type: "webhook", url: server.url + "/alarms", headers: { authorization: "Bearer secret" } });
+        await notifier.notify(notification);
+
+        assert.equal(server.requests.length, 1);
+        assert.equal(server.requests[0].route, "/alarms");
+        assert.equal(server.requests[0].headers.authorization, "Bearer secret");
+        assert.deepEqual(server.requests[0].body, { ...notification, time: notification.time.toISOString() });
+    });
+
+    it("rejects if the webhook doesn't answer with a success status", async() => {
+        server.status = 500;
+        const notifier = new WebhookNotifier({ type: "webhook", url: server.url + "/alarms", headers: {} });
+        await assert.rejects(notifier.notify(notification), /responded with status 500/);
+    });
+});
+
+describe("SmtpNotifier", () => {
+    let server : MockSmtpServer;
+
+    beforeEach(async(t) => {
+        mockLog(t as TestContext);
+        server = await MockSmtpServer.start();
+    });
+
+    afterEach(async() => {
+        await server.close();
+    });
+
+    function smtpSettings(settings: Partial<SmtpNotifierSettings> = {}) : SmtpNotifierSettings{
+        return { type: "smtp", host: "127.0.0.1", port: server.port, secure: false, insecure: false, from: "station@example.com", to: ["me@example.com", "you@example.com"], ...settings };
+    }
+
+    it("sends the notification as email to every recipient", async() => {
+        const notifier = await SmtpNotifier.create(smtpSettings());
+        await notifier.notify(notification);
+
+        assert.deepEqual(server.commands.slice(1), ["MAIL FROM:<station@example.com>", "RCPT TO:<me@example.com>", "RCPT TO:<you@example.com>", "DATA", "QUIT"]);
+        assert.equal(server.messages.length, 1);
+        assert.match(server.messages[0], /^Subject: \[vant-recorder\] Alarm 'gust' triggered$/m);
+        assert.match(server.messages[0], /^windGust is above 60 \(62\)\.$/m);
+    });
+
+    it("refuses to send the password unencrypted", async() => {
+        const notifier = await SmtpNotifier.create(smtpSettings({ username: "station", password: "secret" }));
+        await assert.rejects(notifier.notify(notification), /refusing to send the password unencrypted/);
+        assert.ok(!server.commands.some(command => command.startsWith("AUTH")));
+    });
+
+    it("rejects replies sent unencrypted before the TLS handshake", async() => {
+        server.extensions = ["STARTTLS", "AUTH PLAIN"];
+        // A man in the middle answering the commands that are sent encrypted after the handshake
+        server.afterStartTls = "250 injected\r\n235 injected\r\n";
+        const notifier = await SmtpNotifier.create(smtpSettings({ username: "station", password: "secret" }));
+
+        await assert.rejects(notifier.notify(notification), /sent unexpected data before the TLS handshake/);
+        assert.ok(!server.commands.some(command => command.startsWith("AUTH")));
+    });
+});
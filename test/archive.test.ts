@@ -0,0 +1,85 @@
+import { describe, it, beforeEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import Sink, { RecordKind } from "../src/sinks/Sink";
+import ArchiveRecord from "../src/structures/ArchiveRecord";
+import { createRecorder, mockLog, temporaryDirectory, testSettings } from "./helpers";
+
+const times = ["2026-01-01T12:00:00Z", "2026-01-01T12:05:00Z", "2026-01-01T12:10:00Z"].map(time => new Date(time));
+
+/**
+ * A sink collecting the archive records written to it. Fails while `failing` is set.
+ */
+class CollectingSink implements Sink{
+    public readonly written : Date[] = [];
+    public failing = false;
+
+    constructor(public readonly name: string){}
+
+    public write = async(kind: RecordKind, record: ArchiveRecord) => {
+        if(this.failing){
+            throw new Error(`Sink '${this.name}' is unavailable`);
+        }
+        if(kind === "archive"){
+            this.written.push(record.time);
+        }
+    }
+}
+
+describe("Recorder.updateArchive", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    async function createArchiveRecorder(t: TestContext, statePath: string){
+        const { recorder, station } = await createRecorder(t, testSettings({ sinks: [{ type: "file", directory: temporaryDirectory() }] }));
+        station.archive = times.map(time => ({ time }) as ArchiveRecord);
+        recorder.configureArchiveTask({ interval: 3600, statePath });
+        const good = new CollectingSink("good");
+        const flaky = new CollectingSink("flaky");
+        recorder.addSink(good);
+        recorder.addSink(flaky);
+        return { recorder, station, good, flaky };
+    }
+
+    it("doesn't let a failing sink hold back the other ones", async(t) => {
+        const statePath = path.join(temporaryDirectory(), "archive-state.json");
+        const { recorder, good, flaky } = await createArchiveRecorder(t, statePath);
+        flaky.write = async(kind, record) => {
+            if(record.time.getTime() === times[1].getTime()){
+                throw new Error("Sink 'flaky' is unavailable");
+            }
+            flaky.written.push(record.time);
+        };
+
+        await recorder["updateArchive"]();
+        assert.deepEqual(good.written, times);
+        // The records after the failed one aren't written to the failed sink (it would receive them out of order)
+        assert.deepEqual(flaky.written, [times[0]]);
+        const state = JSON.parse(fs.readFileSync(statePath, "utf-8"));
+        assert.equal(state.sinks.good, times[2].toISOString());
+        assert.equal(state.sinks.flaky, times[0].toISOString());
+    });
+
+    it("lets a failed sink catch up without writing the records to the other sinks again", async(t) => {
+        const statePath = path.join(temporaryDirectory(), "archive-state.json");
+        const { recorder, good, flaky } = await createArchiveRecorder(t, statePath);
+        flaky.failing = true;
+        await recorder["updateArchive"]();
+        assert.deepEqual(flaky.written, []);
+
+        flaky.failing = false;
+        await recorder["updateArchive"]();
+        assert.deepEqual(good.written, times);
+        assert.deepEqual(flaky.written, times);
+    });
+
+    it("continues from the time stored by older versions", async(t) => {
+        const statePath = path.join(temporaryDirectory(), "archive-state.json");
+        fs.writeFileSync(statePath, JSON.stringify({ lastUploadedRecordTime: times[0] }));
+        const { recorder, good, flaky } = await createArchiveRecorder(t, statePath);
+
+        await recorder["updateArchive"]();
+        assert.deepEqual(good.written, times.slice(1));
+        assert.deepEqual(flaky.written, times.slice(1));
+    });
+});
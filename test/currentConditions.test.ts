@@ -0,0 +1,148 @@
+import { describe, it, beforeEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import InvalidRecorderConfigurationError from "../src/InvalidRecorderConfigurationError";
+import { defaultCurrentConditionsTaskSettings } from "../src/settings/RecorderSettings";
+import { createRecorder, flush, mockLog, temporaryDirectory, testSettings } from "./helpers";
+
+/** The (mocked) time the recorder is started at. */
+const START = new Date("2026-01-01T12:00:00.300Z").getTime();
+
+/**
+ * Lets the mocked time pass in steps of 50ms, running the pending promise callbacks before every step.
+ * Reads taking time (see `FakeStation.onRead`) let additional time pass.
+ */
+async function advance(t: TestContext, milliseconds: number){
+    for(let passed = 0; passed < milliseconds; passed += 50){
+        await flush();
+        t.mock.timers.tick(50);
+    }
+    await flush();
+}
+
+describe("Recorder.configureCurrentConditionsTask", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    it("uses the default interval", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings());
+        recorder.configureCurrentConditionsTask({});
+        assert.equal(recorder.currentConditionsConfigured(), true);
+        assert.equal(recorder.currentConditionsInterval(), defaultCurrentConditionsTaskSettings.interval);
+    });
+
+    it("accepts intervals greater or equal to 1", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings());
+        recorder.configureCurrentConditionsTask({ interval: 30 });
+        assert.equal(recorder.currentConditionsInterval(), 30);
+    });
+
+    it("rejects intervals less than 1", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings());
+        assert.throws(() => recorder.configureCurrentConditionsTask({ interval: 0 }), InvalidRecorderConfigurationError);
+        assert.throws(() => recorder.configureCurrentConditionsTask({ interval: -5 }), InvalidRecorderConfigurationError);
+    });
+
+    it("disables the task", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings());
+        recorder.configureCurrentConditionsTask({ interval: 10 });
+        recorder.configureCurrentConditionsTask(false);
+        assert.equal(recorder.currentConditionsConfigured(), false);
+        assert.equal(recorder.currentConditionsInterval(), undefined);
+    });
+});
+
+describe("Recorder.updateCurrentConditions", () => {
+    beforeEach((t) => {
+        mockLog(t as TestContext);
+        (t as TestContext).mock.timers.enable({ apis: ["setTimeout", "Date"], now: START });
+    });
+
+    /** Creates a recorder writing to a file (an api would require real time to pass). */
+    async function createFileRecorder(t: TestContext){
+        return await createRecorder(t, testSettings({ sinks: [{ type: "file", directory: temporaryDirectory() }] }));
+    }
+
+    it("reads the current conditions at whole seconds although reading takes time", async(t) => {
+        const { recorder, station } = await createFileRecorder(t);
+        // Every read takes 250ms
+        station.onRead = () => t.mock.timers.tick(250);
+        recorder.configureCurrentConditionsTask({ interval: 1 });
+
+        recorder.start();
+        await advance(t, 4000);
+        recorder.stop();
+
+        assert.deepEqual(station.readTimes.slice(0, 5).map(time => time - START), [0, 700, 1700, 2700, 3700]);
+    });
+
+    it("keeps the configured interval", async(t) => {
+        const { recorder, station } = await createFileRecorder(t);
+        station.onRead = () => t.mock.timers.tick(400);
+        recorder.configureCurrentConditionsTask({ interval: 5 });
+
+        recorder.start();
+        await advance(t, 16000);
+        recorder.stop();
+
+        assert.deepEqual(station.readTimes.slice(0, 4).map(time => time - START), [0, 4700, 9700, 14700]);
+    });
+
+    it("retries failed reads after a second", async(t) => {
+        const { recorder, station } = await createFileRecorder(t);
+        const readFailures : unknown[] = [];
+        recorder.on("readFailed", (err) => { readFailures.push(err) });
+        const records : unknown[] = [];
+        recorder.on("record", (...[record]) => { records.push(record) });
+        station.failures = 2;
+        recorder.configureCurrentConditionsTask({ interval: 10 });
+
+        recorder.start();
+        await advance(t, 2500);
+        recorder.stop();
+
+        assert.equal(readFailures.length, 2);
+        assert.equal(records.length, 1);
+        assert.deepEqual(station.readTimes.map(time => time - START), [0, 1000, 2000]);
+    });
+
+    it("re-establishes the connection before reading again if a read timed out", async(t) => {
+        const { recorder, station } = await createRecorder(t, testSettings({ connection: { readTimeout: 2 }, sinks: [{ type: "file", directory: temporaryDirectory() }] }));
+        const events : string[] = [];
+        recorder.on("disconnected", () => { events.push("disconnected") });
+        recorder.on("connected", () => { events.push("connected") });
+        station.onRead = () => { events.push("read") };
+        station.hangs = 1;
+        recorder.configureCurrentConditionsTask({ interval: 10 });
+
+        recorder.start();
+        await advance(t, 3500);
+        recorder.stop();
+
+        assert.deepEqual(events, ["read", "disconnected", "connected", "read"]);
+    });
+
+    it("waits for a timed out read before reading again if reconnecting is disabled", async(t) => {
+        const { recorder, station } = await createRecorder(t, testSettings({ connection: { readTimeout: 2, reconnect: false }, sinks: [{ type: "file", directory: temporaryDirectory() }] }));
+        station.hangs = 1;
+        recorder.configureCurrentConditionsTask({ interval: 10 });
+
+        recorder.start();
+        await advance(t, 5000);
+        recorder.stop();
+
+        // Timed out after 2s, retried after another second, waited for the timed out read until 2s after the timeout
+        assert.deepEqual(station.readTimes.map(time => time - START), [0, 4000]);
+    });
+
+    it("stops reading when the recorder is stopped", async(t) => {
+        const { recorder, station } = await createFileRecorder(t);
+        recorder.configureCurrentConditionsTask({ interval: 1 });
+
+        recorder.start();
+        await advance(t, 1500);
+        recorder.stop();
+        const reads = station.readTimes.length;
+        await advance(t, 3000);
+
+        assert.equal(station.readTimes.length, reads);
+    });
+});
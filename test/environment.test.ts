@@ -0,0 +1,147 @@
+import { describe, it, beforeEach, afterEach, before, after, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Recorder from "../src/Recorder";
+import { defaultCurrentConditionsTaskSettings } from "../src/settings/RecorderSettings";
+import { createRecorder, mockLog, testSettings } from "./helpers";
+
+/** The environment variables every test starts with (a complete and valid configuration). */
+const validEnvironment = {
+    API: "http://127.0.0.1:8000/api",
+    API_KEY: "env-key",
+    MODEL: "Pro2",
+    BAUD_RATE: "19200",
+    SERIAL_PATH: "/dev/ttyENV",
+    RAIN_COLLECTOR_SIZE: "0.2mm",
+    LOG_LEVEL: "info",
+    CONSOLE_LOG: "false",
+    FILE_LOG: "false",
+    LOG_ERROR_INFORMATION: "true",
+    RAIN_UNIT: "in",
+    TEMPERATURE_UNIT: "°F",
+    PRESSURE_UNIT: "inHg",
+    SOLAR_RADIATION_UNIT: "W/m²",
+    WIND_UNIT: "mph",
+    OFFLINE_BUFFER: "false",
+};
+
+describe("environment variables", () => {
+    const originalEnvironment = { ...process.env };
+    const originalDirectory = process.cwd();
+    let directory : string;
+
+    before(() => {
+        // dotenv must not pick up a .env file of the repository
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "vant-recorder-env-"));
+        process.chdir(directory);
+    });
+
+    after(() => {
+        process.chdir(originalDirectory);
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    let messages : ReturnType<typeof mockLog>;
+    beforeEach((t) => {
+        messages = mockLog(t as TestContext);
+        process.env = { ...originalEnvironment, ...validEnvironment };
+    });
+
+    afterEach(() => {
+        process.env = originalEnvironment;
+    });
+
+    const invalidVariables = () => messages
+        .filter(({ level }) => level === "warn")
+        .map(({ message }) => /^Invalid or missing environment variable '(.+)'!$/.exec(String(message))?.[1])
+        .filter(variable => variable !== undefined);
+
+    it("reads the settings from the environment variables", () => {
+        Object.assign(process.env, {
+            BAUD_RATE: "9600",
+            MODEL: "Vue",
+            TEMPERATURE_UNIT: "°C",
+            SINKS: "api, file",
+            FILE_SINK_FORMAT: "csv",
+            STATUS_SERVER: "true",
+            STATUS_SERVER_PORT: "9101",
+        });
+        const settings = Recorder.resolveSettings({ preferEnvironmentVariables: true });
+
+        assert.equal(settings.api, "http://127.0.0.1:8000/api");
+        assert.equal(settings.key, "env-key");
+        assert.equal(settings.model, "Vue");
+        assert.equal(settings.baudRate, 9600);
+        assert.equal(settings.path, "/dev/ttyENV");
+        assert.equal(settings.rainCollectorSize, "0.2mm");
+        assert.equal(settings.units.temperature, "°C");
+        assert.equal(settings.logOptions.consoleLog, false);
+        assert.deepEqual(settings.sinks.map(sink => sink.type), ["api", "file"]);
+        assert.equal(settings.sinks[1].type === "file" && settings.sinks[1].format, "csv");
+        assert.equal(settings.statusServer.enabled, true);
+        assert.equal(settings.statusServer.port, 9101);
+        assert.deepEqual(invalidVariables(), []);
+    });
+
+    it("prefers the environment variables over the passed settings", () => {
+        const settings = Recorder.resolveSettings({ preferEnvironmentVariables: true, path: "/dev/ttyPASSED", baudRate: 4800 });
+        assert.equal(settings.path, "/dev/ttyENV");
+        assert.equal(settings.baudRate, 19200);
+    });
+
+    it("warns about invalid environment variables and keeps the passed settings", () => {
+        Object.assign(process.env, {
+            BAUD_RATE: "12345",
+            TLS_INSECURE: "maybe",
+            STATUS_SERVER_PORT: "http",
+            SINKS: "api,ftp",
+            TEMPERATURE_UNIT: "K",
+        });
+        const settings = Recorder.resolveSettings({ preferEnvironmentVariables: true, baudRate: 4800, sinks: [{ type: "stdout" }] });
+
+        assert.equal(settings.baudRate, 4800);
+        assert.equal(settings.tls.insecure, false);
+        assert.deepEqual(settings.sinks, [{ type: "stdout" }]);
+        assert.equal(settings.units.temperature, "°F");
+        for(const variable of ["BAUD_RATE", "TLS_INSECURE", "STATUS_SERVER_PORT", "SINKS", "TEMPERATURE_UNIT"]){
+            assert.ok(invalidVariables().includes(variable), `${variable} should be reported`);
+        }
+    });
+
+    it("warns about missing required environment variables", () => {
+        delete process.env.SERIAL_PATH;
+        delete process.env.RAIN_COLLECTOR_SIZE;
+        const settings = Recorder.resolveSettings({ preferEnvironmentVariables: true, path: "/dev/ttyPASSED", rainCollectorSize: "0.01in" });
+
+        assert.equal(settings.path, "/dev/ttyPASSED");
+        assert.equal(settings.rainCollectorSize, "0.01in");
+        assert.ok(invalidVariables().includes("SERIAL_PATH"));
+        assert.ok(invalidVariables().includes("RAIN_COLLECTOR_SIZE"));
+    });
+
+    it("ignores the environment variables if not preferred", () => {
+        process.env.BAUD_RATE = "9600";
+        const settings = Recorder.resolveSettings(testSettings());
+        assert.equal(settings.baudRate, 19200);
+        assert.equal(settings.path, "/dev/ttyFAKE");
+    });
+
+    it("configures the current conditions interval", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings());
+
+        process.env.CURRENT_CONDITIONS_INTERVAL = "15";
+        recorder.configureCurrentConditionsTask({ preferEnvironmentVariables: true, interval: 5 });
+        assert.equal(recorder.currentConditionsInterval(), 15);
+
+        process.env.CURRENT_CONDITIONS_INTERVAL = "0";
+        recorder.configureCurrentConditionsTask({ preferEnvironmentVariables: true, interval: 5 });
+        assert.equal(recorder.currentConditionsInterval(), 5);
+        assert.ok(invalidVariables().includes("CURRENT_CONDITIONS_INTERVAL"));
+
+        delete process.env.CURRENT_CONDITIONS_INTERVAL;
+        recorder.configureCurrentConditionsTask({ preferEnvironmentVariables: true });
+        assert.equal(recorder.currentConditionsInterval(), defaultCurrentConditionsTaskSettings.interval);
+    });
+});
@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TestContext } from "node:test";
+import Recorder from "../src/Recorder";
+import MinimumRecorderSettings from "../src/settings/MinimumRecorderSettings";
+import log from "../src/log";
+import FakeStation from "./mocks/FakeStation";
+
+type ExplicitRecorderSettings = Exclude<MinimumRecorderSettings, { preferEnvironmentVariables: true }>;
+
+/**
+ * Returns valid settings of a (fake) Vantage Pro 2 uploading to the passed api without logging and without offline buffer, overridden by the passed settings.
+ */
+export function testSettings(settings: Partial<ExplicitRecorderSettings> = {}, api = "http://127.0.0.1:1/api") : ExplicitRecorderSettings{
+    return {
+        api,
+        key: "test-key",
+        model: "Pro2",
+        path: "/dev/ttyFAKE",
+        baudRate: 19200,
+        rainCollectorSize: "0.2mm",
+        logOptions: { consoleLog: false, fileLog: false },
+        offlineBuffer: { enabled: false },
+        sinks: [{ type: "api" }],
+        ...settings,
+    };
+}
+
+/**
+ * Collects the logged messages instead of passing them to the transports (until the end of the test).
+ * The logger's `write` is mocked because `configureLogger(...)` replaces its level methods.
+ * @returns the logged messages
+ */
+export function mockLog(t: TestContext){
+    const messages : { level: string, message: unknown }[] = [];
+    t.mock.method(log, "write", (info: { level: string, message: unknown }) => {
+        messages.push(info);
+        return true;
+    });
+    return messages;
+}
+
+/**
+ * Creates a recorder reading from the passed fake station. The recorder is closed after the test.
+ */
+export async function createRecorder(t: TestContext, settings: MinimumRecorderSettings, station = new FakeStation()){
+    t.mock.method(Recorder, "createDeviceInterface", async() => station);
+    const recorder = await Recorder.create(settings);
+    t.after(() => recorder.close());
+    return { recorder, station };
+}
+
+const temporaryDirectories : string[] = [];
+
+// Not deleted after each test, the recorders using them are closed by later after hooks
+process.on("exit", () => {
+    for(const directory of temporaryDirectories){
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+});
+
+/**
+ * Creates a temporary directory that is deleted when the tests are done.
+ */
+export function temporaryDirectory(){
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "vant-recorder-test-"));
+    temporaryDirectories.push(directory);
+    return directory;
+}
+
+/**
+ * Resolves after all pending promise callbacks (and I/O callbacks that are already due) have run.
+ */
+export function flush(){
+    return new Promise<void>((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,58 @@
+import { EventEmitter } from "events";
+import { HighsAndLows, RichRealtimeData } from "vant-environment/structures";
+import WeatherStation from "../../src/interfaces/WeatherStation";
+import ArchiveRecord from "../../src/structures/ArchiveRecord";
+import { ArchiveInterval } from "../../src/settings/RecorderSettings";
+
+/**
+ * A fake weather station standing in for the {@link StationInterface} (vantjs' `VantPro2Interface`). Returns fixed current conditions
+ * (recording when they have been read) and the records of a fake archive memory.
+ */
+export default class FakeStation extends EventEmitter implements WeatherStation{
+    /** The times (`Date.now()`) the current conditions have been read at */
+    public readonly readTimes : number[] = [];
+    /** The number of upcoming reads that fail */
+    public failures = 0;
+    /** The number of upcoming reads that never answer (until the station is closed) */
+    public hangs = 0;
+    /** Called on every read before the record is created, e.g. to let mocked time pass like on a slow console */
+    public onRead? : () => void;
+    public open = true;
+    /** The records in the fake archive memory (oldest first) */
+    public archive : ArchiveRecord[] = [];
+
+    public getRichRealtimeData = async() => {
+        this.readTimes.push(Date.now());
+        this.onRead?.();
+        if(this.hangs > 0){
+            this.hangs--;
+            await new Promise<void>((resolve) => this.once("closed", resolve));
+            throw new Error("The port has been closed");
+        }
+        if(this.failures > 0){
+            this.failures--;
+            throw new Error("The console didn't answer");
+        }
+        const record = new RichRealtimeData();
+        record.tempOut = 68.2;
+        record.humOut = 55;
+        record.press = 29.92;
+        record.wind = 4;
+        record.windDirDeg = 180;
+        return record;
+    }
+
+    public getHighsAndLows = async() => new HighsAndLows();
+    public getArchiveRecords = async(since?: Date) => this.archive.filter(record => since === undefined || record.time > since);
+    public getConsoleTime = async() => new Date();
+    public setConsoleTime = async(_time: Date) => {};
+    public getArchiveInterval = async() => 5;
+    public setArchiveInterval = async(_minutes: ArchiveInterval) => {};
+    public clearDailyValues = async() => {};
+    public isPortOpen = () => this.open;
+
+    public close = async() => {
+        this.open = false;
+        this.emit("closed");
+    }
+}
@@ -0,0 +1,85 @@
+import net, { AddressInfo } from "net";
+
+/**
+ * An in-process stand-in for an SMTP server. Records the received commands and messages and accepts everything
+ * (without actually supporting TLS: the reply to `STARTTLS` is followed by {@link afterStartTls} only).
+ *
+ * Create an instance using {@link MockSmtpServer.start}.
+ */
+export default class MockSmtpServer{
+    /** The received commands (oldest first), e.g. `MAIL FROM:<station@example.com>` */
+    public readonly commands : string[] = [];
+    /** The received messages (without the terminating dot) */
+    public readonly messages : string[] = [];
+    /** The extensions advertised in the reply to `EHLO`, e.g. `STARTTLS` */
+    public extensions : string[] = [];
+    /** The raw data sent directly after the reply to `STARTTLS` */
+    public afterStartTls = "";
+
+    private readonly server : net.Server;
+
+    private constructor(server: net.Server){
+        this.server = server;
+    }
+
+    /**
+     * Starts a mock SMTP server on a random local port.
+     * @returns the started mock server
+     */
+    public static start = () => new Promise<MockSmtpServer>((resolve) => {
+        const server = net.createServer();
+        const smtp = new MockSmtpServer(server);
+        server.on("connection", smtp.onConnection);
+        server.listen(0, "127.0.0.1", () => resolve(smtp));
+    });
+
+    public get port(){
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    public close = () => new Promise<void>((resolve) => {
+        this.server.close(() => resolve());
+    });
+
+    private onConnection = (socket: net.Socket) => {
+        let received = "";
+        let message : string[] | undefined;
+        socket.write("220 mock ESMTP\r\n");
+        socket.on("data", (chunk) => {
+            received += chunk.toString("utf-8");
+            let index : number;
+            while((index = received.indexOf("\r\n")) >= 0){
+                const line = received.slice(0, index);
+                received = received.slice(index + 2);
+                if(message){
+                    if(line === "."){
+                        this.messages.push(message.join("\r\n"));
+                        message = undefined;
+                        socket.write("250 queued\r\n");
+                    }else{
+                        message.push(line);
+                    }
+                    continue;
+                }
+
+                this.commands.push(line);
+                const command = line.split(" ")[0].toUpperCase();
+                if(command === "EHLO"){
+                    socket.write(["mock", ...this.extensions].map((extension, i, all) => `250${i < all.length - 1 ? "-" : " "}${extension}\r\n`).join(""));
+                }else if(command === "STARTTLS"){
+                    socket.write("220 ready to start TLS\r\n" + this.afterStartTls);
+                }else if(command === "AUTH"){
+                    socket.write("235 authenticated\r\n");
+                }else if(command === "DATA"){
+                    message = [];
+                    socket.write("354 end data with <CR><LF>.<CR><LF>\r\n");
+                }else if(command === "QUIT"){
+                    socket.end("221 bye\r\n");
+                }else{
+                    socket.write("250 ok\r\n");
+                }
+            }
+        });
+        socket.on("error", () => {});
+    }
+}
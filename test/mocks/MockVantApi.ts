@@ -0,0 +1,94 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { gunzipSync } from "zlib";
+
+/**
+ * A request received by the {@link MockVantApi}.
+ */
+export interface ReceivedRequest{
+    /** The route without the api prefix, e.g. `/v1/current` */
+    route: string,
+    headers: http.IncomingHttpHeaders,
+    /** The parsed JSON body (decompressed if it has been sent gzip-compressed) */
+    body: any,
+}
+
+/**
+ * An in-process stand-in for vant-api. Records every request and answers with the configured status.
+ *
+ * Create an instance using {@link MockVantApi.start}.
+ */
+export default class MockVantApi{
+    /** The received requests (oldest first) */
+    public readonly requests : ReceivedRequest[] = [];
+    /** The status every request is answered with. Default is `201`. */
+    public status = 201;
+
+    private readonly server : http.Server;
+    private listeners : (() => void)[] = [];
+
+    private constructor(server: http.Server){
+        this.server = server;
+    }
+
+    /**
+     * Starts a mock api on a random local port.
+     * @returns the started mock api
+     */
+    public static start = () => new Promise<MockVantApi>((resolve) => {
+        const server = http.createServer();
+        const api = new MockVantApi(server);
+        server.on("request", api.onRequest);
+        server.listen(0, "127.0.0.1", () => resolve(api));
+    });
+
+    /** The url to pass as `api` setting, e.g. `http://127.0.0.1:40123/api` */
+    public get url(){
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`;
+    }
+
+    /**
+     * Waits until the passed number of requests has been received.
+     * @param count the number of requests
+     * @param timeout the maximum time to wait in milliseconds
+     */
+    public waitForRequests = (count: number, timeout = 5000) => new Promise<ReceivedRequest[]>((resolve, reject) => {
+        const check = () => {
+            if(this.requests.length >= count){
+                clearTimeout(timer);
+                this.listeners = this.listeners.filter(listener => listener !== check);
+                resolve(this.requests);
+            }
+        };
+        const timer = setTimeout(() => {
+            this.listeners = this.listeners.filter(listener => listener !== check);
+            reject(new Error(`Received ${this.requests.length} instead of ${count} request(s) within ${timeout}ms`));
+        }, timeout);
+        this.listeners.push(check);
+        check();
+    });
+
+    public close = () => new Promise<void>((resolve) => {
+        this.server.close(() => resolve());
+        this.server.closeAllConnections();
+    });
+
+    private onRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const chunks : Buffer[] = [];
+        req.on("data", (chunk) => chunks.push(chunk));
+        req.on("end", () => {
+            let body = Buffer.concat(chunks);
+            if(req.headers["content-encoding"] === "gzip"){
+                body = gunzipSync(body);
+            }
+            this.requests.push({
+                route: (req.url ?? "").replace(/^\/api/, ""),
+                headers: req.headers,
+                body: body.length > 0 ? JSON.parse(body.toString("utf-8")) : undefined,
+            });
+            const ok = this.status < 400;
+            res.writeHead(this.status, { "Content-Type": "application/json" }).end(JSON.stringify(ok ? {} : { message: `Mocked status ${this.status}` }));
+            [...this.listeners].forEach(listener => listener());
+        });
+    }
+}
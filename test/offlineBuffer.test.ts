@@ -0,0 +1,36 @@
+import { describe, it, beforeEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import OfflineBuffer from "../src/OfflineBuffer";
+import { mockLog, temporaryDirectory } from "./helpers";
+
+describe("OfflineBuffer", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    it("keeps the next upload if the delivered one has been discarded while it was sent", async() => {
+        const buffer = await OfflineBuffer.load({ enabled: true, path: path.join(temporaryDirectory(), "buffer.jsonl"), maxRecords: 2, maxAge: 3600 });
+        buffer.push("/v1/current", { n: 1 });
+        buffer.push("/v1/current", { n: 2 });
+
+        const sending = buffer.peek()!;
+        // Exceeds the maximum number of records, the upload being sent is discarded
+        buffer.push("/v1/current", { n: 3 });
+        buffer.shift(sending);
+        await buffer.flush();
+
+        assert.equal(buffer.size(), 2);
+        assert.deepEqual(buffer.peek()!.payload, { n: 2 });
+    });
+
+    it("removes a delivered upload", async() => {
+        const buffer = await OfflineBuffer.load({ enabled: true, path: path.join(temporaryDirectory(), "buffer.jsonl"), maxRecords: 2, maxAge: 3600 });
+        buffer.push("/v1/current", { n: 1 });
+        buffer.push("/v1/current", { n: 2 });
+
+        buffer.shift(buffer.peek()!);
+        await buffer.flush();
+
+        assert.equal(buffer.size(), 1);
+        assert.deepEqual(buffer.peek()!.payload, { n: 2 });
+    });
+});
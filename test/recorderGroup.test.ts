@@ -0,0 +1,32 @@
+import { describe, it, beforeEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import RecorderGroup from "../src/RecorderGroup";
+import { MinimumAlarmSettings } from "../src/settings/AlarmSettings";
+import { mockLog, testSettings } from "./helpers";
+
+describe("RecorderGroup.resolveStationConfigurations", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    it("replaces the shared alarm rules and notifiers by the station's ones", () => {
+        const sharedAlarms : MinimumAlarmSettings = {
+            rules: [{ type: "below", name: "frost", field: "tempOut", value: 32, hysteresis: 2 }],
+            notifiers: [{ type: "webhook", url: "http://127.0.0.1:1/shared" }],
+        };
+        const stationAlarms : MinimumAlarmSettings = {
+            rules: [{ type: "above", name: "gust", field: "windGust", value: 40 }],
+            notifiers: [{ type: "smtp", host: "127.0.0.1", from: "station@example.com", to: ["me@example.com"] }],
+        };
+        const { path, ...shared } = testSettings({ alarms: sharedAlarms });
+
+        const configurations = RecorderGroup.resolveStationConfigurations({
+            ...shared,
+            stations: [
+                { name: "garden", path },
+                { name: "roof", path, alarms: stationAlarms },
+            ],
+        });
+
+        assert.deepEqual(configurations.get("garden")!.alarms, sharedAlarms);
+        assert.deepEqual(configurations.get("roof")!.alarms, stationAlarms);
+    });
+});
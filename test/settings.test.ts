@@ -0,0 +1,113 @@
+import { describe, it, beforeEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import Recorder from "../src/Recorder";
+import InvalidRecorderConfigurationError from "../src/InvalidRecorderConfigurationError";
+import { defaultRecorderSettings } from "../src/settings/RecorderSettings";
+import MinimumRecorderSettings from "../src/settings/MinimumRecorderSettings";
+import { defaultFileSinkSettings, MinimumSinkSettings } from "../src/settings/SinkSettings";
+import { createRecorder, mockLog, testSettings } from "./helpers";
+
+describe("Recorder.resolveSettings", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    it("fills in the default settings", () => {
+        const settings = Recorder.resolveSettings(testSettings());
+        assert.equal(settings.model, "Pro2");
+        assert.deepEqual(settings.units, defaultRecorderSettings.units);
+        assert.deepEqual(settings.connection, defaultRecorderSettings.connection);
+        assert.deepEqual(settings.statusServer, defaultRecorderSettings.statusServer);
+        assert.equal(settings.tls.insecure, false);
+        assert.equal(settings.dataQuality.enabled, false);
+    });
+
+    it("merges nested settings with their defaults", () => {
+        const settings = Recorder.resolveSettings(testSettings({
+            units: { temperature: "°C" },
+            connection: { maxFailures: 5 },
+            statusServer: { port: 9200 },
+        }));
+        assert.equal(settings.units.temperature, "°C");
+        assert.equal(settings.units.wind, defaultRecorderSettings.units.wind);
+        assert.equal(settings.connection.maxFailures, 5);
+        assert.equal(settings.connection.readTimeout, defaultRecorderSettings.connection.readTimeout);
+        assert.equal(settings.statusServer.port, 9200);
+        assert.equal(settings.statusServer.host, defaultRecorderSettings.statusServer.host);
+    });
+
+    it("merges every sink with the defaults of its type", () => {
+        const settings = Recorder.resolveSettings(testSettings({ sinks: [{ type: "file", format: "csv" }, { type: "file" }] }));
+        assert.deepEqual(settings.sinks, [
+            { ...defaultFileSinkSettings, format: "csv" },
+            defaultFileSinkSettings,
+        ]);
+    });
+
+    it("doesn't modify the default settings", () => {
+        const defaults = structuredClone(defaultRecorderSettings);
+
+        const settings = Recorder.resolveSettings(testSettings({
+            logOptions: { consoleLog: false, fileLog: false, logLevel: "error" },
+            units: { temperature: "°C", rain: "mm" },
+            tls: { insecure: true },
+            offlineBuffer: { enabled: false, maxRecords: 5 },
+            statusServer: { enabled: true, port: 9300 },
+            sinks: [{ type: "mqtt", topicPrefix: "test" }],
+        }));
+        settings.units.pressure = "hPa";
+        settings.connection.maxFailures = 100;
+        settings.sinks.push({ type: "stdout" });
+
+        assert.deepEqual(defaultRecorderSettings, defaults);
+        // A recorder created afterwards starts from the unmodified defaults
+        const { logOptions, units, sinks, connection } = Recorder.resolveSettings({ ...testSettings(), logOptions: undefined, units: undefined, sinks: undefined });
+        assert.deepEqual(logOptions, defaults.logOptions);
+        assert.deepEqual(units, defaults.units);
+        assert.deepEqual(sinks, defaults.sinks);
+        assert.deepEqual(connection, defaults.connection);
+    });
+
+    it("rejects a missing serial path", () => {
+        assert.throws(() => Recorder.resolveSettings(testSettings({ path: undefined })), InvalidRecorderConfigurationError);
+    });
+
+    it("doesn't require a serial path for the simulator or a network address", () => {
+        Recorder.resolveSettings(testSettings({ path: undefined, model: "Simulator" }));
+        Recorder.resolveSettings(testSettings({ path: undefined, address: "192.168.1.20:22222" }));
+    });
+
+    it("rejects an invalid network address", () => {
+        assert.throws(() => Recorder.resolveSettings(testSettings({ address: "192.168.1.20:99999" })), InvalidRecorderConfigurationError);
+    });
+
+    it("rejects an unknown model", () => {
+        assert.throws(() => Recorder.resolveSettings(testSettings({ model: "Vantage Vue 3" as unknown as MinimumRecorderSettings["model"] })), InvalidRecorderConfigurationError);
+    });
+
+    it("rejects the api sink without api url", () => {
+        assert.throws(() => Recorder.resolveSettings(testSettings({}, "")), InvalidRecorderConfigurationError);
+    });
+
+    it("rejects an unknown sink", () => {
+        assert.throws(() => Recorder.resolveSettings(testSettings({ sinks: [{ type: "ftp" } as unknown as MinimumSinkSettings] })), InvalidRecorderConfigurationError);
+    });
+
+    it("rejects invalid status server settings", () => {
+        assert.throws(() => Recorder.resolveSettings(testSettings({ statusServer: { enabled: true, port: 70000 } })), InvalidRecorderConfigurationError);
+    });
+});
+
+describe("Recorder.create", () => {
+    beforeEach((t) => { mockLog(t as TestContext) });
+
+    it("creates a recorder using the resolved settings", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings({ units: { wind: "km/h" } }));
+        assert.equal(recorder.settings.units.wind, "km/h");
+        assert.equal(recorder.settings.sinks[0].type, "api");
+    });
+
+    it("rejects invalid settings before connecting to the weather station", async(t) => {
+        const createDeviceInterface = t.mock.method(Recorder, "createDeviceInterface");
+        await assert.rejects(Recorder.create(testSettings({ path: undefined })), InvalidRecorderConfigurationError);
+        assert.equal(createDeviceInterface.mock.callCount(), 0);
+    });
+});
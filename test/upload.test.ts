@@ -0,0 +1,171 @@
+import { describe, it, beforeEach, afterEach, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import Recorder from "../src/Recorder";
+import RecorderEvents from "../src/RecorderEvents";
+import Sink from "../src/sinks/Sink";
+import MockVantApi from "./mocks/MockVantApi";
+import { createRecorder, mockLog, temporaryDirectory, testSettings } from "./helpers";
+
+/**
+ * Resolves with the arguments of the next emission of the passed event.
+ */
+function nextEvent<E extends "uploaded" | "uploadBuffered" | "uploadFailed">(recorder: Recorder, event: E, timeout = 5000){
+    return new Promise<unknown[]>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`No '${event}' event within ${timeout}ms`)), timeout);
+        recorder.once(event, ((...args: unknown[]) => {
+            clearTimeout(timer);
+            resolve(args);
+        }) as RecorderEvents[E]);
+    });
+}
+
+describe("uploads", () => {
+    let api : MockVantApi;
+
+    beforeEach(async(t) => {
+        mockLog(t as TestContext);
+        api = await MockVantApi.start();
+    });
+
+    afterEach(async() => {
+        await api.close();
+    });
+
+    it("posts the current conditions to the api", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings({}, api.url));
+        recorder.configureCurrentConditionsTask({ interval: 60 });
+
+        const uploaded = nextEvent(recorder, "uploaded");
+        recorder.start();
+        const [record, kind, sink] = await uploaded;
+        recorder.stop();
+
+        assert.equal(kind, "current");
+        assert.equal((sink as Sink).name, "api");
+        assert.equal(api.requests.length, 1);
+        assert.equal(api.requests[0].route, "/v1/current");
+        assert.equal(api.requests[0].headers["x-api-key"], "test-key");
+        assert.equal(api.requests[0].body.tempOut, (record as { tempOut: number }).tempOut);
+    });
+
+    it("doesn't count records a sink skips as uploads", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings({}, api.url));
+        recorder.configureCurrentConditionsTask({ interval: 60 });
+        recorder.addSink({ name: "rate-limited", write: async() => "skipped" });
+        const uploadedTo : string[] = [];
+        recorder.on("uploaded", (...args) => { uploadedTo.push(args[2].name) });
+
+        const uploaded = nextEvent(recorder, "uploaded");
+        recorder.start();
+        await uploaded;
+        recorder.stop();
+
+        assert.deepEqual(uploadedTo, ["api"]);
+        assert.doesNotMatch(recorder.getMetrics(), /sink="rate-limited"/);
+    });
+
+    it("uploads batches gzip-compressed", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings({}, api.url));
+        recorder.configureCurrentConditionsTask({ interval: 1, uploadMode: "batch", batchWindow: 60, batchMaxSize: 2 });
+
+        recorder.start();
+        const [request] = await api.waitForRequests(1);
+        recorder.stop();
+
+        assert.equal(request.route, "/v1/current/batch");
+        assert.equal(request.headers["content-encoding"], "gzip");
+        assert.ok(Array.isArray(request.body));
+        assert.equal(request.body.length, 2);
+    });
+
+    it("counts a failed batch upload as failed task run", async(t) => {
+        api.status = 401;
+        const { recorder } = await createRecorder(t, testSettings({}, api.url));
+        recorder.configureCurrentConditionsTask({ interval: 1, uploadMode: "batch", batchWindow: 60, batchMaxSize: 2 });
+
+        const uploadFailed = nextEvent(recorder, "uploadFailed");
+        recorder.start();
+        await uploadFailed;
+        recorder.stop();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        assert.match(recorder.getMetrics(), /vant_recorder_task_failures_total\{task="current-conditions"\} 2/);
+    });
+
+    it("reports records the api rejects", async(t) => {
+        api.status = 401;
+        const { recorder } = await createRecorder(t, testSettings({ offlineBuffer: { enabled: true, path: path.join(temporaryDirectory(), "buffer.jsonl") } }, api.url));
+        recorder.configureCurrentConditionsTask({ interval: 60 });
+
+        const uploadFailed = nextEvent(recorder, "uploadFailed");
+        recorder.start();
+        const [err, , kind] = await uploadFailed;
+        recorder.stop();
+
+        assert.equal(kind, "current");
+        assert.equal((err as { status?: number }).status, 401);
+        // Client errors won't disappear by retrying, the record isn't buffered
+        assert.match(recorder.getMetrics(), /vant_recorder_queue_depth\{sink="api"\} 0/);
+    });
+
+    it("reports records that can't be sent to an unreachable api", async(t) => {
+        const url = api.url;
+        await api.close();
+        const { recorder } = await createRecorder(t, testSettings({}, url));
+        recorder.configureCurrentConditionsTask({ interval: 60 });
+
+        const uploadFailed = nextEvent(recorder, "uploadFailed");
+        recorder.start();
+        const [err, , kind] = await uploadFailed;
+        recorder.stop();
+
+        assert.equal(kind, "current");
+        assert.equal((err as { code?: string }).code, "ECONNREFUSED");
+    });
+
+    it("buffers records while the api fails and replays them once it answers again", async(t) => {
+        api.status = 503;
+        const { recorder } = await createRecorder(t, testSettings({ offlineBuffer: { enabled: true, path: path.join(temporaryDirectory(), "buffer.jsonl") } }, api.url));
+        recorder.configureCurrentConditionsTask({ interval: 60 });
+        let uploads = 0;
+        recorder.on("uploaded", () => { uploads++ });
+
+        const uploadBuffered = nextEvent(recorder, "uploadBuffered");
+        recorder.start();
+        const [, kind] = await uploadBuffered;
+        assert.equal(kind, "current");
+        // Buffered records aren't reported as uploaded
+        assert.equal(uploads, 0);
+        assert.equal(recorder.getHealth().lastUploadTime, null);
+        assert.equal(recorder.getHealth().queuedRecords, 1);
+        assert.match(recorder.getMetrics(), /vant_recorder_buffered_uploads_total\{sink="api"\} 1/);
+        assert.match(recorder.getMetrics(), /vant_recorder_queue_depth\{sink="api"\} 1/);
+
+        api.status = 201;
+        // The buffer is replayed after the retry delay (one second)
+        const [, replayed] = await api.waitForRequests(2);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        recorder.stop();
+
+        assert.equal(replayed.route, "/v1/current");
+        assert.deepEqual(replayed.body, api.requests[0].body);
+        assert.match(recorder.getMetrics(), /vant_recorder_queue_depth\{sink="api"\} 0/);
+    });
+
+    it("keeps the current sinks if the sinks of a reloaded configuration can't be created", async(t) => {
+        const { recorder } = await createRecorder(t, testSettings({}, api.url));
+        const missingCa = path.join(temporaryDirectory(), "missing-ca.pem");
+
+        await assert.rejects(recorder.reload({ ...testSettings({ tls: { caPath: missingCa } }, api.url), tasks: { currentConditions: { interval: 60 } } }));
+        assert.equal(recorder.settings.tls.caPath, undefined);
+        assert.equal(recorder.currentConditionsInterval(), undefined);
+
+        recorder.configureCurrentConditionsTask({ interval: 60 });
+        const uploaded = nextEvent(recorder, "uploaded");
+        recorder.start();
+        await uploaded;
+        recorder.stop();
+        assert.equal(api.requests.length, 1);
+    });
+});